@@ -0,0 +1,114 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import PostList from '@/components/PostList';
+import { formatArchiveMonth, getArchiveMonths, getPostsForMonth } from '@/lib/archive';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import { getAllPosts, getPostsToGenerate } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { SITE_NAME } from '@/lib/site';
+import { localizePosts } from '@/lib/translations';
+
+interface ArchiveMonthPageProps {
+  params: Promise<{ locale: string; year: string; month: string }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  return getArchiveMonths(await getPostsToGenerate());
+}
+
+export async function generateMetadata({ params }: ArchiveMonthPageProps): Promise<Metadata> {
+  const { locale: segment, year, month } = await params;
+  const locale = getRouteLocale(segment);
+  const posts = getPostsForMonth(await getAllPosts(), year, month);
+  if (posts.length === 0) return {};
+
+  return {
+    title: formatArchiveMonth(year, month, locale),
+    description: getMessages(locale).archive.monthDescription(posts.length, formatArchiveMonth(year, month, locale)),
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates(`/archive/${year}/${month}`),
+    },
+  };
+}
+
+export default async function ArchiveMonthPage({ params }: ArchiveMonthPageProps) {
+  const { locale: segment, year, month } = await params;
+  const locale = getRouteLocale(segment);
+  const messages = getMessages(locale);
+  const allPosts = await getAllPosts();
+  const posts = getPostsForMonth(allPosts, year, month);
+  if (posts.length === 0) notFound();
+
+  const months = getArchiveMonths(allPosts);
+  const index = months.findIndex(candidate => candidate.year === year && candidate.month === month);
+  const previous = index > 0 ? months[index - 1] : null;
+  const next = index < months.length - 1 ? months[index + 1] : null;
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <Link
+              href={localizePath(locale, '/archive')}
+              className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors"
+            >
+              {messages.common.archive}
+            </Link>
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mt-2 mb-3 font-serif">
+              {formatArchiveMonth(year, month, locale)}
+            </h1>
+            <p className="text-neutral-500 text-lg">
+              {messages.common.entries(posts.length)}
+            </p>
+          </div>
+        </header>
+
+        {/* Entries */}
+        <PostList posts={localizePosts(posts, locale)} locale={locale} />
+
+        {/* Previous / Next month */}
+        <nav
+          aria-label={messages.archive.months}
+          className="max-w-3xl mx-auto px-6 pb-16 grid grid-cols-2 gap-6"
+        >
+          {previous ? (
+            <Link
+              href={localizePath(locale, `/archive/${previous.year}/${previous.month}`)}
+              rel="prev"
+              className="border-t border-neutral-200 pt-4 text-neutral-800 hover:text-neutral-500 transition-colors"
+            >
+              ← {formatArchiveMonth(previous.year, previous.month, locale)}
+            </Link>
+          ) : <div />}
+          {next ? (
+            <Link
+              href={localizePath(locale, `/archive/${next.year}/${next.month}`)}
+              rel="next"
+              className="border-t border-neutral-200 pt-4 text-right text-neutral-800 hover:text-neutral-500 transition-colors"
+            >
+              {formatArchiveMonth(next.year, next.month, locale)} →
+            </Link>
+          ) : <div />}
+        </nav>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center space-y-3">
+            <p className="text-xs text-neutral-400 tracking-wide">
+              © {new Date().getFullYear()}
+            </p>
+            <LocaleSwitcher locale={locale} path={`/archive/${year}/${month}`} />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
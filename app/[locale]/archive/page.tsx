@@ -0,0 +1,64 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import ArchiveNav from '@/components/ArchiveNav';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import { buildArchive } from '@/lib/archive';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import { getAllPosts } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { SITE_NAME } from '@/lib/site';
+
+interface ArchivePageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: ArchivePageProps): Promise<Metadata> {
+  const messages = getMessages(getRouteLocale((await params).locale));
+
+  return {
+    title: messages.common.archive,
+    description: messages.archive.description,
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates('/archive'),
+    },
+  };
+}
+
+export default async function ArchivePage({ params }: ArchivePageProps) {
+  const locale = getRouteLocale((await params).locale);
+  const archive = buildArchive(await getAllPosts(), locale);
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <Link
+              href={localizePath(locale, '/')}
+              className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors"
+            >
+              Karlowitz
+            </Link>
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mt-2 font-serif">
+              {getMessages(locale).common.archive}
+            </h1>
+          </div>
+        </header>
+
+        <div className="max-w-md mx-auto px-6 py-12">
+          <ArchiveNav archive={archive} locale={locale} />
+        </div>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center">
+            <LocaleSwitcher locale={locale} path="/archive" />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
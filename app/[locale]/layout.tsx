@@ -0,0 +1,73 @@
+import type { Metadata, Viewport } from "next";
+import { notFound } from "next/navigation";
+import CommentReplies from "@/components/CommentReplies";
+import ServiceWorker from "@/components/ServiceWorker";
+import { getFeedAlternates } from "@/lib/feeds";
+import { getLanguageAlternates, isLocale, LOCALES } from "@/lib/i18n";
+import { getMessages } from "@/lib/messages";
+import { SITE_NAME, SITE_URL } from "@/lib/site";
+import { inter, lora } from "../fonts";
+import "../globals.css";
+
+interface LocaleLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}
+
+// Every page exists once per locale; unprefixed paths are redirected by the middleware
+export const dynamicParams = false;
+
+// Pages are re-rendered every ten minutes at most, so scheduled posts appear on time.
+// Route handlers don't inherit this and set their own.
+export const revalidate = 600;
+
+export function generateStaticParams() {
+  return LOCALES.map(locale => ({ locale }));
+}
+
+export const viewport: Viewport = {
+  themeColor: "#ffffff",
+};
+
+export async function generateMetadata({ params }: LocaleLayoutProps): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+
+  return {
+    metadataBase: new URL(SITE_URL),
+    title: {
+      default: SITE_NAME,
+      template: `%s | ${SITE_NAME}`,
+    },
+    description: getMessages(locale).site.description,
+    alternates: {
+      types: getFeedAlternates("/", SITE_NAME),
+      languages: getLanguageAlternates("/"),
+    },
+    icons: {
+      apple: "/icons/apple-touch-icon.png",
+    },
+    appleWebApp: {
+      capable: true,
+      title: SITE_NAME,
+    },
+  };
+}
+
+export default async function LocaleLayout({
+  children,
+  params,
+}: Readonly<LocaleLayoutProps>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale} className="motion-safe:scroll-smooth">
+      <body className={`${inter.variable} ${lora.variable} font-sans antialiased`}>
+        {children}
+        <CommentReplies locale={locale} />
+        <ServiceWorker />
+      </body>
+    </html>
+  );
+}
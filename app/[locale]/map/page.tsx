@@ -0,0 +1,63 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import TrailMap from '@/components/TrailMap';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import { getAllPosts } from '@/lib/load-posts';
+import { buildMapTrips } from '@/lib/map';
+import { getMessages } from '@/lib/messages';
+import { SITE_NAME } from '@/lib/site';
+import { localizePosts } from '@/lib/translations';
+
+interface MapPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: MapPageProps): Promise<Metadata> {
+  const messages = getMessages(getRouteLocale((await params).locale));
+
+  return {
+    title: messages.common.map,
+    description: messages.map.description,
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates('/map'),
+    },
+  };
+}
+
+export default async function MapPage({ params }: MapPageProps) {
+  const locale = getRouteLocale((await params).locale);
+  const trips = buildMapTrips(localizePosts(await getAllPosts(), locale));
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-6xl mx-auto px-6 py-8 flex items-baseline justify-between gap-4">
+            <Link
+              href={localizePath(locale, '/')}
+              className="text-2xl font-light tracking-tight text-neutral-900 font-serif hover:text-neutral-600 transition-colors"
+            >
+              Karlowitz
+            </Link>
+            <h1 className="text-sm uppercase tracking-wide text-neutral-400">{getMessages(locale).common.map}</h1>
+          </div>
+        </header>
+
+        <div className="max-w-6xl mx-auto px-6 py-8">
+          <TrailMap trips={trips} locale={locale} />
+        </div>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center">
+            <LocaleSwitcher locale={locale} path="/map" />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
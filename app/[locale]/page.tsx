@@ -0,0 +1,805 @@
+'use client';
+
+import { useEffect, useMemo, useState, useRef } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import {
+  BlogPostData,
+  getPostSlug,
+  sortPosts,
+} from '@/lib/posts';
+import { buildArchive } from '@/lib/archive';
+import { fetchCommentCounts } from '@/lib/comments';
+import { getRouteLocale, Locale, localizePath } from '@/lib/i18n';
+import { getPhotoHash, LightboxPosition, parsePhotoHash } from '@/lib/lightbox';
+import { setRowSpan } from '@/lib/masonry';
+import { getMessages } from '@/lib/messages';
+import { JOURNAL_UPDATED_MESSAGE } from '@/lib/offline';
+import { computeMileage, TrailState, TRAILS } from '@/lib/mileage';
+import {
+  DEFAULT_SORT_ORDER,
+  loadLastRead,
+  loadSortOrder,
+  saveLastRead,
+  saveSortOrder,
+  SortOrder,
+  takeNewPosts,
+} from '@/lib/reading';
+import { findPostBySlug } from '@/lib/slugs';
+import { hasTag, summarizeTags } from '@/lib/tags';
+import { localizePosts } from '@/lib/translations';
+import { getPostTripSlug, groupPostsByTrip, parsePostTitle, summarizeTrips } from '@/lib/trips';
+import ArchiveNav from '@/components/ArchiveNav';
+import Lightbox from '@/components/Lightbox';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import PostArticle from '@/components/PostArticle';
+import SearchBox from '@/components/SearchBox';
+import SortOrderToggle from '@/components/SortOrderToggle';
+import TagFilter from '@/components/TagFilter';
+import TrailProgress from '@/components/TrailProgress';
+import TripSwitcher from '@/components/TripSwitcher';
+
+// Articles rendered per step; more are added as the reader nears the end of the feed
+const PAGE_SIZE = 10;
+
+// Remembers whether the lightbox carries on into the neighbouring entries' photos
+const CONTINUE_ACROSS_POSTS_KEY = 'lightbox-continue-across-posts';
+
+const prefersReducedMotion = () => window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+// Offline the service worker answers from its copy of the journal
+const fetchJournal = (locale: Locale): Promise<BlogPostData[]> => {
+  return fetch('/journal.json')
+    .then(res => {
+      if (!res.ok) throw new Error('Failed to load posts');
+      return res.json();
+    })
+    .then(data => localizePosts(sortPosts(data), locale));
+};
+
+export default function Home() {
+  const locale = getRouteLocale(useParams<{ locale: string }>().locale);
+  const messages = getMessages(locale);
+  const [posts, setPosts] = useState<BlogPostData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentSlug, setCurrentSlug] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [renderCount, setRenderCount] = useState(PAGE_SIZE);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(DEFAULT_SORT_ORDER);
+  // Posts published since the previous visit, and the article read last back then
+  const [newSlugs, setNewSlugs] = useState<Set<string>>(new Set());
+  const [resumeFrom, setResumeFrom] = useState<string | null>(null);
+  const [resumeDismissed, setResumeDismissed] = useState(false);
+  const [lightbox, setLightbox] = useState<LightboxPosition | null>(null);
+  const [continueAcrossPosts, setContinueAcrossPosts] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [shareSuccess, setShareSuccess] = useState<string | null>(null);
+  // Approved comments per slug; empty offline, when the counts are simply left out
+  const [commentCounts, setCommentCounts] = useState<{ [slug: string]: number }>({});
+  // A newer journal than the one shown, from the service worker's background refresh
+  const [updatedPosts, setUpdatedPosts] = useState<BlogPostData[] | null>(null);
+  const postRefs = useRef<{ [key: string]: HTMLElement | null }>({});
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  const feedRef = useRef<HTMLDivElement | null>(null);
+  const lightboxOpenedFromRef = useRef<number | null>(null);
+  const expandedItemRef = useRef<HTMLElement | null>(null);
+
+  const trips = useMemo(() => summarizeTrips(groupPostsByTrip(posts)), [posts]);
+  const mileage = useMemo(() => computeMileage(posts), [posts]);
+  const tags = useMemo(() => summarizeTags(posts), [posts]);
+  const archive = useMemo(() => buildArchive(posts, locale), [posts, locale]);
+  // Highest "Day N" per trip, for the "Day N of M" indicator
+  const tripDays = useMemo(() => {
+    return new Map(groupPostsByTrip(posts).map(trip => [
+      trip.slug,
+      Math.max(0, ...trip.posts.map(post => parsePostTitle(post.title).day ?? 0)),
+    ]));
+  }, [posts]);
+
+  const isVisible = (post: BlogPostData) => selectedTag === null || hasTag(post, selectedTag);
+
+  // Posts that pass the tag filter in the chosen order, with their index into `posts`
+  // (used by the lightbox). Only the first `renderCount` are in the DOM.
+  const feed = posts
+    .map((post, index) => ({ post, index }))
+    .filter(({ post }) => isVisible(post));
+  if (sortOrder === 'newest') feed.reverse();
+  const renderedFeed = feed.slice(0, renderCount);
+
+  // Trail position of the post currently in view, if it is on a trip we have a trail for
+  const currentPost = posts.find(post => getPostSlug(post) === currentSlug) ?? null;
+  const currentTripSlug = currentPost ? getPostTripSlug(currentPost) : null;
+  const currentTrail = currentTripSlug ? TRAILS[currentTripSlug] ?? null : null;
+  const currentMileage = currentPost ? mileage.get(currentPost.url) ?? null : null;
+  const currentDay = currentPost ? parsePostTitle(currentPost.title).day : null;
+  const currentTripName = trips.find(trip => trip.slug === currentTripSlug)?.name ?? null;
+  const currentTripDays = currentTripSlug ? tripDays.get(currentTripSlug) ?? 0 : 0;
+
+  // The article after the one read last, in the current order
+  const resumeIndex = resumeFrom ? feed.findIndex(({ post }) => getPostSlug(post) === resumeFrom) : -1;
+  const resumePost = resumeIndex >= 0 ? feed[resumeIndex + 1]?.post ?? null : null;
+  const firstNewPost = feed.find(({ post }) => newSlugs.has(getPostSlug(post)))?.post ?? null;
+
+  useEffect(() => {
+    fetchJournal(locale)
+      .then(sorted => {
+        setPosts(sorted);
+        setSelectedTag(new URLSearchParams(window.location.search).get('tag'));
+        setSortOrder(loadSortOrder(window.location.search));
+        setNewSlugs(new Set(takeNewPosts(sorted).map(getPostSlug)));
+        // A link to a specific post wins over picking up where the reader left off
+        if (!window.location.hash) setResumeFrom(loadLastRead());
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error:', err);
+        setError(navigator.onLine ? messages.home.error(err.message) : messages.offline.unavailable);
+        setLoading(false);
+      });
+  }, [locale]);
+
+  useEffect(() => {
+    fetchCommentCounts().then(setCommentCounts).catch(err => console.error('Error:', err));
+  }, []);
+
+  // The service worker answers with its copy of the journal and fetches the current one
+  // in the background; when that differs it says so, and we load it too
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== JOURNAL_UPDATED_MESSAGE) return;
+      fetchJournal(locale).then(setUpdatedPosts).catch(err => console.error('Error:', err));
+    };
+    // Back online: asking again makes the service worker refresh its copy
+    const handleOnline = () => {
+      fetch('/journal.json').catch(() => undefined);
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [locale]);
+
+  // Entries in the refreshed journal that aren't in the feed yet. Without any, the
+  // refresh only changed existing entries and replaces the feed right away.
+  const addedPosts = useMemo(() => {
+    if (!updatedPosts) return [];
+    const known = new Set(posts.map(post => post.url));
+    return updatedPosts.filter(post => !known.has(post.url));
+  }, [posts, updatedPosts]);
+
+  useEffect(() => {
+    if (updatedPosts && addedPosts.length === 0) {
+      setPosts(updatedPosts);
+      setUpdatedPosts(null);
+    }
+  }, [updatedPosts, addedPosts]);
+
+  const showUpdatedPosts = () => {
+    if (!updatedPosts) return;
+    setPosts(updatedPosts);
+    setNewSlugs(current => new Set([...current, ...addedPosts.map(getPostSlug)]));
+    setResumeDismissed(false);
+    setUpdatedPosts(null);
+    feedRef.current?.scrollIntoView({ behavior: prefersReducedMotion() ? 'auto' : 'smooth' });
+  };
+
+  useEffect(() => {
+    setContinueAcrossPosts(localStorage.getItem(CONTINUE_ACROSS_POSTS_KEY) === '1');
+  }, []);
+
+  // Scroll to a post and briefly highlight it
+  const scrollToPost = (slug: string) => {
+    const element = postRefs.current[slug];
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: prefersReducedMotion() ? 'auto' : 'smooth', block: 'start' });
+    // Add a subtle highlight effect
+    element.style.backgroundColor = 'rgba(59, 130, 246, 0.05)';
+    setTimeout(() => {
+      element.style.backgroundColor = '';
+    }, 2000);
+  };
+
+  const resumeReading = (slug: string) => {
+    setResumeDismissed(true);
+    jumpToPost(slug);
+  };
+
+  // Narrow the feed to a tag and keep it in `?tag=`, next to any `?q=` search
+  const selectTag = (slug: string | null) => {
+    const params = new URLSearchParams(window.location.search);
+    if (slug) {
+      params.set('tag', slug);
+    } else {
+      params.delete('tag');
+    }
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+    setSelectedTag(slug);
+    setRenderCount(PAGE_SIZE);
+  };
+
+  // Switch between oldest and newest first, kept in `?order=` and for the next visit
+  const changeSortOrder = (order: SortOrder) => {
+    const params = new URLSearchParams(window.location.search);
+    if (order === DEFAULT_SORT_ORDER) {
+      params.delete('order');
+    } else {
+      params.set('order', order);
+    }
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+    saveSortOrder(order);
+    setSortOrder(order);
+    setRenderCount(PAGE_SIZE);
+    feedRef.current?.scrollIntoView({ behavior: prefersReducedMotion() ? 'auto' : 'smooth', block: 'start' });
+  };
+
+  // Scroll to a post. If the tag filter hides it, the filter is cleared; if it is further
+  // down than what has been rendered so far, the feed is extended up to it first.
+  const revealPost = (slug: string) => {
+    const post = posts.find(candidate => getPostSlug(candidate) === slug);
+    if (!post) return;
+
+    const filtered = !isVisible(post);
+    const position = filtered
+      ? posts.indexOf(post)
+      : feed.findIndex(entry => entry.post === post);
+    if (filtered) selectTag(null);
+
+    if (filtered || position >= renderCount) {
+      setRenderCount(Math.ceil((position + 1) / PAGE_SIZE) * PAGE_SIZE);
+      // Wait for the post to be rendered
+      setTimeout(() => scrollToPost(slug), 100);
+    } else {
+      scrollToPost(slug);
+    }
+  };
+
+  // Handle deep linking - scroll to post from URL hash, and reopen the lightbox
+  // for links to a photo (`#slug/photo/3`)
+  useEffect(() => {
+    if (posts.length === 0) return;
+
+    const hash = decodeURIComponent(window.location.hash.slice(1)); // Remove the # character
+    if (!hash) return;
+
+    // Shared links may use an older slug; point the hash at the current one
+    const { slug: linkedSlug, photo } = parsePhotoHash(hash);
+    const post = findPostBySlug(posts, linkedSlug);
+    if (!post) return;
+    const slug = getPostSlug(post);
+    if (slug !== linkedSlug) {
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${slug}`);
+    }
+    // Small delay to ensure DOM is ready
+    setTimeout(() => revealPost(slug), 100);
+
+    if (photo !== null && photo >= 1 && photo <= (post.images?.length ?? 0)) {
+      openLightbox(posts.indexOf(post), photo - 1);
+    }
+  }, [posts]);
+
+  // Jump to a post and put it in the hash, keeping any `?q=` search in the URL
+  const jumpToPost = (slug: string) => {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${slug}`);
+    revealPost(slug);
+  };
+
+  // Jump to the first post of the current trip that reached the selected state
+  const handleStateSelect = (state: TrailState) => {
+    if (!currentTripSlug) return;
+
+    const target = posts.find(post => {
+      const postMileage = mileage.get(post.url);
+      return getPostTripSlug(post) === currentTripSlug && postMileage && postMileage.mile >= state.startMile;
+    });
+    if (target) jumpToPost(getPostSlug(target));
+  };
+
+  // Track which article crosses the middle of the viewport
+  useEffect(() => {
+    if (posts.length === 0) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        entries.forEach(entry => {
+          if (entry.isIntersecting) {
+            setCurrentSlug((entry.target as HTMLElement).dataset.slug ?? null);
+          }
+        });
+      },
+      { rootMargin: '-50% 0px -50% 0px' }
+    );
+
+    Object.values(postRefs.current).forEach(element => {
+      if (element) observer.observe(element);
+    });
+    return () => observer.disconnect();
+  }, [posts, selectedTag, renderCount, sortOrder]);
+
+  // j / k move to the next / previous article, as in a feed reader
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'j' && e.key !== 'k') return;
+      if (lightbox || e.metaKey || e.ctrlKey || e.altKey) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const position = feed.findIndex(({ post }) => getPostSlug(post) === currentSlug);
+      const target = e.key === 'j' ? feed[position + 1] : feed[Math.max(position - 1, 0)];
+      if (!target) return;
+      e.preventDefault();
+      jumpToPost(getPostSlug(target.post));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Close the archive drawer with Escape
+  useEffect(() => {
+    if (!archiveOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setArchiveOpen(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [archiveOpen]);
+
+  // Remember the last article the reader scrolled all the way through
+  useEffect(() => {
+    if (posts.length === 0) return;
+
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const slug = (entry.target as HTMLElement).dataset.readMarker;
+        if (entry.isIntersecting && slug) saveLastRead(slug);
+      });
+    });
+
+    document.querySelectorAll('[data-read-marker]').forEach(marker => observer.observe(marker));
+    return () => observer.disconnect();
+  }, [posts, selectedTag, renderCount, sortOrder]);
+
+  // Render the next page of articles before the reader reaches the end of the feed
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setRenderCount(count => count + PAGE_SIZE);
+        }
+      },
+      { rootMargin: '1500px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [posts, selectedTag, renderCount, sortOrder]);
+
+  // Masonry (CSS Grid) row-span calculation. Only grids near the viewport are measured;
+  // the others are laid out when they scroll into view, or again if the window width
+  // changed since they were last measured.
+  useEffect(() => {
+    const grids = Array.from(document.querySelectorAll<HTMLElement>('.masonry-grid'));
+    const onScreen = new Set<HTMLElement>();
+    const watched = new Set<HTMLElement>();
+    const laidOutAt = new Map<HTMLElement, number>();
+
+    const layoutGrid = (grid: HTMLElement) => {
+      const items = Array.from(grid.querySelectorAll<HTMLElement>('.masonry-item'));
+      items.forEach(item => setRowSpan(item, grid));
+      laidOutAt.set(grid, window.innerWidth);
+    };
+
+    // Images with known dimensions already have their final height; only the
+    // ones without need to be re-measured once they load
+    const imgListeners: Array<() => void> = [];
+    const watchImages = (grid: HTMLElement) => {
+      const imgs = Array.from(grid.querySelectorAll<HTMLImageElement>('img'));
+      imgs.forEach(img => {
+        if (img.complete || Number(img.getAttribute('height')) > 0) return;
+        const handler = () => {
+          const item = img.closest('.masonry-item') as HTMLElement | null;
+          if (item) setRowSpan(item, grid);
+        };
+        img.addEventListener('load', handler);
+        img.addEventListener('error', handler);
+        imgListeners.push(() => {
+          img.removeEventListener('load', handler);
+          img.removeEventListener('error', handler);
+        });
+      });
+    };
+
+    // One screen of margin above and below, so grids are ready before they show
+    const observer = new IntersectionObserver(
+      entries => {
+        entries.forEach(entry => {
+          const grid = entry.target as HTMLElement;
+          if (!entry.isIntersecting) {
+            onScreen.delete(grid);
+            return;
+          }
+          onScreen.add(grid);
+          if (!watched.has(grid)) {
+            watched.add(grid);
+            watchImages(grid);
+          }
+          if (laidOutAt.get(grid) !== window.innerWidth) layoutGrid(grid);
+        });
+      },
+      { rootMargin: '100% 0px' }
+    );
+    grids.forEach(grid => observer.observe(grid));
+
+    const handleResize = () => onScreen.forEach(layoutGrid);
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', handleResize);
+      imgListeners.forEach(off => off());
+    };
+  }, [posts, selectedTag, renderCount, sortOrder]);
+
+  // Gallery preview: on hover or keyboard focus a photo spans both columns at its full
+  // aspect ratio. It grows in place; the page is not scrolled along.
+  const expandItem = (item: HTMLElement) => {
+    const previous = expandedItemRef.current;
+    if (previous && previous !== item) collapseItem(previous);
+
+    item.style.gridColumn = '1 / -1';
+    item.classList.add('masonry-item-expanded');
+    expandedItemRef.current = item;
+    requestAnimationFrame(() => setRowSpan(item, item.parentElement as HTMLElement));
+  };
+
+  const collapseItem = (item: HTMLElement) => {
+    item.style.gridColumn = '';
+    item.classList.remove('masonry-item-expanded');
+    if (expandedItemRef.current === item) expandedItemRef.current = null;
+    requestAnimationFrame(() => setRowSpan(item, item.parentElement as HTMLElement));
+  };
+
+  // Lightbox functions. The open photo is kept in the hash (`#slug/photo/3`) so it can be shared.
+  const showPhoto = (position: LightboxPosition) => {
+    const slug = getPostSlug(posts[position.postIndex]);
+    window.history.replaceState(
+      null,
+      '',
+      `${window.location.pathname}${window.location.search}#${getPhotoHash(slug, position.imageIndex)}`
+    );
+    setLightbox(position);
+  };
+
+  const openLightbox = (postIndex: number, imageIndex: number) => {
+    lightboxOpenedFromRef.current = postIndex;
+    showPhoto({ postIndex, imageIndex });
+    // Prevent body scroll when lightbox is open
+    document.body.style.overflow = 'hidden';
+  };
+
+  // Close on the entry of the last photo shown, scrolling to it if the lightbox
+  // carried on into another entry
+  const closeLightbox = () => {
+    if (!lightbox) return;
+    const slug = getPostSlug(posts[lightbox.postIndex]);
+    setLightbox(null);
+    document.body.style.overflow = 'unset';
+
+    if (lightbox.postIndex !== lightboxOpenedFromRef.current) {
+      jumpToPost(slug);
+    } else {
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}#${slug}`);
+    }
+  };
+
+  const changeContinueAcrossPosts = (value: boolean) => {
+    setContinueAcrossPosts(value);
+    localStorage.setItem(CONTINUE_ACROSS_POSTS_KEY, value ? '1' : '0');
+  };
+
+  // Share functionality
+  const sharePost = async (post: BlogPostData, index: number) => {
+    const slug = getPostSlug(post);
+    // The post's own page, so the link previews with its card (opengraph-image.tsx)
+    const shareUrl = `${window.location.origin}${localizePath(locale, `/posts/${slug}`)}`;
+    
+    const shareData = {
+      title: post.title,
+      text: messages.home.shareText(post.title),
+      url: shareUrl,
+    };
+
+    try {
+      // Try native share API first (mobile)
+      if (navigator.share) {
+        await navigator.share(shareData);
+        setShareSuccess(slug);
+      } else {
+        // Fallback to clipboard
+        await navigator.clipboard.writeText(shareUrl);
+        setShareSuccess(slug);
+      }
+      
+      // Clear success message after 3 seconds
+      setTimeout(() => setShareSuccess(null), 3000);
+    } catch (err) {
+      console.error('Error sharing:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="w-10 h-10 border-2 border-neutral-300 border-t-neutral-900 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-neutral-500 text-sm">{messages.home.loading}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-center">
+          <p className="text-red-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      {/* Appalachian Trail Progress - the current post's position on the trail */}
+      <div
+        className="fixed left-8 top-0 h-screen hidden lg:flex items-center z-50 pointer-events-none"
+        inert={lightbox !== null}
+      >
+        {currentTrail && (
+          <TrailProgress
+            trail={currentTrail}
+            currentMile={currentMileage?.mile ?? null}
+            estimated={currentMileage?.estimated}
+            onSelectState={handleStateSelect}
+            locale={locale}
+          />
+        )}
+      </div>
+
+      {/* Main Content */}
+      {/* Where the reader is, and the archive */}
+      <div className="fixed top-4 right-4 z-40 flex items-center gap-2" inert={lightbox !== null}>
+        {currentDay !== null && currentTripName && (
+          <p className="hidden sm:block bg-white/90 backdrop-blur border border-neutral-100 rounded-full px-3 py-1.5 text-xs text-neutral-500 shadow-sm">
+            {currentTripName} · {currentTripDays ? messages.home.dayOf(currentDay, currentTripDays) : messages.common.day(currentDay)}
+          </p>
+        )}
+        <button
+          onClick={() => setArchiveOpen(true)}
+          aria-expanded={archiveOpen}
+          aria-controls="archive-drawer"
+          className="bg-white/90 backdrop-blur border border-neutral-100 rounded-full px-3 py-1.5 text-xs text-neutral-700 shadow-sm hover:text-neutral-900 transition-colors"
+        >
+          {messages.common.archive}
+        </button>
+      </div>
+
+      {/* Entries that came in with the background refresh */}
+      {addedPosts.length > 0 && (
+        <div
+          role="status"
+          className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 bg-neutral-900 text-white rounded-full px-4 py-1.5 text-xs shadow-sm"
+          inert={lightbox !== null}
+        >
+          {messages.offline.newEntries(addedPosts.length)}
+          <button onClick={showUpdatedPosts} className="underline underline-offset-2 hover:text-neutral-300 transition-colors">
+            {messages.offline.showNewEntries}
+          </button>
+        </div>
+      )}
+
+      {archiveOpen && (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/20" onClick={() => setArchiveOpen(false)}>
+          <aside
+            id="archive-drawer"
+            aria-label={messages.common.archive}
+            className="h-full w-80 max-w-full overflow-y-auto bg-white shadow-xl px-6 py-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-6">
+              <Link href={localizePath(locale, '/archive')} className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors">
+                {messages.home.allMonths}
+              </Link>
+              <button
+                onClick={() => setArchiveOpen(false)}
+                className="text-sm text-neutral-500 hover:text-neutral-900"
+                autoFocus
+              >
+                {messages.common.close}
+              </button>
+            </div>
+            <ArchiveNav
+              archive={archive}
+              locale={locale}
+              onSelect={slug => {
+                setArchiveOpen(false);
+                jumpToPost(slug);
+              }}
+            />
+            <p className="text-xs text-neutral-400 mt-8">{messages.home.keyboardHint}</p>
+          </aside>
+        </div>
+      )}
+
+      {/* The page behind the lightbox can't be focused or read while it is open */}
+      <main className="lg:ml-24" inert={lightbox !== null}>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mb-3 font-serif">
+              Karlowitz
+            </h1>
+            <p className="text-neutral-500 text-lg">
+              {messages.home.updates(posts.length)} ·{' '}
+              <Link href={localizePath(locale, '/map')} className="underline decoration-neutral-300 underline-offset-4 hover:text-neutral-900 transition-colors">
+                {messages.common.map}
+              </Link>
+              {' '}·{' '}
+              <Link href={localizePath(locale, '/stats')} className="underline decoration-neutral-300 underline-offset-4 hover:text-neutral-900 transition-colors">
+                {messages.common.inNumbers}
+              </Link>
+            </p>
+            <div className="mt-8 flex flex-col gap-6">
+              <SearchBox onSelect={jumpToPost} locale={locale} />
+              <TripSwitcher trips={trips} locale={locale} />
+              <TagFilter tags={tags} selectedTag={selectedTag} onSelect={selectTag} locale={locale} />
+              <SortOrderToggle order={sortOrder} onChange={changeSortOrder} locale={locale} />
+            </div>
+          </div>
+        </header>
+
+        {/* Posts */}
+        <div ref={feedRef} className="max-w-6xl mx-auto px-6 py-12 lg:py-16 scroll-mt-16">
+          {/* Continue reading / new since the last visit */}
+          {!resumeDismissed && (resumePost || firstNewPost) && (
+            <div className="max-w-3xl mx-auto mb-12 flex flex-wrap items-center gap-x-6 gap-y-2 border border-neutral-200 rounded-sm px-5 py-4 text-sm">
+              {resumePost && (
+                <button onClick={() => resumeReading(getPostSlug(resumePost))} className="text-left text-neutral-700 hover:text-neutral-900">
+                  {messages.home.continueReading} <span className="font-serif text-base underline underline-offset-2">{resumePost.title}</span>
+                </button>
+              )}
+              {firstNewPost && (
+                <button onClick={() => resumeReading(getPostSlug(firstNewPost))} className="text-neutral-700 hover:text-neutral-900 underline underline-offset-2">
+                  {messages.home.newSinceLastVisit(newSlugs.size)}
+                </button>
+              )}
+              <button
+                onClick={() => setResumeDismissed(true)}
+                className="ml-auto text-neutral-400 hover:text-neutral-900"
+                aria-label={messages.home.dismiss}
+              >
+                ✕
+              </button>
+            </div>
+          )}
+
+          {renderedFeed.map(({ post, index }) => {
+            const slug = getPostSlug(post);
+            
+            return (
+              <article 
+                key={post.url || index} 
+                ref={(el) => { postRefs.current[slug] = el; }}
+                data-slug={slug}
+                className="mb-16 lg:mb-24 pb-16 lg:pb-24 border-b border-neutral-100 last:border-0 transition-colors duration-500"
+              >
+                <PostArticle
+                  post={post}
+                  locale={locale}
+                  badge={newSlugs.has(slug) && (
+                    <span className="flex-none px-2 py-0.5 rounded-full bg-neutral-900 text-white text-xs">{messages.home.new}</span>
+                  )}
+                  actions={
+                    <div className="ml-auto flex-none flex items-center gap-4">
+                      {commentCounts[slug] > 0 && (
+                        <Link
+                          href={localizePath(locale, `/posts/${slug}#comments`)}
+                          className="flex items-center gap-2 text-sm text-neutral-500 hover:text-neutral-900 transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden>
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h8m-8 4h5m-9 6 3.6-3H19a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v14z" />
+                          </svg>
+                          <span>{messages.comments.count(commentCounts[slug])}</span>
+                        </Link>
+                      )}
+                      <button
+                        onClick={() => sharePost(post, index)}
+                        className="group flex items-center gap-2 text-sm text-neutral-500 hover:text-neutral-900 transition-colors"
+                        aria-label={messages.home.sharePost}
+                      >
+                        {shareSuccess === slug ? (
+                          <>
+                            <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                            <span className="text-green-600">{messages.home.linkCopied}</span>
+                          </>
+                        ) : (
+                          <>
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                            </svg>
+                            <span>{messages.home.share}</span>
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  }
+                  onOpenImage={imageIndex => openLightbox(index, imageIndex)}
+                  onExpandImage={expandItem}
+                  onCollapseImage={collapseItem}
+                />
+
+                {/* Reaching this counts as having read the article */}
+                <div data-read-marker={slug} aria-hidden />
+              </article>
+            );
+          })}
+
+          {/* More articles are rendered as this comes near the viewport */}
+          {renderCount < feed.length && (
+            <div ref={loadMoreRef} className="text-center">
+              <button
+                onClick={() => setRenderCount(count => count + PAGE_SIZE)}
+                className="text-sm text-neutral-500 hover:text-neutral-900 transition-colors"
+              >
+                {messages.home.showMore(feed.length - renderCount)}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100 mt-16">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center space-y-3">
+            <p className="text-xs text-neutral-400 tracking-wide">
+              © {new Date().getFullYear()}
+            </p>
+            <LocaleSwitcher locale={locale} path="/" />
+          </div>
+        </footer>
+      </main>
+
+      {/* Announces the share button's result to screen readers */}
+      <p role="status" className="sr-only">
+        {shareSuccess && messages.home.linkCopied}
+      </p>
+
+      {/* Image Lightbox Modal */}
+      {lightbox && (
+        <Lightbox
+          posts={posts}
+          order={feed.map(({ index }) => index)}
+          position={lightbox}
+          continueAcrossPosts={continueAcrossPosts}
+          onContinueAcrossPostsChange={changeContinueAcrossPosts}
+          onNavigate={showPhoto}
+          onClose={closeLightbox}
+          locale={locale}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { ImageResponse } from 'next/og';
+import { getRouteLocale, LOCALES } from '@/lib/i18n';
+import wordpressImageLoader from '@/lib/image-loader';
+import { findFeaturedImage } from '@/lib/images';
+import { getAllPosts, getPostBySlug, getPostsToGenerate } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { computeMileage } from '@/lib/mileage';
+import { formatDate, getPostSlug } from '@/lib/posts';
+import { SITE_NAME } from '@/lib/site';
+import { formatNumber } from '@/lib/stats';
+import { localizePost } from '@/lib/translations';
+import { getTripName, parsePostTitle } from '@/lib/trips';
+
+interface PostImageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+// The card links in chats and social posts preview with: the entry's photo, its title
+// without the series prefix, the date, and where on the trip it was written.
+// Rendered at build time like the pages, and re-rendered as often.
+
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+export const alt = 'Photo, title and date of the journal entry';
+
+export const dynamicParams = false;
+export const revalidate = 600;
+
+// Route handlers don't get the locales from the layout, so both params are listed here
+export async function generateStaticParams() {
+  const posts = await getPostsToGenerate();
+  return LOCALES.flatMap(locale => posts.map(post => ({ locale, slug: getPostSlug(post) })));
+}
+
+// The photo as a data URL, or null if it can't be had (no network during the build);
+// the card then goes without
+const loadPhoto = async (src: string): Promise<string | null> => {
+  const resized = wordpressImageLoader({ src, width: size.width });
+  // /local-images only exists on the running server; use the original instead
+  const url = resized.startsWith('/') ? src : resized;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) return null;
+    const type = response.headers.get('content-type') ?? 'image/jpeg';
+    // The renderer reads JPEG and PNG only
+    if (!/^image\/(jpeg|png)/.test(type)) return null;
+    const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return `data:${type};base64,${data}`;
+  } catch {
+    return null;
+  }
+};
+
+export default async function PostImage({ params }: PostImageProps) {
+  const { locale: segment, slug } = await params;
+  const locale = getRouteLocale(segment);
+  const [result, posts] = await Promise.all([getPostBySlug(slug), getAllPosts()]);
+  if (!result) return new Response('Not found', { status: 404 });
+
+  const messages = getMessages(locale);
+  const post = localizePost(result.post, locale);
+  const { trip, day, title } = parsePostTitle(post.title);
+  const mileage = computeMileage(posts).get(post.url);
+  const featuredImage = findFeaturedImage(post);
+  const photo = featuredImage ? await loadPhoto(featuredImage.src) : null;
+
+  const place = [
+    trip && getTripName(trip),
+    day !== null && messages.common.day(day),
+    mileage && messages.post.mile(formatNumber(mileage.mile, locale), mileage.estimated),
+  ].filter(Boolean).join(' · ');
+
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', position: 'relative', backgroundColor: '#171717' }}>
+        {photo && (
+          <img src={photo} alt="" width={size.width} height={size.height} style={{ position: 'absolute', top: 0, left: 0, objectFit: 'cover' }} />
+        )}
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'flex-end',
+            padding: '56px 64px',
+            color: 'white',
+            backgroundImage: 'linear-gradient(to top, rgba(0,0,0,0.8) 0%, rgba(0,0,0,0.35) 45%, rgba(0,0,0,0) 70%)',
+          }}
+        >
+          {place && <div style={{ fontSize: 30, opacity: 0.85, marginBottom: 12 }}>{place}</div>}
+          <div style={{ fontSize: title.length > 40 ? 60 : 72, lineHeight: 1.1 }}>{title}</div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 26, opacity: 0.75, marginTop: 24 }}>
+            <span>{formatDate(post.date, locale)}</span>
+            <span>{SITE_NAME}</span>
+          </div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,216 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import Comments from '@/components/Comments';
+import JournalImage from '@/components/JournalImage';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import PostContent from '@/components/PostContent';
+import TagList from '@/components/TagList';
+import TripSwitcher from '@/components/TripSwitcher';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getIntlLocale, getLanguageAlternates, getRouteLocale, Locale, localizePath } from '@/lib/i18n';
+import { findFeaturedImage, getImageAlt, IMAGE_SIZES } from '@/lib/images';
+import { getAllTrips, getPostBySlug, getPostsToGenerate } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import {
+  BlogPostData,
+  formatDate,
+  getContrastColor,
+  getPostSlug,
+} from '@/lib/posts';
+import { SITE_NAME } from '@/lib/site';
+import { localizePost } from '@/lib/translations';
+import { getPostTripSlug, summarizeTrips } from '@/lib/trips';
+
+interface PostPageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+// Only the slugs from blog_posts.json exist; everything else is a 404
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const posts = await getPostsToGenerate();
+  return posts.map(post => ({ slug: getPostSlug(post) }));
+}
+
+export async function generateMetadata({ params }: PostPageProps): Promise<Metadata> {
+  const { locale: segment, slug } = await params;
+  const locale = getRouteLocale(segment);
+  const result = await getPostBySlug(slug);
+  if (!result) return {};
+
+  const post = localizePost(result.post, locale);
+  // The card image comes from opengraph-image.tsx next to this page
+  return {
+    title: post.title,
+    description: post.meta_description,
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates(`/posts/${slug}`),
+    },
+    openGraph: {
+      type: 'article',
+      title: post.title,
+      description: post.meta_description,
+      url: localizePath(locale, `/posts/${slug}`),
+      siteName: SITE_NAME,
+      locale: getIntlLocale(locale).replace('-', '_'),
+      publishedTime: post.date,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: post.title,
+      description: post.meta_description,
+    },
+  };
+}
+
+export default async function PostPage({ params }: PostPageProps) {
+  const { locale: segment, slug } = await params;
+  const locale = getRouteLocale(segment);
+  const [result, trips] = await Promise.all([getPostBySlug(slug), getAllTrips()]);
+  if (!result) notFound();
+
+  const post = localizePost(result.post, locale);
+  const previous = result.previous && localizePost(result.previous, locale);
+  const next = result.next && localizePost(result.next, locale);
+  const messages = getMessages(locale);
+  const featuredImage = findFeaturedImage(post);
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 flex flex-wrap items-center justify-between gap-4">
+            <Link
+              href={localizePath(locale, '/')}
+              className="text-2xl font-light tracking-tight text-neutral-900 font-serif hover:text-neutral-600 transition-colors"
+            >
+              Karlowitz
+            </Link>
+            <TripSwitcher trips={summarizeTrips(trips)} currentTrip={getPostTripSlug(post)} locale={locale} />
+          </div>
+        </header>
+
+        <article className="max-w-6xl mx-auto px-6 py-12 lg:py-16">
+          {/* Featured Image with Title Overlay */}
+          {featuredImage ? (
+            <div className="mx-auto mb-8" style={{ maxWidth: '80%' }}>
+              <div className="relative overflow-hidden rounded-sm">
+                <JournalImage
+                  image={featuredImage}
+                  alt={getImageAlt(featuredImage, post, locale)}
+                  sizes={IMAGE_SIZES.hero}
+                  className="w-full h-[600px] object-cover"
+                  style={{ objectPosition: 'center' }}
+                  priority
+                />
+
+                {/* Date Badge - Top Right */}
+                <time
+                  dateTime={post.date}
+                  className={`absolute top-4 right-4 ${getContrastColor(featuredImage.src)} text-white text-xs font-medium px-3 py-1.5 rounded-full shadow-lg`}
+                >
+                  {formatDate(post.date, locale)}
+                </time>
+
+                {/* Title Overlay with Extended Gradient */}
+                <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-white via-white/98 via-30% to-transparent pt-32 pb-6 px-6">
+                  <h1 className="text-3xl lg:text-4xl font-light text-neutral-800 leading-tight font-serif">
+                    {post.title}
+                  </h1>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="max-w-3xl mx-auto mb-8">
+              <time dateTime={post.date} className="text-sm text-neutral-500">
+                {formatDate(post.date, locale)}
+              </time>
+              <h1 className="text-3xl lg:text-4xl font-light text-neutral-800 leading-tight font-serif mt-2">
+                {post.title}
+              </h1>
+            </div>
+          )}
+
+          {/* Content */}
+          <div className="max-w-3xl mx-auto px-6 lg:px-0">
+            <PostContent post={post} />
+            <TagList tags={post.tags ?? []} locale={locale} />
+
+            {/* Image Grid */}
+            {post.images && post.images.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-8">
+                {post.images.map((image, imgIndex) => (
+                  <JournalImage
+                    key={imgIndex}
+                    image={image}
+                    alt={getImageAlt(image, post, locale)}
+                    sizes={IMAGE_SIZES.tile}
+                    className="w-full h-auto object-cover rounded-sm shadow-sm"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </article>
+
+        {/* Reactions and comments */}
+        <div className="max-w-3xl mx-auto px-6 pb-16">
+          <Comments slug={slug} locale={locale} />
+        </div>
+
+        {/* Previous / Next */}
+        <nav
+          aria-label={messages.post.navigation}
+          className="max-w-3xl mx-auto px-6 pb-16 grid grid-cols-2 gap-6"
+        >
+          <AdjacentPostLink post={previous} direction="prev" locale={locale} />
+          <AdjacentPostLink post={next} direction="next" locale={locale} />
+        </nav>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center space-y-3">
+            <p className="text-xs text-neutral-400 tracking-wide">
+              © {new Date().getFullYear()}
+            </p>
+            <LocaleSwitcher locale={locale} path={`/posts/${slug}`} />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
+
+function AdjacentPostLink({
+  post,
+  direction,
+  locale,
+}: {
+  post: BlogPostData | null;
+  direction: 'prev' | 'next';
+  locale: Locale;
+}) {
+  const isNext = direction === 'next';
+  if (!post) return <div />;
+
+  const messages = getMessages(locale).post;
+
+  return (
+    <Link
+      href={localizePath(locale, `/posts/${getPostSlug(post)}`)}
+      rel={direction}
+      className={`group block border-t border-neutral-200 pt-4 ${isNext ? 'text-right' : ''}`}
+    >
+      <span className="block text-xs uppercase tracking-wide text-neutral-400 mb-1">
+        {isNext ? messages.next : messages.previous}
+      </span>
+      <span className="font-serif text-lg text-neutral-800 group-hover:text-neutral-500 transition-colors">
+        {post.title}
+      </span>
+    </Link>
+  );
+}
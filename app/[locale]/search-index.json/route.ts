@@ -0,0 +1,23 @@
+import { getRouteLocale, LOCALES } from '@/lib/i18n';
+import { getAllPosts } from '@/lib/load-posts';
+import { buildSearchIndex } from '@/lib/search';
+import { localizePosts } from '@/lib/translations';
+
+interface SearchIndexRouteProps {
+  params: Promise<{ locale: string }>;
+}
+
+// One index per locale, over the translated posts. Rendered at build time and served
+// as a static file, re-rendered every ten minutes.
+export const dynamic = 'force-static';
+export const revalidate = 600;
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map(locale => ({ locale }));
+}
+
+export async function GET(_request: Request, { params }: SearchIndexRouteProps) {
+  const locale = getRouteLocale((await params).locale);
+  return Response.json(buildSearchIndex(localizePosts(await getAllPosts(), locale)));
+}
@@ -0,0 +1,203 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import BarChart from '@/components/BarChart';
+import CalendarHeatmap from '@/components/CalendarHeatmap';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import { getAllTrips, getPostsToGenerate, getTripBySlug } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { formatDate, getPostSlug } from '@/lib/posts';
+import { SITE_NAME } from '@/lib/site';
+import { computeTripStats, formatNumber, formatShortDate } from '@/lib/stats';
+import { localizePost } from '@/lib/translations';
+import { groupPostsByTrip } from '@/lib/trips';
+
+interface StatsPageProps {
+  params: Promise<{ locale: string; trip: string }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const trips = groupPostsByTrip(await getPostsToGenerate());
+  return trips.map(trip => ({ trip: trip.slug }));
+}
+
+export async function generateMetadata({ params }: StatsPageProps): Promise<Metadata> {
+  const { locale: segment, trip: slug } = await params;
+  const messages = getMessages(getRouteLocale(segment));
+  const trip = await getTripBySlug(slug);
+  if (!trip) return {};
+
+  return {
+    title: messages.stats.tripTitle(trip.name),
+    description: messages.stats.tripDescription(trip.entryCount),
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates(`/stats/${trip.slug}`),
+    },
+  };
+}
+
+export default async function StatsPage({ params }: StatsPageProps) {
+  const { locale: segment, trip: slug } = await params;
+  const locale = getRouteLocale(segment);
+  const [trip, trips] = await Promise.all([getTripBySlug(slug), getAllTrips()]);
+  if (!trip) notFound();
+
+  const stats = computeTripStats(trip);
+  const { longestGap } = stats;
+  const { common, stats: messages } = getMessages(locale);
+  const shortDate = (date: string) => formatShortDate(date, locale);
+
+  const figures = [
+    {
+      label: messages.days,
+      value: formatNumber(stats.totalDays, locale),
+      detail: stats.trailDays !== null ? messages.trailDays(stats.trailDays) : null,
+    },
+    { label: messages.zeroDays, value: formatNumber(stats.zeroDays, locale), detail: messages.zeroDaysDetail },
+    {
+      label: messages.milesPerDay,
+      value: stats.milesPerDay !== null ? formatNumber(stats.milesPerDay, locale, 1) : '–',
+      detail: stats.milesPerDay !== null ? messages.milesPerDayDetail : messages.noMileage,
+    },
+    { label: messages.photosPerDay, value: formatNumber(stats.photosPerDay, locale, 1), detail: common.photos(stats.photoCount) },
+    { label: messages.words, value: formatNumber(stats.wordCount, locale), detail: common.entries(stats.entryCount) },
+    {
+      label: messages.longestGap,
+      value: longestGap ? common.days(longestGap.days) : '–',
+      detail: longestGap && longestGap.days > 1
+        ? `${shortDate(longestGap.from.date)} – ${shortDate(longestGap.to.date)}`
+        : messages.postedEveryDay,
+    },
+  ];
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <Link
+              href={localizePath(locale, `/trips/${trip.slug}`)}
+              className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors"
+            >
+              {trip.name}
+            </Link>
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mt-2 mb-3 font-serif">
+              {common.inNumbers}
+            </h1>
+            <p className="text-neutral-500 text-lg">
+              {formatDate(trip.startDate, locale)} – {formatDate(trip.endDate, locale)}
+            </p>
+            {trips.length > 1 && (
+              <nav aria-label={messages.tripNavigation} className="mt-8 flex flex-wrap gap-2">
+                {trips.map(candidate => (
+                  <Link
+                    key={candidate.slug}
+                    href={localizePath(locale, `/stats/${candidate.slug}`)}
+                    aria-current={candidate.slug === trip.slug ? 'page' : undefined}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      candidate.slug === trip.slug
+                        ? 'bg-neutral-900 text-white'
+                        : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100'
+                    }`}
+                  >
+                    {candidate.name}
+                  </Link>
+                ))}
+              </nav>
+            )}
+          </div>
+        </header>
+
+        <div className="max-w-3xl mx-auto px-6 py-12 space-y-16">
+          {/* Figures */}
+          <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-10">
+            {figures.map(figure => (
+              <div key={figure.label}>
+                <dt className="text-xs uppercase tracking-wide text-neutral-400">{figure.label}</dt>
+                <dd className="text-4xl font-light font-serif text-neutral-900 mt-1">{figure.value}</dd>
+                {figure.detail && <dd className="text-xs text-neutral-500 mt-1">{figure.detail}</dd>}
+              </div>
+            ))}
+          </dl>
+
+          <section>
+            <h2 className="text-sm uppercase tracking-wide text-neutral-400 mb-4">{messages.activity}</h2>
+            <CalendarHeatmap
+              days={stats.activity}
+              label={messages.activityLabel(formatDate(trip.startDate, locale), formatDate(trip.endDate, locale))}
+              locale={locale}
+            />
+          </section>
+
+          {stats.mileageSegments.length > 0 && (
+            <section>
+              <h2 className="text-sm uppercase tracking-wide text-neutral-400 mb-4">{messages.milesPerDay}</h2>
+              <BarChart
+                label={messages.milesChartLabel}
+                bars={stats.mileageSegments.map(segment => ({
+                  label: shortDate(segment.to),
+                  value: segment.miles / segment.days,
+                  title: messages.milesSegment(
+                    shortDate(segment.from),
+                    shortDate(segment.to),
+                    formatNumber(segment.miles, locale),
+                    segment.days
+                  ),
+                }))}
+                formatValue={value => formatNumber(value, locale, 1)}
+              />
+            </section>
+          )}
+
+          <section>
+            <h2 className="text-sm uppercase tracking-wide text-neutral-400 mb-4">{messages.photosPerDay}</h2>
+            <BarChart
+              label={messages.photosChartLabel}
+              bars={stats.photos.map(day => ({ label: shortDate(day.date), value: day.value }))}
+              formatValue={value => formatNumber(value, locale)}
+            />
+          </section>
+
+          <section>
+            <h2 className="text-sm uppercase tracking-wide text-neutral-400 mb-4">{messages.wordsPerDay}</h2>
+            <BarChart
+              label={messages.wordsChartLabel}
+              bars={stats.words.map(day => ({ label: shortDate(day.date), value: day.value }))}
+              formatValue={value => formatNumber(value, locale)}
+            />
+          </section>
+
+          {longestGap && longestGap.days > 1 && (
+            <p className="text-sm text-neutral-500">
+              {messages.longestSilence}{' '}
+              <Link href={localizePath(locale, `/posts/${getPostSlug(longestGap.from)}`)} className="underline underline-offset-2 hover:text-neutral-900">
+                {localizePost(longestGap.from, locale).title}
+              </Link>{' '}
+              {messages.and}{' '}
+              <Link href={localizePath(locale, `/posts/${getPostSlug(longestGap.to)}`)} className="underline underline-offset-2 hover:text-neutral-900">
+                {localizePost(longestGap.to, locale).title}
+              </Link>
+              .
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center space-y-3">
+            <p className="text-xs text-neutral-400 tracking-wide">
+              © {new Date().getFullYear()}
+            </p>
+            <LocaleSwitcher locale={locale} path={`/stats/${trip.slug}`} />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
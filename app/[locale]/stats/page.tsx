@@ -0,0 +1,83 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import { getAllTrips } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { formatDate } from '@/lib/posts';
+import { SITE_NAME } from '@/lib/site';
+import { computeTripStats, formatNumber } from '@/lib/stats';
+
+interface StatsIndexPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: StatsIndexPageProps): Promise<Metadata> {
+  const messages = getMessages(getRouteLocale((await params).locale));
+
+  return {
+    title: messages.common.inNumbers,
+    description: messages.stats.description,
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates('/stats'),
+    },
+  };
+}
+
+export default async function StatsIndexPage({ params }: StatsIndexPageProps) {
+  const locale = getRouteLocale((await params).locale);
+  const messages = getMessages(locale);
+  const stats = (await getAllTrips()).map(computeTripStats);
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <Link
+              href={localizePath(locale, '/')}
+              className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors"
+            >
+              Karlowitz
+            </Link>
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mt-2 font-serif">
+              {messages.common.inNumbers}
+            </h1>
+          </div>
+        </header>
+
+        <ul className="max-w-3xl mx-auto px-6 py-12 divide-y divide-neutral-100">
+          {stats.map(trip => (
+            <li key={trip.slug}>
+              <Link href={localizePath(locale, `/stats/${trip.slug}`)} className="group block py-6">
+                <p className="font-serif text-2xl text-neutral-900 group-hover:text-neutral-500 transition-colors">
+                  {trip.name}
+                </p>
+                <p className="text-sm text-neutral-500 mt-1">
+                  {formatDate(trip.startDate, locale)} – {formatDate(trip.endDate, locale)}
+                </p>
+                <p className="text-sm text-neutral-400 mt-1">
+                  {messages.common.days(trip.totalDays)} · {messages.common.entries(trip.entryCount)} ·{' '}
+                  {messages.common.photos(trip.photoCount)}
+                  {trip.milesPerDay !== null && (
+                    <> · {messages.stats.milesPerDaySummary(formatNumber(trip.milesPerDay, locale, 1))}</>
+                  )}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center">
+            <LocaleSwitcher locale={locale} path="/stats" />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
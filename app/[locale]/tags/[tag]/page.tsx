@@ -0,0 +1,87 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import PostList from '@/components/PostList';
+import TagList from '@/components/TagList';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import { getAllTags, getPostsToGenerate, getTagBySlug } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { SITE_NAME } from '@/lib/site';
+import { summarizeTags } from '@/lib/tags';
+import { localizePosts } from '@/lib/translations';
+
+interface TagPageProps {
+  params: Promise<{ locale: string; tag: string }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const tags = summarizeTags(await getPostsToGenerate());
+  return tags.map(tag => ({ tag: tag.slug }));
+}
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const { locale: segment, tag: slug } = await params;
+  const messages = getMessages(getRouteLocale(segment));
+  const tag = await getTagBySlug(slug);
+  if (!tag) return {};
+
+  return {
+    title: messages.tag.title(tag.name),
+    description: messages.tag.description(tag.count, tag.name),
+    alternates: {
+      types: getFeedAlternates('/', SITE_NAME),
+      languages: getLanguageAlternates(`/tags/${tag.slug}`),
+    },
+  };
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { locale: segment, tag: slug } = await params;
+  const locale = getRouteLocale(segment);
+  const [tag, tags] = await Promise.all([getTagBySlug(slug), getAllTags()]);
+  if (!tag) notFound();
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <Link
+              href={localizePath(locale, '/')}
+              className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors"
+            >
+              Karlowitz
+            </Link>
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mt-2 mb-3 font-serif">
+              {tag.name}
+            </h1>
+            <p className="text-neutral-400 text-sm mt-1">
+              {getMessages(locale).common.entries(tag.count)}
+            </p>
+            <div className="mt-8">
+              <TagList tags={tags.map(candidate => candidate.name)} currentTag={tag.slug} locale={locale} />
+            </div>
+          </div>
+        </header>
+
+        {/* Entries */}
+        <PostList posts={localizePosts(tag.posts, locale)} locale={locale} />
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center space-y-3">
+            <p className="text-xs text-neutral-400 tracking-wide">
+              © {new Date().getFullYear()}
+            </p>
+            <LocaleSwitcher locale={locale} path={`/tags/${tag.slug}`} />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
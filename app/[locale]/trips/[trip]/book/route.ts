@@ -0,0 +1,35 @@
+import { BOOK_IMAGE_WIDTH, buildBook, renderPrintBook } from '@/lib/book';
+import { getRouteLocale, LOCALES } from '@/lib/i18n';
+import wordpressImageLoader from '@/lib/image-loader';
+import { getPostsToGenerate, getTripBySlug } from '@/lib/load-posts';
+import { groupPostsByTrip } from '@/lib/trips';
+
+interface BookRouteProps {
+  params: Promise<{ locale: string; trip: string }>;
+}
+
+// The trip as a book for the browser to print or save as a PDF. A page of its own,
+// outside the site's layout, so nothing but the book ends up on paper. `npm run book`
+// writes the same with the photos next to it, and an EPUB.
+
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+export const revalidate = 600;
+
+// Route handlers don't get the locales from the layout, so both params are listed here
+export async function generateStaticParams() {
+  const trips = groupPostsByTrip(await getPostsToGenerate());
+  return LOCALES.flatMap(locale => trips.map(trip => ({ locale, trip: trip.slug })));
+}
+
+export async function GET(_request: Request, { params }: BookRouteProps) {
+  const { locale: segment, trip: slug } = await params;
+  const trip = await getTripBySlug(slug);
+  if (!trip) return new Response('Not found', { status: 404 });
+
+  const book = buildBook(trip, getRouteLocale(segment));
+  const html = renderPrintBook(book, photo => wordpressImageLoader({ src: photo.src, width: BOOK_IMAGE_WIDTH }));
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
@@ -0,0 +1,115 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import PostList from '@/components/PostList';
+import SaveTripOffline from '@/components/SaveTripOffline';
+import TripSwitcher from '@/components/TripSwitcher';
+import { getFeedAlternates } from '@/lib/feeds';
+import { getLanguageAlternates, getRouteLocale, localizePath } from '@/lib/i18n';
+import wordpressImageLoader from '@/lib/image-loader';
+import { getAllTrips, getPostsToGenerate, getTripBySlug } from '@/lib/load-posts';
+import { getMessages } from '@/lib/messages';
+import { OFFLINE_IMAGE_WIDTH } from '@/lib/offline';
+import { formatDate, getPostSlug } from '@/lib/posts';
+import { localizePosts } from '@/lib/translations';
+import { groupPostsByTrip, summarizeTrips } from '@/lib/trips';
+
+interface TripPageProps {
+  params: Promise<{ locale: string; trip: string }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const trips = groupPostsByTrip(await getPostsToGenerate());
+  return trips.map(trip => ({ trip: trip.slug }));
+}
+
+export async function generateMetadata({ params }: TripPageProps): Promise<Metadata> {
+  const { locale: segment, trip: slug } = await params;
+  const locale = getRouteLocale(segment);
+  const trip = await getTripBySlug(slug);
+  if (!trip) return {};
+
+  return {
+    title: trip.name,
+    description: getMessages(locale).trip.description(
+      trip.entryCount,
+      formatDate(trip.startDate, locale),
+      formatDate(trip.endDate, locale)
+    ),
+    alternates: {
+      types: getFeedAlternates(`/trips/${trip.slug}`, trip.name),
+      languages: getLanguageAlternates(`/trips/${trip.slug}`),
+    },
+  };
+}
+
+export default async function TripPage({ params }: TripPageProps) {
+  const { locale: segment, trip: slug } = await params;
+  const locale = getRouteLocale(segment);
+  const [trip, trips] = await Promise.all([getTripBySlug(slug), getAllTrips()]);
+  if (!trip) notFound();
+
+  const messages = getMessages(locale);
+  const offlinePages = [
+    localizePath(locale, `/trips/${trip.slug}`),
+    ...trip.posts.map(post => localizePath(locale, `/posts/${getPostSlug(post)}`)),
+  ];
+  const offlinePhotos = trip.posts.flatMap(post => {
+    return (post.images ?? []).map(image => wordpressImageLoader({ src: image.src, width: OFFLINE_IMAGE_WIDTH }));
+  });
+
+  return (
+    <div className="relative min-h-screen bg-white">
+      <main>
+        {/* Header */}
+        <header className="border-b border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-16 lg:py-20">
+            <Link
+              href={localizePath(locale, '/')}
+              className="text-sm text-neutral-400 hover:text-neutral-900 transition-colors"
+            >
+              Karlowitz
+            </Link>
+            <h1 className="text-5xl lg:text-6xl font-light tracking-tight text-neutral-900 mt-2 mb-3 font-serif">
+              {trip.name}
+            </h1>
+            <p className="text-neutral-500 text-lg">
+              {formatDate(trip.startDate, locale)} – {formatDate(trip.endDate, locale)}
+            </p>
+            <p className="text-neutral-400 text-sm mt-1">
+              {messages.common.entries(trip.entryCount)} · {messages.common.photos(trip.photoCount)} ·{' '}
+              <Link href={localizePath(locale, `/stats/${trip.slug}`)} className="underline decoration-neutral-300 underline-offset-4 hover:text-neutral-900 transition-colors">
+                {messages.common.inNumbers}
+              </Link>{' '}
+              ·{' '}
+              {/* A plain link: the book is a standalone page, not part of the app */}
+              <a href={localizePath(locale, `/trips/${trip.slug}/book`)} className="underline decoration-neutral-300 underline-offset-4 hover:text-neutral-900 transition-colors">
+                {messages.book.link}
+              </a>
+            </p>
+            <div className="mt-8">
+              <TripSwitcher trips={summarizeTrips(trips)} currentTrip={trip.slug} locale={locale} />
+            </div>
+            <SaveTripOffline tripSlug={trip.slug} locale={locale} pages={offlinePages} photos={offlinePhotos} />
+          </div>
+        </header>
+
+        {/* Entries */}
+        <PostList posts={localizePosts(trip.posts, locale)} locale={locale} />
+
+        {/* Footer */}
+        <footer className="border-t border-neutral-100">
+          <div className="max-w-3xl mx-auto px-6 py-8 text-center space-y-3">
+            <p className="text-xs text-neutral-400 tracking-wide">
+              © {new Date().getFullYear()}
+            </p>
+            <LocaleSwitcher locale={locale} path={`/trips/${trip.slug}`} />
+          </div>
+        </footer>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { checkPassword, endSession, isLoginThrottled, recordLogin, requireAdmin, startSession } from '@/lib/admin-auth';
+import { AltTextUpdate, getRecord, PostRecord, saveAltTexts, savePostRecord } from '@/lib/admin-store';
+import { deleteComment, setCommentStatus } from '@/lib/comment-store';
+import { htmlToText } from '@/lib/html';
+import { clearPostsCache } from '@/lib/load-posts';
+import { getAddress } from '@/lib/readers';
+import { formatIssue, validatePosts } from '@/lib/schema';
+import { absoluteUrl } from '@/lib/site';
+
+export interface FormState {
+  // Validation problems, one line each; saving is refused while there are any
+  errors: string[];
+  message?: string;
+}
+
+// Browsers send textarea line breaks as \r\n; the posts file has \n
+const field = (formData: FormData, name: string): string => {
+  const value = formData.get(name);
+  return typeof value === 'string' ? value.replace(/\r\n?/g, '\n').trim() : '';
+};
+
+// The site reads the posts once per process; start over and re-render every page
+const publishChanges = () => {
+  clearPostsCache();
+  revalidatePath('/', 'layout');
+};
+
+export async function login(_state: FormState, formData: FormData): Promise<FormState> {
+  const address = getAddress(await headers());
+  if (isLoginThrottled(address)) {
+    return { errors: ['Too many wrong passwords. Please try again later.'] };
+  }
+  const success = checkPassword(field(formData, 'password'));
+  recordLogin(address, success);
+  if (!success) {
+    return { errors: ['Wrong password'] };
+  }
+  await startSession();
+  redirect('/admin');
+}
+
+export async function logout() {
+  await endSession();
+  redirect('/admin/login');
+}
+
+// The editor's image list: only the stored fields, as given, so an untouched list
+// doesn't show up as a change
+const parseImages = (value: string): PostRecord[] | null => {
+  try {
+    const images: unknown = value ? JSON.parse(value) : [];
+    if (!Array.isArray(images)) return null;
+    return images.map((image: PostRecord) => {
+      const { src, alt, title } = image;
+      return title === undefined ? { src, alt } : { src, alt, title };
+    });
+  } catch {
+    return null;
+  }
+};
+
+// A text version of an HTML body for search and the feeds. The stored one is kept
+// while the markup is unchanged: the scraped text is better than what we derive.
+const getPlainText = async (html: string, originalUrl: string | null): Promise<string> => {
+  const original = originalUrl ? await getRecord(originalUrl) : null;
+  if (original && typeof original.content === 'string' && typeof original.content_html === 'string') {
+    if (original.content_html.trim() === html) return original.content;
+  }
+  return htmlToText(html);
+};
+
+export async function savePost(_state: FormState, formData: FormData): Promise<FormState> {
+  await requireAdmin();
+
+  const originalUrl = field(formData, 'originalUrl') || null;
+  const body = field(formData, 'body');
+  const isHtml = field(formData, 'format') === 'html';
+  const images = parseImages(field(formData, 'images'));
+  if (!images) return { errors: ['The image list could not be read'] };
+
+  // A plain-text body replaces any markup the post had
+  const fields: PostRecord = {
+    url: originalUrl ?? absoluteUrl('/posts/new'),
+    title: field(formData, 'title'),
+    date: field(formData, 'date'),
+    content: isHtml ? await getPlainText(body, originalUrl) : body,
+    content_html: isHtml ? body : undefined,
+    images,
+    draft: formData.get('draft') === 'on' || undefined,
+    publish_at: field(formData, 'publish_at') || undefined,
+  };
+
+  const { posts, issues } = validatePosts([fields]);
+  const errors = issues.filter(issue => issue.severity === 'error' || issue.field.startsWith('images'));
+  if (posts.length === 0 || errors.length > 0) {
+    return { errors: errors.map(issue => `${issue.field} ${issue.message}`) };
+  }
+
+  let slug: string;
+  try {
+    slug = await savePostRecord(fields, originalUrl);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  issues.forEach(issue => console.warn(`admin ${formatIssue(issue)}`));
+  publishChanges();
+  redirect(`/admin/posts/${slug}?saved=1`);
+}
+
+// The `[post url, image src]` an alt text field is named after, or null when the name
+// isn't one the bulk editor makes
+const parseAltTextKey = (key: string): [string, string] | null => {
+  try {
+    const parsed: unknown = JSON.parse(key);
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+    const [url, src] = parsed;
+    return typeof url === 'string' && typeof src === 'string' ? [url, src] : null;
+  } catch {
+    return null;
+  }
+};
+
+// Alt texts from the bulk editor: one field per image, named `alt:` and the JSON of
+// `[post url, image src]`
+export async function saveAltText(_state: FormState, formData: FormData): Promise<FormState> {
+  await requireAdmin();
+
+  const updates: AltTextUpdate[] = [];
+  let unreadable = 0;
+  formData.forEach((value, name) => {
+    if (!name.startsWith('alt:') || typeof value !== 'string') return;
+    const key = parseAltTextKey(name.slice(4));
+    if (!key) {
+      unreadable += 1;
+      return;
+    }
+    const [url, src] = key;
+    updates.push({ url, src, alt: value.trim() });
+  });
+  if (unreadable > 0) {
+    return { errors: [`Not saved: ${unreadable === 1 ? 'a field' : `${unreadable} fields`} could not be read`] };
+  }
+
+  const changed = await saveAltTexts(updates);
+  if (changed > 0) publishChanges();
+  return { errors: [], message: changed === 1 ? '1 alt text saved' : `${changed} alt texts saved` };
+}
+
+// A button on /admin/comments: `decision` is approve, spam or delete. Comments are
+// loaded in the browser, so no page needs re-rendering but the queue.
+export async function moderateComment(formData: FormData) {
+  await requireAdmin();
+
+  const id = Number(field(formData, 'id'));
+  if (!Number.isInteger(id)) return;
+
+  const decision = field(formData, 'decision');
+  if (decision === 'approve') setCommentStatus(id, 'approved');
+  else if (decision === 'spam') setCommentStatus(id, 'spam');
+  else if (decision === 'delete') deleteComment(id);
+  revalidatePath('/admin/comments');
+}
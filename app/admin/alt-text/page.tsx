@@ -0,0 +1,71 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import AdminHeader from '@/components/AdminHeader';
+import AltTextEditor, { AltTextGroup } from '@/components/AltTextEditor';
+import { requireAdmin } from '@/lib/admin-auth';
+import { loadAdminPosts } from '@/lib/admin-store';
+import { getPostSlug } from '@/lib/posts';
+
+interface AltTextPageProps {
+  searchParams: Promise<{ post?: string; page?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Alt text',
+};
+
+// Entries per page; each can have a few dozen photos
+const POSTS_PER_PAGE = 10;
+
+export default async function AltTextPage({ searchParams }: AltTextPageProps) {
+  await requireAdmin();
+  const { post: postSlug, page: pageParam } = await searchParams;
+
+  // Oldest first, so the work goes along the trip
+  const posts = (await loadAdminPosts())
+    .reverse()
+    .filter(post => (postSlug ? getPostSlug(post) === postSlug : true))
+    .filter(post => (post.images ?? []).some(image => !image.alt));
+  const missing = posts.reduce((sum, post) => sum + (post.images ?? []).filter(image => !image.alt).length, 0);
+
+  const pageCount = Math.max(1, Math.ceil(posts.length / POSTS_PER_PAGE));
+  const page = Math.min(Math.max(1, Number(pageParam) || 1), pageCount);
+  const pagePosts = posts.slice((page - 1) * POSTS_PER_PAGE, page * POSTS_PER_PAGE);
+
+  const groups: AltTextGroup[] = pagePosts.map(post => ({
+    url: post.url,
+    slug: getPostSlug(post),
+    title: post.title,
+    // Only the photos without alt text; the entry's editor has all of them
+    images: (post.images ?? []).filter(image => !image.alt),
+  }));
+  const pageLink = (target: number) => `/admin/alt-text?${new URLSearchParams({ ...(postSlug && { post: postSlug }), page: String(target) })}`;
+
+  return (
+    <>
+      <AdminHeader />
+      <main className="max-w-5xl mx-auto px-6 py-10">
+        <div className="flex flex-wrap items-baseline justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-light font-serif">Alt text</h1>
+          <p className="text-sm text-neutral-500">
+            {missing} photos in {posts.length} entries have none
+          </p>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-neutral-600">Every photo has an alt text.</p>
+        ) : (
+          <AltTextEditor key={`${page}:${missing}`} groups={groups} />
+        )}
+
+        {pageCount > 1 && (
+          <nav aria-label="Pages" className="mt-8 flex justify-between text-sm">
+            {page > 1 ? <Link href={pageLink(page - 1)} className="underline hover:text-neutral-600">Previous</Link> : <span />}
+            <span className="text-neutral-500">Page {page} of {pageCount}</span>
+            {page < pageCount ? <Link href={pageLink(page + 1)} className="underline hover:text-neutral-600">Next</Link> : <span />}
+          </nav>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { moderateComment } from '@/app/admin/actions';
+import AdminHeader from '@/components/AdminHeader';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listCommentsByStatus, StoredComment } from '@/lib/comment-store';
+import { CommentStatus } from '@/lib/comments';
+import { getAllPosts } from '@/lib/load-posts';
+import { BlogPostData, formatDate, getPostSlug } from '@/lib/posts';
+
+interface CommentsPageProps {
+  searchParams: Promise<{ status?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Comments',
+};
+
+const TABS: Array<{ status: CommentStatus; label: string }> = [
+  { status: 'pending', label: 'Waiting' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'spam', label: 'Spam' },
+];
+
+// The whole queue, and the most recent of the others
+const LIMIT = 200;
+
+// The moderation queue: first comments wait here until approved; readers with an
+// approved comment are published right away
+export default async function CommentsPage({ searchParams }: CommentsPageProps) {
+  await requireAdmin();
+  const { status: statusParam } = await searchParams;
+  const status = TABS.find(tab => tab.status === statusParam)?.status ?? 'pending';
+
+  const comments = listCommentsByStatus(status, LIMIT);
+  const posts = new Map((await getAllPosts()).map(post => [post.url, post]));
+
+  return (
+    <>
+      <AdminHeader />
+      <main className="max-w-5xl mx-auto px-6 py-10">
+        <div className="flex flex-wrap items-baseline justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-light font-serif">Comments</h1>
+          <nav aria-label="Status" className="flex gap-4 text-sm">
+            {TABS.map(tab => (
+              <Link
+                key={tab.status}
+                href={`/admin/comments?status=${tab.status}`}
+                aria-current={tab.status === status ? 'page' : undefined}
+                className={tab.status === status ? 'text-neutral-900 underline underline-offset-4' : 'text-neutral-500 hover:text-neutral-900'}
+              >
+                {tab.label}
+              </Link>
+            ))}
+          </nav>
+        </div>
+
+        {comments.length === 0 ? (
+          <p className="text-neutral-600">{status === 'pending' ? 'Nothing waiting for moderation.' : 'No comments.'}</p>
+        ) : (
+          <ul className="space-y-4">
+            {comments.map(comment => (
+              <ModeratedComment key={comment.id} comment={comment} post={posts.get(comment.post)} />
+            ))}
+          </ul>
+        )}
+      </main>
+    </>
+  );
+}
+
+function ModeratedComment({ comment, post }: { comment: StoredComment; post: BlogPostData | undefined }) {
+  const buttonClass = 'px-3 py-1 border border-neutral-300 rounded-sm text-sm hover:border-neutral-900 transition-colors';
+
+  return (
+    <li className="bg-white border border-neutral-200 rounded-sm px-5 py-4">
+      <div className="flex flex-wrap items-baseline gap-x-3 text-sm">
+        <span className="font-medium">{comment.name}</span>
+        <time dateTime={comment.createdAt} className="text-neutral-500">{formatDate(comment.createdAt)}</time>
+        <span className="text-neutral-500">
+          on{' '}
+          {post ? (
+            <Link href={`/posts/${getPostSlug(post)}#comments`} className="underline hover:text-neutral-900">{post.title}</Link>
+          ) : (
+            comment.post
+          )}
+          {comment.parentId !== null && ' (reply)'}
+        </span>
+      </div>
+      <p className="mt-2 text-neutral-800 whitespace-pre-line break-words">{comment.body}</p>
+
+      <form action={moderateComment} className="mt-3 flex gap-2">
+        <input type="hidden" name="id" value={comment.id} />
+        {comment.status !== 'approved' && (
+          <button type="submit" name="decision" value="approve" className={buttonClass}>Approve</button>
+        )}
+        {comment.status !== 'spam' && (
+          <button type="submit" name="decision" value="spam" className={buttonClass}>Spam</button>
+        )}
+        <button type="submit" name="decision" value="delete" className={`${buttonClass} text-red-700`}>Delete</button>
+      </form>
+    </li>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import { SITE_NAME } from "@/lib/site";
+import { inter, lora } from "../fonts";
+import "../globals.css";
+
+export const metadata: Metadata = {
+  title: {
+    default: `Admin | ${SITE_NAME}`,
+    template: `%s | Admin | ${SITE_NAME}`,
+  },
+  robots: { index: false, follow: false },
+};
+
+// Nothing here is prerendered: the password and the session are only known per request
+export const dynamic = "force-dynamic";
+
+// The admin is its own root layout: it isn't localized and shares nothing with the
+// site but the styles
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="en">
+      <body className={`${inter.variable} ${lora.variable} font-sans antialiased bg-neutral-50 text-neutral-900`}>
+        {children}
+      </body>
+    </html>
+  );
+}
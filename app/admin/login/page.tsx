@@ -0,0 +1,22 @@
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import LoginForm from '@/components/LoginForm';
+import { hasSession, isAdminEnabled } from '@/lib/admin-auth';
+
+export const metadata: Metadata = {
+  title: 'Sign in',
+};
+
+export default async function LoginPage() {
+  if (!isAdminEnabled()) notFound();
+  if (await hasSession()) redirect('/admin');
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-6">
+      <div className="w-full max-w-xs">
+        <h1 className="text-2xl font-light tracking-tight font-serif mb-8 text-center">Karlowitz</h1>
+        <LoginForm />
+      </div>
+    </main>
+  );
+}
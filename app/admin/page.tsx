@@ -0,0 +1,72 @@
+import Link from 'next/link';
+import AdminHeader from '@/components/AdminHeader';
+import { requireAdmin } from '@/lib/admin-auth';
+import { loadAdminPosts } from '@/lib/admin-store';
+import { BlogPostData, formatDate, getPostSlug, isPublished } from '@/lib/posts';
+
+const getStatus = (post: BlogPostData): string => {
+  if (post.draft) return 'Draft';
+  if (!isPublished(post)) return `Scheduled for ${formatDate(post.publish_at ?? post.date)}`;
+  return 'Published';
+};
+
+const countMissingAlt = (post: BlogPostData): number => {
+  return (post.images ?? []).filter(image => !image.alt).length;
+};
+
+export default async function AdminPage() {
+  await requireAdmin();
+  const posts = await loadAdminPosts();
+  const missingAlt = posts.reduce((sum, post) => sum + countMissingAlt(post), 0);
+
+  return (
+    <>
+      <AdminHeader />
+      <main className="max-w-5xl mx-auto px-6 py-10">
+        <div className="flex flex-wrap items-baseline justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-light font-serif">Entries</h1>
+          <p className="text-sm text-neutral-500">
+            {posts.length} entries
+            {missingAlt > 0 && (
+              <>
+                {' · '}
+                <Link href="/admin/alt-text" className="underline hover:text-neutral-900">
+                  {missingAlt} photos without alt text
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs uppercase tracking-wide text-neutral-400">
+            <tr>
+              <th scope="col" className="py-2 pr-4 font-normal">Title</th>
+              <th scope="col" className="py-2 pr-4 font-normal">Date</th>
+              <th scope="col" className="py-2 pr-4 font-normal">Status</th>
+              <th scope="col" className="py-2 font-normal text-right">Photos without alt</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-neutral-200">
+            {posts.map(post => {
+              const slug = getPostSlug(post);
+              const missing = countMissingAlt(post);
+              return (
+                <tr key={post.url}>
+                  <td className="py-2 pr-4">
+                    <Link href={`/admin/posts/${slug}`} className="text-neutral-900 hover:underline">{post.title}</Link>
+                  </td>
+                  <td className="py-2 pr-4 text-neutral-500 whitespace-nowrap">{formatDate(post.date)}</td>
+                  <td className="py-2 pr-4 text-neutral-500">{getStatus(post)}</td>
+                  <td className="py-2 text-right tabular-nums text-neutral-500">
+                    {missing > 0 ? <Link href={`/admin/alt-text?post=${slug}`} className="hover:underline">{missing}</Link> : '–'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AdminHeader from '@/components/AdminHeader';
+import PostEditor from '@/components/PostEditor';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getRecord, HistoryEntry, loadAdminPosts, readPostHistory } from '@/lib/admin-store';
+import { BlogPostImage, getPostSlug, isPublished } from '@/lib/posts';
+import { findPostBySlug } from '@/lib/slugs';
+
+interface EditPostPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ saved?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Edit entry',
+};
+
+const describeChange = (entry: HistoryEntry): string => {
+  if (entry.action === 'create') return 'Created';
+  return `Changed ${Object.keys(entry.changes).join(', ')}`;
+};
+
+export default async function EditPostPage({ params, searchParams }: EditPostPageProps) {
+  await requireAdmin();
+  const [{ slug }, { saved }] = await Promise.all([params, searchParams]);
+  const post = findPostBySlug(await loadAdminPosts(), slug);
+  if (!post) notFound();
+
+  // The editor works on the record as stored, not the normalized post, so saving
+  // without changes doesn't rewrite anything
+  const [record, history] = await Promise.all([getRecord(post.url), readPostHistory(post.url)]);
+  const images = Array.isArray(record?.images) ? (record.images as BlogPostImage[]) : post.images ?? [];
+  const isHtml = post.content_html !== undefined;
+
+  return (
+    <>
+      <AdminHeader />
+      <main className="max-w-7xl mx-auto px-6 py-10">
+        <div className="flex flex-wrap items-baseline justify-between gap-4 mb-8">
+          <h1 className="text-3xl font-light font-serif">{post.title}</h1>
+          {isPublished(post) && (
+            <Link href={`/posts/${getPostSlug(post)}`} className="text-sm text-neutral-500 underline hover:text-neutral-900">
+              View on the site
+            </Link>
+          )}
+        </div>
+        {saved && (
+          <p role="status" className="mb-6 rounded-sm border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800">
+            Saved. Changed pages are rebuilt on their next visit; new entries appear with the next build.
+          </p>
+        )}
+
+        <PostEditor
+          key={`${post.url}:${history.length}`}
+          initial={{
+            originalUrl: post.url,
+            slug: getPostSlug(post),
+            title: post.title,
+            date: post.date,
+            format: isHtml ? 'html' : 'text',
+            body: isHtml ? post.content_html ?? '' : post.content,
+            images,
+            draft: post.draft === true,
+            publishAt: post.publish_at ?? '',
+          }}
+        />
+
+        <section className="mt-16 max-w-3xl">
+          <h2 className="text-xl font-light font-serif mb-4">History</h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-neutral-500">No changes made here yet.</p>
+          ) : (
+            <ol className="space-y-1 text-sm text-neutral-600">
+              {history.map(entry => (
+                <li key={entry.time}>
+                  <time dateTime={entry.time} className="tabular-nums text-neutral-400">
+                    {new Date(entry.time).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                  </time>{' '}
+                  {describeChange(entry)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </main>
+    </>
+  );
+}
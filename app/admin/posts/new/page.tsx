@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import AdminHeader from '@/components/AdminHeader';
+import PostEditor from '@/components/PostEditor';
+import { requireAdmin } from '@/lib/admin-auth';
+
+export const metadata: Metadata = {
+  title: 'New entry',
+};
+
+// Now, in the server's time zone, in the format of the imported dates
+const currentDate = (): string => {
+  const now = new Date();
+  const offset = -now.getTimezoneOffset();
+  const pad = (value: number) => String(Math.floor(Math.abs(value))).padStart(2, '0');
+  const local = new Date(now.getTime() + offset * 60000).toISOString().slice(0, 19);
+  return `${local}${offset < 0 ? '-' : '+'}${pad(offset / 60)}:${pad(offset % 60)}`;
+};
+
+export default async function NewPostPage() {
+  await requireAdmin();
+
+  return (
+    <>
+      <AdminHeader />
+      <main className="max-w-7xl mx-auto px-6 py-10">
+        <h1 className="text-3xl font-light font-serif mb-8">New entry</h1>
+        <PostEditor
+          initial={{
+            originalUrl: '',
+            title: '',
+            date: currentDate(),
+            format: 'text',
+            body: '',
+            images: [],
+            draft: true,
+            publishAt: '',
+          }}
+        />
+      </main>
+    </>
+  );
+}
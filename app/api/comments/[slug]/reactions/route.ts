@@ -0,0 +1,37 @@
+import { countRecent, toggleReaction } from '@/lib/comment-store';
+import { REACTIONS } from '@/lib/comments';
+import { getPostBySlug } from '@/lib/load-posts';
+import { ensureReader, getAddress } from '@/lib/readers';
+
+interface ReactionsRouteProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Gives or takes back one of the reactions to an entry
+
+export const dynamic = 'force-dynamic';
+
+// Clicks, taking a reaction back included. A reader clicking through all of them and
+// back a few times stays well below this
+const RATE_LIMIT = 30;
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+
+export async function POST(request: Request, { params }: ReactionsRouteProps) {
+  const { slug } = await params;
+  const result = await getPostBySlug(slug);
+  if (!result) return Response.json({ errors: ['No such entry'] }, { status: 404 });
+
+  const input = await request.json().catch(() => null);
+  const emoji = typeof input?.emoji === 'string' ? input.emoji : '';
+  if (!REACTIONS.includes(emoji)) return Response.json({ errors: ['Unknown reaction'] }, { status: 400 });
+
+  const address = getAddress(request.headers);
+  if (countRecent('reaction_clicks', address, new Date(Date.now() - RATE_WINDOW_MS)) >= RATE_LIMIT) {
+    return Response.json(
+      { errors: ['Too many reactions in a short time. Please try again later.'] },
+      { status: 429, headers: { 'Retry-After': String(RATE_WINDOW_MS / 1000) } }
+    );
+  }
+
+  return Response.json(toggleReaction(result.post.url, emoji, await ensureReader(), address));
+}
@@ -0,0 +1,63 @@
+import { addComment, countRecent, getReactions, isValidParent, listComments } from '@/lib/comment-store';
+import { HONEYPOT_FIELD, PostComment, validateComment } from '@/lib/comments';
+import { getPostBySlug } from '@/lib/load-posts';
+import { ensureReader, getAddress, getReader } from '@/lib/readers';
+
+interface CommentsRouteProps {
+  params: Promise<{ slug: string }>;
+}
+
+// An entry's comments and reactions, and new comments on it
+
+export const dynamic = 'force-dynamic';
+
+// Comments per address in the window; more are refused until it has passed
+const RATE_LIMIT = 3;
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+
+export async function GET(_request: Request, { params }: CommentsRouteProps) {
+  const { slug } = await params;
+  const result = await getPostBySlug(slug);
+  if (!result) return Response.json({ errors: ['No such entry'] }, { status: 404 });
+
+  const reader = await getReader();
+  return Response.json({
+    comments: listComments(result.post.url, reader),
+    reactions: getReactions(result.post.url, reader),
+  });
+}
+
+export async function POST(request: Request, { params }: CommentsRouteProps) {
+  const { slug } = await params;
+  const result = await getPostBySlug(slug);
+  if (!result) return Response.json({ errors: ['No such entry'] }, { status: 404 });
+
+  const input = await request.json().catch(() => null);
+  if (!input || typeof input !== 'object') return Response.json({ errors: ['Invalid request'] }, { status: 400 });
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const body = typeof input.body === 'string' ? input.body.replace(/\r\n?/g, '\n').trim() : '';
+  const parentId = Number.isInteger(input.parentId) ? (input.parentId as number) : null;
+
+  // A filled-in honeypot is a bot: it is told the comment awaits moderation, and
+  // nothing is stored
+  if (input[HONEYPOT_FIELD]) {
+    const comment: PostComment = { id: 0, parentId, name, body, createdAt: new Date().toISOString(), pending: true };
+    return Response.json({ comment }, { status: 201 });
+  }
+
+  const errors = validateComment(name, body);
+  if (parentId !== null && !isValidParent(result.post.url, parentId)) errors.push('the comment replied to is gone');
+  if (errors.length > 0) return Response.json({ errors }, { status: 400 });
+
+  const address = getAddress(request.headers);
+  if (countRecent('comments', address, new Date(Date.now() - RATE_WINDOW_MS)) >= RATE_LIMIT) {
+    return Response.json(
+      { errors: ['Too many comments in a short time. Please try again later.'] },
+      { status: 429, headers: { 'Retry-After': String(RATE_WINDOW_MS / 1000) } }
+    );
+  }
+
+  const comment = addComment({ post: result.post.url, parentId, name, body, reader: await ensureReader(), address });
+  return Response.json({ comment }, { status: 201 });
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { listReplies } from '@/lib/comment-store';
+import { CommentReply } from '@/lib/comments';
+import { getAllPosts } from '@/lib/load-posts';
+import { getPostSlug } from '@/lib/posts';
+import { getReader } from '@/lib/readers';
+import { parsePostTitle } from '@/lib/trips';
+
+// Replies to the reader's comments approved since `?since=`, for the notice about them
+
+export const dynamic = 'force-dynamic';
+
+const EXCERPT_LENGTH = 120;
+
+export async function GET(request: NextRequest) {
+  const reader = await getReader();
+  if (!reader) return Response.json({ replies: [] });
+
+  const since = new Date(request.nextUrl.searchParams.get('since') ?? '');
+  const posts = new Map((await getAllPosts()).map(post => [post.url, post]));
+  const replies: CommentReply[] = [];
+  listReplies(reader, Number.isNaN(since.getTime()) ? new Date(0) : since).forEach(reply => {
+    const post = posts.get(reply.post);
+    if (!post) return;
+    replies.push({
+      id: reply.id,
+      slug: getPostSlug(post),
+      postTitle: parsePostTitle(post.title).title,
+      name: reply.name,
+      excerpt: reply.body.length > EXCERPT_LENGTH ? `${reply.body.slice(0, EXCERPT_LENGTH).trimEnd()}…` : reply.body,
+      createdAt: reply.createdAt,
+    });
+  });
+  return Response.json({ replies });
+}
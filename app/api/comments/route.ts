@@ -0,0 +1,17 @@
+import { countComments } from '@/lib/comment-store';
+import { getAllPosts } from '@/lib/load-posts';
+import { getPostSlug } from '@/lib/posts';
+
+// Approved comments per post slug, for the counts in the feed
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const [posts, counts] = await Promise.all([getAllPosts(), countComments()]);
+  const bySlug: { [slug: string]: number } = {};
+  posts.forEach(post => {
+    const count = counts.get(post.url);
+    if (count) bySlug[getPostSlug(post)] = count;
+  });
+  return Response.json({ counts: bySlug });
+}
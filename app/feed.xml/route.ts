@@ -0,0 +1,16 @@
+import { feedResponse } from '@/lib/feeds';
+import { getAllPosts } from '@/lib/load-posts';
+import { SITE_DESCRIPTION, SITE_NAME } from '@/lib/site';
+
+// Rendered at build time and served as a static file, re-rendered every ten minutes
+export const dynamic = 'force-static';
+export const revalidate = 600;
+
+export async function GET() {
+  return feedResponse('rss', {
+    title: SITE_NAME,
+    description: SITE_DESCRIPTION,
+    homePath: '/',
+    posts: await getAllPosts(),
+  });
+}
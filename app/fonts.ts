@@ -0,0 +1,12 @@
+import { Lora, Inter } from "next/font/google";
+
+// Shared by the site's and the admin's root layouts
+export const lora = Lora({
+  subsets: ["latin"],
+  variable: '--font-lora',
+});
+
+export const inter = Inter({
+  subsets: ["latin"],
+  variable: '--font-inter',
+});
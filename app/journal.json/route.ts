@@ -0,0 +1,10 @@
+import { getAllPosts } from '@/lib/load-posts';
+
+// The posts as the site uses them: sorted, with image sizes and placeholder colors.
+// Rendered at build time, served as a static file and re-rendered every ten minutes.
+export const dynamic = 'force-static';
+export const revalidate = 600;
+
+export async function GET() {
+  return Response.json(await getAllPosts());
+}
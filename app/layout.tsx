@@ -1,30 +0,0 @@
-import type { Metadata } from "next";
-import { Lora, Inter } from "next/font/google";
-import "./globals.css";
-
-const lora = Lora({ 
-  subsets: ["latin"],
-  variable: '--font-lora',
-});
-
-const inter = Inter({ 
-  subsets: ["latin"],
-  variable: '--font-inter',
-});
-
-export const metadata: Metadata = {
-  title: "Trail Journal",
-  description: "A journey through the wilderness",
-};
-
-export default function RootLayout({
-  children,
-}: Readonly<{
-  children: React.ReactNode;
-}>) {
-  return (
-    <html lang="en" className="scroll-smooth">
-      <body className={`${inter.variable} ${lora.variable} font-sans antialiased`}>{children}</body>
-    </html>
-  );
-}
@@ -0,0 +1,62 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+let GET: typeof import('./route').GET;
+
+const get = (query: string, segments = ['2023', '04', 'photo.jpg']) => {
+  return GET(new Request(`http://localhost/local-images/${segments.join('/')}${query}`), {
+    params: Promise.resolve({ path: segments }),
+  });
+};
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'local-images-'));
+  const photo = await sharp({ create: { width: 3000, height: 2000, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+  await mkdir(path.join(dir, '2023', '04'), { recursive: true });
+  await writeFile(path.join(dir, '2023', '04', 'photo.jpg'), photo);
+  await writeFile(path.join(dir, '2023', '04', 'notes.jpg'), 'not a photo');
+
+  vi.stubEnv('LOCAL_IMAGE_DIR', dir);
+  ({ GET } = await import('./route'));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('GET /local-images', () => {
+  it('resizes to an allowed width', async () => {
+    const response = await get('?w=640&q=70');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/jpeg');
+    const { width, height } = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+    expect([width, height]).toEqual([640, 427]);
+  });
+
+  it('rounds other widths up to the next allowed one', async () => {
+    const response = await get('?w=1600');
+    const { width } = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+    expect(width).toBe(1920);
+  });
+
+  it.each(['', '?w=0', '?w=-100', '?w=99999', '?w=abc', '?w=1.5', '?w=640&q=0', '?w=640&q=101', '?w=640&q=high'])(
+    'refuses %s',
+    async query => {
+      expect((await get(query)).status).toBe(400);
+    }
+  );
+
+  it('stays inside the image directory', async () => {
+    expect((await get('?w=640', ['..', '..', 'etc', 'passwd'])).status).toBe(404);
+    expect((await get('?w=640', ['2023', 'missing.jpg'])).status).toBe(404);
+  });
+
+  it('answers files that are not images with 415', async () => {
+    expect((await get('?w=640', ['2023', '04', 'notes.jpg'])).status).toBe(415);
+  });
+});
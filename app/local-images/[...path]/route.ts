@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { IMAGE_WIDTHS } from '@/lib/image-loader';
+
+// Serves resized photos for NEXT_PUBLIC_IMAGE_SOURCE=local. LOCAL_IMAGE_DIR (default
+// data/images) holds a copy of the site's `wp-content/uploads` tree, e.g. from a backup.
+const LOCAL_IMAGE_DIR = path.resolve(process.env.LOCAL_IMAGE_DIR ?? path.join(process.cwd(), 'data', 'images'));
+
+// Other widths (the book's, the offline copy's) get the next larger of these, so only
+// a few sizes of each photo are ever made
+const WIDTHS = [...IMAGE_WIDTHS.imageSizes, ...IMAGE_WIDTHS.deviceSizes].sort((a, b) => a - b);
+const DEFAULT_QUALITY = 80;
+
+const CONTENT_TYPES: { [format: string]: string } = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+};
+
+interface LocalImageRouteProps {
+  params: Promise<{ path: string[] }>;
+}
+
+// A whole number in [min, max], or null
+const parseInteger = (value: string | null, min: number, max: number): number | null => {
+  if (value === null || !/^\d+$/.test(value)) return null;
+  const number = parseInt(value, 10);
+  return number >= min && number <= max ? number : null;
+};
+
+export async function GET(request: Request, { params }: LocalImageRouteProps) {
+  const { searchParams } = new URL(request.url);
+  const requested = parseInteger(searchParams.get('w'), 1, WIDTHS[WIDTHS.length - 1]);
+  const quality = searchParams.has('q') ? parseInteger(searchParams.get('q'), 1, 100) : DEFAULT_QUALITY;
+  if (requested === null || quality === null) {
+    return new Response(`w must be at most ${WIDTHS[WIDTHS.length - 1]} and q between 1 and 100`, { status: 400 });
+  }
+  const width = WIDTHS.find(candidate => candidate >= requested)!;
+
+  const { path: segments } = await params;
+  const file = path.resolve(LOCAL_IMAGE_DIR, ...segments);
+  if (!file.startsWith(LOCAL_IMAGE_DIR + path.sep)) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  let input: Buffer;
+  try {
+    input = await fs.readFile(file);
+  } catch {
+    return new Response('Not found', { status: 404 });
+  }
+
+  let output: Buffer;
+  let format: string;
+  try {
+    ({ format = 'jpeg' } = await sharp(input).metadata());
+    const image = sharp(input).rotate().resize({ width, withoutEnlargement: true });
+    output = await (format === 'jpeg' || format === 'webp' ? image.toFormat(format, { quality }) : image).toBuffer();
+  } catch {
+    // Not an image sharp can read
+    return new Response('Unsupported image', { status: 415 });
+  }
+
+  return new Response(new Uint8Array(output), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format] ?? 'application/octet-stream',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
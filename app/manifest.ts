@@ -0,0 +1,25 @@
+import type { MetadataRoute } from 'next';
+import { DEFAULT_LOCALE } from '@/lib/i18n';
+import { SITE_DESCRIPTION, SITE_NAME } from '@/lib/site';
+
+// Makes the journal installable; public/sw.js keeps it readable offline
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: SITE_NAME,
+    short_name: 'Journal',
+    description: SITE_DESCRIPTION,
+    // The middleware sends it on to the reader's language
+    start_url: '/',
+    scope: '/',
+    lang: DEFAULT_LOCALE,
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#ffffff',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml' },
+    ],
+  };
+}
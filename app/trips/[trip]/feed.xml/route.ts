@@ -0,0 +1,30 @@
+import { feedResponse } from '@/lib/feeds';
+import { getPostsToGenerate, getTripBySlug } from '@/lib/load-posts';
+import { SITE_NAME } from '@/lib/site';
+import { groupPostsByTrip } from '@/lib/trips';
+
+interface TripFeedRouteProps {
+  params: Promise<{ trip: string }>;
+}
+
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+export const revalidate = 600;
+
+export async function generateStaticParams() {
+  const trips = groupPostsByTrip(await getPostsToGenerate());
+  return trips.map(trip => ({ trip: trip.slug }));
+}
+
+export async function GET(_request: Request, { params }: TripFeedRouteProps) {
+  const { trip: slug } = await params;
+  const trip = await getTripBySlug(slug);
+  if (!trip) return new Response('Not found', { status: 404 });
+
+  return feedResponse('rss', {
+    title: `${trip.name} | ${SITE_NAME}`,
+    description: `Journal entries from ${trip.name}`,
+    homePath: `/trips/${trip.slug}`,
+    posts: trip.posts,
+  });
+}
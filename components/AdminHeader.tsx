@@ -0,0 +1,31 @@
+import Link from 'next/link';
+import { logout } from '@/app/admin/actions';
+import { countPendingComments } from '@/lib/comment-store';
+
+// Navigation of the /admin pages
+export default function AdminHeader() {
+  const pending = countPendingComments();
+
+  return (
+    <header className="border-b border-neutral-200 bg-white">
+      <div className="max-w-5xl mx-auto px-6 py-4 flex flex-wrap items-center justify-between gap-4">
+        <Link href="/admin" className="text-xl font-light tracking-tight font-serif hover:text-neutral-600 transition-colors">
+          Karlowitz <span className="text-sm font-sans text-neutral-400">admin</span>
+        </Link>
+        <nav className="flex items-center gap-5 text-sm">
+          <Link href="/admin" className="text-neutral-600 hover:text-neutral-900 transition-colors">Entries</Link>
+          <Link href="/admin/posts/new" className="text-neutral-600 hover:text-neutral-900 transition-colors">New entry</Link>
+          <Link href="/admin/alt-text" className="text-neutral-600 hover:text-neutral-900 transition-colors">Alt text</Link>
+          <Link href="/admin/comments" className="text-neutral-600 hover:text-neutral-900 transition-colors">
+            Comments
+            {pending > 0 && <span className="ml-1.5 px-1.5 py-0.5 rounded-full bg-neutral-900 text-white text-xs">{pending}</span>}
+          </Link>
+          <Link href="/" className="text-neutral-600 hover:text-neutral-900 transition-colors">Site</Link>
+          <form action={logout}>
+            <button type="submit" className="text-neutral-600 hover:text-neutral-900 transition-colors">Sign out</button>
+          </form>
+        </nav>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useActionState } from 'react';
+import Link from 'next/link';
+import JournalImage from '@/components/JournalImage';
+import { FormState, saveAltText } from '@/app/admin/actions';
+import { BlogPostImage } from '@/lib/posts';
+
+export interface AltTextGroup {
+  url: string;
+  slug: string;
+  title: string;
+  images: BlogPostImage[];
+}
+
+interface AltTextEditorProps {
+  groups: AltTextGroup[];
+}
+
+// One alt text field per photo, grouped by entry, saved together. Fields left empty
+// stay empty.
+export default function AltTextEditor({ groups }: AltTextEditorProps) {
+  const [state, formAction, pending] = useActionState<FormState, FormData>(saveAltText, { errors: [] });
+
+  return (
+    <form action={formAction} className="space-y-10">
+      {groups.map(group => (
+        <section key={group.url} aria-labelledby={`group-${group.slug}`}>
+          <h2 id={`group-${group.slug}`} className="text-lg font-light font-serif mb-4">
+            <Link href={`/admin/posts/${group.slug}`} className="hover:underline">{group.title}</Link>
+          </h2>
+          <ul className="grid gap-4 sm:grid-cols-2">
+            {group.images.map((image, index) => (
+              <li key={image.src} className="flex gap-3 rounded-sm border border-neutral-200 bg-white p-3">
+                <JournalImage
+                  image={image}
+                  alt=""
+                  sizes="160px"
+                  className="w-40 h-32 shrink-0 object-cover rounded-sm"
+                />
+                <label className="flex-1 text-xs text-neutral-500">
+                  Photo {index + 1} of {group.images.length}
+                  <textarea
+                    name={`alt:${JSON.stringify([group.url, image.src])}`}
+                    defaultValue={image.alt}
+                    placeholder={image.title || 'What the photo shows'}
+                    rows={3}
+                    className="mt-1 block w-full rounded-sm border border-neutral-300 px-2 py-1.5 text-sm text-neutral-900 focus:border-neutral-900 focus:outline-none"
+                  />
+                </label>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      <div className="sticky bottom-0 -mx-6 flex items-center gap-4 border-t border-neutral-200 bg-neutral-50/95 px-6 py-4">
+        <button
+          type="submit"
+          disabled={pending}
+          className="rounded-sm bg-neutral-900 px-5 py-2 text-sm text-white hover:bg-neutral-700 disabled:opacity-50 transition-colors"
+        >
+          {pending ? 'Saving…' : 'Save alt texts'}
+        </button>
+        {state.message && <p role="status" className="text-sm text-neutral-600">{state.message}</p>}
+        {state.errors.length > 0 && <p role="alert" className="text-sm text-red-700">{state.errors[0]}</p>}
+      </div>
+    </form>
+  );
+}
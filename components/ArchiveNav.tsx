@@ -0,0 +1,57 @@
+import Link from 'next/link';
+import { ArchiveYear } from '@/lib/archive';
+import { Locale, localizePath } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+
+interface ArchiveNavProps {
+  archive: ArchiveYear[];
+  locale: Locale;
+  // Jump within the feed instead of linking to the month's archive page
+  onSelect?: (slug: string) => void;
+}
+
+// Year → trip → month with post counts, used by the feed's drawer and the archive page
+export default function ArchiveNav({ archive, locale, onSelect }: ArchiveNavProps) {
+  const itemClass = 'flex w-full items-baseline justify-between gap-4 py-1 text-left text-neutral-600 hover:text-neutral-900 transition-colors';
+
+  return (
+    <nav aria-label={getMessages(locale).common.archive} className="space-y-8">
+      {archive.map(year => (
+        <section key={year.year}>
+          <h3 className="flex items-baseline justify-between font-serif text-2xl text-neutral-900">
+            {year.year}
+            <span className="text-xs font-sans text-neutral-400">{year.count}</span>
+          </h3>
+          {year.trips.map(trip => (
+            <div key={trip.slug ?? 'other'} className="mt-3">
+              <p className="text-xs uppercase tracking-wide text-neutral-400">{trip.name}</p>
+              <ul className="mt-1">
+                {trip.months.map(month => {
+                  const label = (
+                    <>
+                      <span>{month.name}</span>
+                      <span className="text-xs text-neutral-400">{month.count}</span>
+                    </>
+                  );
+                  return (
+                    <li key={month.month}>
+                      {onSelect ? (
+                        <button onClick={() => onSelect(month.firstSlug)} className={itemClass}>
+                          {label}
+                        </button>
+                      ) : (
+                        <Link href={localizePath(locale, `/archive/${month.year}/${month.month}`)} className={itemClass}>
+                          {label}
+                        </Link>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </section>
+      ))}
+    </nav>
+  );
+}
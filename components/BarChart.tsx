@@ -0,0 +1,76 @@
+interface Bar {
+  label: string;
+  value: number;
+  // Hover text; defaults to "label: value"
+  title?: string;
+}
+
+interface BarChartProps {
+  bars: Bar[];
+  label: string;
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 720;
+const AXIS_WIDTH = 40;
+const LABEL_HEIGHT = 20;
+
+// Plain SVG bar chart, rendered at build time. Only the first and last labels are
+// drawn on the axis; every bar has its own hover title.
+export default function BarChart({
+  bars,
+  label,
+  formatValue = value => value.toLocaleString('en-US'),
+  height = 160,
+}: BarChartProps) {
+  if (bars.length === 0) return null;
+
+  const max = Math.max(...bars.map(bar => bar.value), 1);
+  const plotWidth = WIDTH - AXIS_WIDTH;
+  const slot = plotWidth / bars.length;
+  const gap = slot > 4 ? 1 : 0;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height + LABEL_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={label}
+    >
+      {/* Axis */}
+      <text x={AXIS_WIDTH - 8} y={10} textAnchor="end" fontSize={11} className="fill-neutral-400">
+        {formatValue(max)}
+      </text>
+      <text x={AXIS_WIDTH - 8} y={height} textAnchor="end" fontSize={11} className="fill-neutral-400">
+        0
+      </text>
+      <line x1={AXIS_WIDTH} x2={WIDTH} y1={height} y2={height} className="stroke-neutral-200" />
+
+      {bars.map((bar, index) => {
+        const barHeight = (bar.value / max) * (height - 4);
+        return (
+          <rect
+            key={index}
+            x={AXIS_WIDTH + index * slot + gap / 2}
+            y={height - barHeight}
+            width={Math.max(slot - gap, 0.5)}
+            height={barHeight}
+            className="fill-neutral-800 hover:fill-neutral-500"
+          >
+            <title>{bar.title ?? `${bar.label}: ${formatValue(bar.value)}`}</title>
+          </rect>
+        );
+      })}
+
+      <text x={AXIS_WIDTH} y={height + 15} fontSize={11} className="fill-neutral-400">
+        {bars[0].label}
+      </text>
+      {bars.length > 1 && (
+        <text x={WIDTH} y={height + 15} textAnchor="end" fontSize={11} className="fill-neutral-400">
+          {bars[bars.length - 1].label}
+        </text>
+      )}
+    </svg>
+  );
+}
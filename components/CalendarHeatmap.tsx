@@ -0,0 +1,69 @@
+import { getIntlLocale, Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { DailyValue, formatShortDate } from '@/lib/stats';
+
+interface CalendarHeatmapProps {
+  days: DailyValue[];
+  label: string;
+  locale: Locale;
+}
+
+const CELL = 12;
+const GAP = 3;
+const TOP = 18;
+const LEFT = 28;
+const SHADES = ['fill-neutral-100', 'fill-neutral-400', 'fill-neutral-700', 'fill-neutral-900'];
+
+// Monday-first weekday of a `YYYY-MM-DD` day
+const getWeekday = (date: string): number => (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+// One column per week, one square per day, darker with more posts
+export default function CalendarHeatmap({ days, label, locale }: CalendarHeatmapProps) {
+  if (days.length === 0) return null;
+  const messages = getMessages(locale).stats;
+
+  const offset = getWeekday(days[0].date);
+  const weeks = Math.ceil((days.length + offset) / 7);
+  const width = LEFT + weeks * (CELL + GAP);
+  const height = TOP + 7 * (CELL + GAP);
+
+  // Label each month above the first week that starts in it
+  const months: { week: number; name: string }[] = [];
+  days.forEach((day, index) => {
+    const week = Math.floor((index + offset) / 7);
+    const name = new Date(`${day.date}T00:00:00Z`).toLocaleDateString(getIntlLocale(locale), { month: 'short', timeZone: 'UTC' });
+    if (months[months.length - 1]?.name !== name) months.push({ week, name });
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto max-w-3xl" role="img" aria-label={label}>
+      {months.map(({ week, name }) => (
+        <text key={week} x={LEFT + week * (CELL + GAP)} y={11} fontSize={10} className="fill-neutral-400">
+          {name}
+        </text>
+      ))}
+      {messages.weekdays.map((name, weekday) => name && (
+        <text key={name} x={0} y={TOP + weekday * (CELL + GAP) + CELL - 2} fontSize={9} className="fill-neutral-400">
+          {name}
+        </text>
+      ))}
+
+      {days.map((day, index) => {
+        const position = index + offset;
+        return (
+          <rect
+            key={day.date}
+            x={LEFT + Math.floor(position / 7) * (CELL + GAP)}
+            y={TOP + (position % 7) * (CELL + GAP)}
+            width={CELL}
+            height={CELL}
+            rx={2}
+            className={SHADES[Math.min(day.value, SHADES.length - 1)]}
+          >
+            <title>{`${formatShortDate(day.date, locale)}: ${messages.posts(day.value)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CommentReply, fetchNewReplies, hasCommented, markRepliesSeen } from '@/lib/comments';
+import { Locale, localizePath } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+
+// How often an open page looks for replies again
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// A notice about replies to the reader's comments that were approved since they last
+// dismissed it. Only readers who have commented in this browser ask for them.
+export default function CommentReplies({ locale }: { locale: Locale }) {
+  const messages = getMessages(locale);
+  const [replies, setReplies] = useState<CommentReply[]>([]);
+
+  useEffect(() => {
+    if (!hasCommented()) return;
+
+    const check = () => {
+      if (document.visibilityState !== 'visible' || !navigator.onLine) return;
+      fetchNewReplies()
+        .then(setReplies)
+        .catch(error => console.error('Looking for replies failed:', error));
+    };
+
+    check();
+    const interval = setInterval(check, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (replies.length === 0) return null;
+
+  const dismiss = () => {
+    markRepliesSeen();
+    setReplies([]);
+  };
+
+  return (
+    <aside
+      role="status"
+      className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-white border border-neutral-200 rounded-sm shadow-lg px-5 py-4 text-sm"
+    >
+      <div className="flex items-start gap-4">
+        <p className="font-medium text-neutral-900">{messages.comments.newReplies(replies.length)}</p>
+        <button
+          type="button"
+          onClick={dismiss}
+          className="ml-auto text-neutral-400 hover:text-neutral-900"
+          aria-label={messages.home.dismiss}
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="mt-2 space-y-2">
+        {replies.slice(0, 5).map(reply => (
+          <li key={reply.id}>
+            <Link
+              href={localizePath(locale, `/posts/${reply.slug}#comments`)}
+              onClick={dismiss}
+              className="block text-neutral-600 hover:text-neutral-900"
+            >
+              <span className="block text-xs text-neutral-400">{messages.comments.replyOn(reply.name, reply.postTitle)}</span>
+              <span className="line-clamp-2">{reply.excerpt}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import Reactions from '@/components/Reactions';
+import {
+  BODY_MAX_LENGTH,
+  buildThread,
+  CommentsResponse,
+  CommentThread,
+  fetchComments,
+  HONEYPOT_FIELD,
+  markCommented,
+  MAX_THREAD_DEPTH,
+  NAME_MAX_LENGTH,
+  PostComment,
+  submitComment,
+} from '@/lib/comments';
+import { Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { formatDate } from '@/lib/posts';
+
+interface CommentsProps {
+  slug: string;
+  locale: Locale;
+}
+
+// Remembers the name between comments
+const NAME_KEY = 'comment-name';
+
+// Reactions and the comment thread of an entry. Both are loaded in the browser, so
+// the page itself stays static.
+export default function Comments({ slug, locale }: CommentsProps) {
+  const messages = getMessages(locale).comments;
+  const [data, setData] = useState<CommentsResponse | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+
+  useEffect(() => {
+    setData(null);
+    setLoadFailed(false);
+    fetchComments(slug)
+      .then(setData)
+      .catch(error => {
+        console.error('Loading comments failed:', error);
+        setLoadFailed(true);
+      });
+  }, [slug]);
+
+  const addComment = (comment: PostComment) => {
+    setData(current => current && { ...current, comments: [...current.comments, comment] });
+    setReplyTo(null);
+  };
+
+  const thread = data ? buildThread(data.comments) : [];
+  const count = data ? data.comments.filter(comment => !comment.pending).length : 0;
+
+  const renderComment = (comment: CommentThread, depth: number) => (
+    <li key={comment.id}>
+      <article className="py-4">
+        <header className="flex flex-wrap items-baseline gap-x-3 text-sm">
+          <span className="font-medium text-neutral-900">{comment.name}</span>
+          <time dateTime={comment.createdAt} className="text-neutral-400">{formatDate(comment.createdAt, locale)}</time>
+          {comment.pending && <span className="text-xs text-amber-700">{messages.pending}</span>}
+        </header>
+        <p className="mt-1 text-neutral-700 whitespace-pre-line break-words">{comment.body}</p>
+        {!comment.pending && replyTo !== comment.id && (
+          <button
+            type="button"
+            onClick={() => setReplyTo(comment.id)}
+            className="mt-1 text-xs text-neutral-400 hover:text-neutral-900 transition-colors"
+          >
+            {messages.reply}
+          </button>
+        )}
+        {replyTo === comment.id && (
+          <CommentForm
+            slug={slug}
+            parent={comment}
+            onPosted={addComment}
+            onCancel={() => setReplyTo(null)}
+            locale={locale}
+          />
+        )}
+      </article>
+      {comment.replies.length > 0 && (
+        <ol className={depth < MAX_THREAD_DEPTH ? 'pl-5 border-l border-neutral-100' : ''}>
+          {comment.replies.map(reply => renderComment(reply, depth + 1))}
+        </ol>
+      )}
+    </li>
+  );
+
+  return (
+    <section id="comments" aria-labelledby="comments-heading" className="scroll-mt-8">
+      {data && (
+        <Reactions
+          slug={slug}
+          reactions={data.reactions}
+          onChange={reactions => setData({ ...data, reactions })}
+          locale={locale}
+        />
+      )}
+
+      <h2 id="comments-heading" className="mt-12 text-xl font-light font-serif text-neutral-800">
+        {data && count > 0 ? messages.count(count) : messages.heading}
+      </h2>
+
+      {loadFailed ? (
+        <p className="mt-4 text-sm text-neutral-500">{messages.loadFailed}</p>
+      ) : !data ? (
+        <p className="mt-4 text-sm text-neutral-400">{messages.loading}</p>
+      ) : (
+        <>
+          {thread.length > 0 ? (
+            <ol className="mt-2 divide-y divide-neutral-100">{thread.map(comment => renderComment(comment, 1))}</ol>
+          ) : (
+            <p className="mt-4 text-sm text-neutral-500">{messages.empty}</p>
+          )}
+          <CommentForm slug={slug} parent={null} onPosted={addComment} locale={locale} />
+        </>
+      )}
+    </section>
+  );
+}
+
+function CommentForm({
+  slug,
+  parent,
+  onPosted,
+  onCancel,
+  locale,
+}: {
+  slug: string;
+  parent: PostComment | null;
+  onPosted: (comment: PostComment) => void;
+  onCancel?: () => void;
+  locale: Locale;
+}) {
+  const messages = getMessages(locale).comments;
+  const [name, setName] = useState('');
+  const [body, setBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [posted, setPosted] = useState(false);
+
+  useEffect(() => {
+    setName(localStorage.getItem(NAME_KEY) ?? '');
+  }, []);
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const website = new FormData(event.currentTarget).get(HONEYPOT_FIELD);
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { comment } = await submitComment(slug, {
+        name,
+        body,
+        parentId: parent?.id ?? null,
+        [HONEYPOT_FIELD]: typeof website === 'string' ? website : '',
+      });
+      localStorage.setItem(NAME_KEY, name.trim());
+      markCommented();
+      setBody('');
+      setPosted(comment.pending);
+      onPosted(comment);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const fieldClass = 'w-full border border-neutral-200 rounded-sm px-3 py-2 text-sm focus:outline-none focus:border-neutral-400';
+  const formId = `comment-form-${parent?.id ?? 'new'}`;
+
+  return (
+    <form
+      onSubmit={submit}
+      aria-label={parent ? messages.replyTo(parent.name) : messages.heading}
+      className={`space-y-3 ${parent ? 'mt-3' : 'mt-8'}`}
+    >
+      <label className="block">
+        <span className="block text-xs text-neutral-500 mb-1">{messages.name}</span>
+        <input
+          value={name}
+          onChange={event => setName(event.target.value)}
+          required
+          maxLength={NAME_MAX_LENGTH}
+          autoComplete="name"
+          className={`${fieldClass} max-w-xs`}
+        />
+      </label>
+      <label className="block">
+        <span className="block text-xs text-neutral-500 mb-1">{parent ? messages.replyTo(parent.name) : messages.body}</span>
+        <textarea
+          value={body}
+          onChange={event => setBody(event.target.value)}
+          required
+          maxLength={BODY_MAX_LENGTH}
+          rows={parent ? 3 : 5}
+          className={fieldClass}
+        />
+      </label>
+
+      {/* Hidden from people, not from bots */}
+      <div aria-hidden className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label htmlFor={`${formId}-${HONEYPOT_FIELD}`}>Website</label>
+        <input id={`${formId}-${HONEYPOT_FIELD}`} name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-700 whitespace-pre-line">{error}</p>}
+      {posted && <p role="status" className="text-sm text-neutral-500">{messages.pendingNotice}</p>}
+
+      <div className="flex items-center gap-4">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 bg-neutral-900 text-white text-sm rounded-sm hover:bg-neutral-700 transition-colors disabled:opacity-60"
+        >
+          {submitting ? messages.submitting : messages.submit}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-sm text-neutral-500 hover:text-neutral-900">
+            {messages.cancel}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
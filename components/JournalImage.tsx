@@ -0,0 +1,22 @@
+import Image, { ImageProps } from 'next/image';
+import { getPlaceholderColor } from '@/lib/images';
+import { BlogPostImage } from '@/lib/posts';
+
+type JournalImageProps = Omit<ImageProps, 'src' | 'width' | 'height' | 'sizes'> & {
+  image: BlogPostImage;
+  sizes: string;
+};
+
+// A journal photo through `next/image`, so it gets a srcset from the WordPress loader.
+// Photos without recorded dimensions get 0×0 and size themselves once loaded.
+export default function JournalImage({ image, style, ...props }: JournalImageProps) {
+  return (
+    <Image
+      src={image.src}
+      width={image.width ?? 0}
+      height={image.height ?? 0}
+      style={{ backgroundColor: getPlaceholderColor(image), ...style }}
+      {...props}
+    />
+  );
+}
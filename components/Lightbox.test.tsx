@@ -0,0 +1,119 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureAxe } from 'vitest-axe';
+import Lightbox from './Lightbox';
+import { LightboxPosition } from '@/lib/lightbox';
+import { BlogPostData } from '@/lib/posts';
+
+const posts: BlogPostData[] = [
+  {
+    url: 'https://krlwtz.com/2024/08/24/yosemite-7-valley-floor/',
+    title: 'Yosemite 7: Valley Floor',
+    date: '2024-08-24T19:05:00-07:00',
+    content: 'Slow morning in the valley.',
+    images: [
+      { src: 'https://krlwtz.com/wp-content/uploads/2024/08/fall.jpg', alt: 'Lower Yosemite Fall', title: 'From the bridge', width: 904, height: 1200 },
+      { src: 'https://krlwtz.com/wp-content/uploads/2024/08/el-cap.jpg', alt: '', width: 1200, height: 904 },
+      { src: 'https://krlwtz.com/wp-content/uploads/2024/08/meadow.jpg', alt: 'Cook’s Meadow' },
+    ],
+  },
+];
+
+const renderLightbox = (position: LightboxPosition = { postIndex: 0, imageIndex: 1 }) => {
+  const props = {
+    posts,
+    order: [0],
+    position,
+    continueAcrossPosts: false,
+    onContinueAcrossPostsChange: vi.fn(),
+    onNavigate: vi.fn(),
+    onClose: vi.fn(),
+    locale: 'en' as const,
+  };
+  return { ...render(<Lightbox {...props} />), props };
+};
+
+// jsdom does no layout, so neither contrast nor scrolling can be checked here
+const axe = configureAxe({ rules: { 'color-contrast': { enabled: false } } });
+Element.prototype.scrollIntoView = vi.fn();
+
+afterEach(cleanup);
+
+describe('Lightbox', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderLightbox();
+    expect((await axe(container)).violations).toEqual([]);
+  });
+
+  it('is a modal dialog labelled by the post title', () => {
+    renderLightbox();
+    const dialog = screen.getByRole('dialog');
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(screen.getByRole('dialog', { name: 'Yosemite 7: Valley Floor' })).toBe(dialog);
+  });
+
+  it('labels its controls and marks the current photo', () => {
+    renderLightbox();
+    expect(screen.getByRole('button', { name: 'Close lightbox' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Previous image' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Next image' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Continue into other entries' }).getAttribute('aria-pressed')).toBe('false');
+    expect(screen.getByRole('button', { name: 'Photo 2 of 3' }).getAttribute('aria-current')).toBe('true');
+    expect(screen.getByRole('button', { name: 'Photo 1 of 3' }).getAttribute('aria-current')).toBe('false');
+  });
+
+  it('describes the photo, falling back to the post title', () => {
+    renderLightbox({ postIndex: 0, imageIndex: 0 });
+    expect(screen.getByRole('img', { name: 'Lower Yosemite Fall' })).toBeTruthy();
+    cleanup();
+    renderLightbox();
+    // Thumbnails and preloaded neighbours are decorative, so this is the only image
+    expect(screen.getByRole('img').getAttribute('alt')).toContain('Yosemite 7: Valley Floor');
+  });
+
+  it('moves focus in on open and back to the opener on close', () => {
+    const opener = document.body.appendChild(document.createElement('button'));
+    opener.focus();
+    const { unmount } = renderLightbox();
+    expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Close lightbox' }));
+    unmount();
+    expect(document.activeElement).toBe(opener);
+    opener.remove();
+  });
+
+  it('keeps Tab and Shift+Tab inside the dialog', () => {
+    renderLightbox();
+    const buttons = screen.getAllByRole('button');
+    const first = buttons[0];
+    const last = buttons[buttons.length - 1];
+
+    last.focus();
+    fireEvent.keyDown(last, { key: 'Tab' });
+    expect(document.activeElement).toBe(first);
+
+    fireEvent.keyDown(first, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(last);
+
+    // Focus that got out is brought back
+    document.body.focus();
+    fireEvent.keyDown(document.body, { key: 'Tab' });
+    expect(document.activeElement).toBe(first);
+  });
+
+  it('leaves Tab alone between the ends', () => {
+    renderLightbox();
+    const [first] = screen.getAllByRole('button');
+    first.focus();
+    expect(fireEvent.keyDown(first, { key: 'Tab' })).toBe(true);
+    expect(document.activeElement).toBe(first);
+  });
+
+  it('closes on Escape and pages with the arrow keys', () => {
+    const { props } = renderLightbox();
+    fireEvent.keyDown(window, { key: 'ArrowRight' });
+    expect(props.onNavigate).toHaveBeenCalledWith({ postIndex: 0, imageIndex: 2 });
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(props.onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,392 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import JournalImage from '@/components/JournalImage';
+import { Locale } from '@/lib/i18n';
+import { clearPlaceholder, getImageAlt, IMAGE_SIZES } from '@/lib/images';
+import { getImageCaption, LightboxPosition, stepLightbox } from '@/lib/lightbox';
+import { getMessages } from '@/lib/messages';
+import { BlogPostData, formatDate } from '@/lib/posts';
+
+interface LightboxProps {
+  posts: BlogPostData[];
+  // Indexes into `posts` in feed order, for continuing into the neighbouring posts
+  order: number[];
+  position: LightboxPosition;
+  continueAcrossPosts: boolean;
+  onContinueAcrossPostsChange: (value: boolean) => void;
+  onNavigate: (position: LightboxPosition) => void;
+  onClose: () => void;
+  locale: Locale;
+}
+
+interface Zoom {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+// Horizontal distance in px a swipe has to cover to change photos
+const SWIPE_THRESHOLD = 60;
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+export default function Lightbox({
+  posts,
+  order,
+  position,
+  continueAcrossPosts,
+  onContinueAcrossPostsChange,
+  onNavigate,
+  onClose,
+  locale,
+}: LightboxProps) {
+  const messages = getMessages(locale).lightbox;
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement | null>(null);
+  const filmstripRef = useRef<HTMLDivElement | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ x: number; y: number; time: number; zoom: Zoom } | null>(null);
+  const pinchRef = useRef<{ distance: number; scale: number } | null>(null);
+  const lastTapRef = useRef<{ x: number; y: number; time: number } | null>(null);
+
+  const post = posts[position.postIndex];
+  const images = post?.images ?? [];
+  const image = images[position.imageIndex];
+  const previous = stepLightbox(posts, order, position, 'prev', continueAcrossPosts);
+  const next = stepLightbox(posts, order, position, 'next', continueAcrossPosts);
+
+  const navigate = (direction: 'prev' | 'next') => {
+    const target = direction === 'next' ? next : previous;
+    if (target) onNavigate(target);
+  };
+
+  // Keep the zoomed photo covering the stage rather than sliding off it
+  const clampZoom = ({ scale, x, y }: Zoom): Zoom => {
+    const img = stageRef.current?.querySelector('img');
+    if (!img || scale <= 1) return NO_ZOOM;
+    const maxX = ((scale - 1) * img.offsetWidth) / 2;
+    const maxY = ((scale - 1) * img.offsetHeight) / 2;
+    return {
+      scale,
+      x: Math.min(Math.max(x, -maxX), maxX),
+      y: Math.min(Math.max(y, -maxY), maxY),
+    };
+  };
+
+  // Move focus into the dialog, and give it back to whatever opened it on close. The
+  // opener is taken during the first render, before the page behind turns inert.
+  const [opener] = useState(() => document.activeElement as HTMLElement | null);
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+    return () => opener?.focus({ preventScroll: true });
+  }, [opener]);
+
+  // Every photo starts unzoomed
+  useEffect(() => {
+    setZoom(NO_ZOOM);
+    setSwipeOffset(0);
+  }, [position.postIndex, position.imageIndex]);
+
+  // Keep the current thumbnail in view
+  useEffect(() => {
+    const thumbnail = filmstripRef.current?.querySelector('[aria-current="true"]');
+    thumbnail?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }, [position.postIndex, position.imageIndex]);
+
+  // Keyboard navigation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowLeft') {
+        navigate('prev');
+      } else if (e.key === 'ArrowRight') {
+        navigate('next');
+      } else if (e.key === '+' || e.key === '=') {
+        setZoom(current => clampZoom({ ...current, scale: Math.min(current.scale * 1.5, MAX_SCALE) }));
+      } else if (e.key === '-') {
+        setZoom(current => clampZoom({ ...current, scale: current.scale / 1.5 }));
+      } else if (e.key === 'Tab') {
+        // Wrap around at either end, so focus stays in the dialog also where the
+        // browser doesn't support `inert`
+        const buttons = Array.from(dialogRef.current?.querySelectorAll('button') ?? []);
+        const first = buttons[0];
+        const last = buttons[buttons.length - 1];
+        const active = document.activeElement;
+        if (!dialogRef.current?.contains(active) || active === (e.shiftKey ? first : last)) {
+          e.preventDefault();
+          (e.shiftKey ? last : first)?.focus();
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!post || !image) return null;
+
+  // Double tap zooms in on the tapped point, or back out
+  const toggleZoom = (clientX: number, clientY: number) => {
+    if (zoom.scale > 1) {
+      setZoom(NO_ZOOM);
+      return;
+    }
+    const rect = stageRef.current!.getBoundingClientRect();
+    const offsetX = clientX - (rect.left + rect.width / 2);
+    const offsetY = clientY - (rect.top + rect.height / 2);
+    setZoom(clampZoom({
+      scale: DOUBLE_TAP_SCALE,
+      x: -offsetX * (DOUBLE_TAP_SCALE - 1),
+      y: -offsetY * (DOUBLE_TAP_SCALE - 1),
+    }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size === 2) {
+      const [a, b] = Array.from(pointers.values());
+      pinchRef.current = { distance: distance(a, b), scale: zoom.scale };
+      gestureRef.current = null;
+      setSwipeOffset(0);
+    } else if (pointers.size === 1) {
+      gestureRef.current = { x: e.clientX, y: e.clientY, time: Date.now(), zoom };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const pinch = pinchRef.current;
+    if (pinch && pointers.size === 2) {
+      const [a, b] = Array.from(pointers.values());
+      const scale = Math.min(Math.max((pinch.scale * distance(a, b)) / pinch.distance, 1), MAX_SCALE);
+      setZoom(current => clampZoom({ ...current, scale }));
+      return;
+    }
+
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    const dx = e.clientX - gesture.x;
+    const dy = e.clientY - gesture.y;
+    if (gesture.zoom.scale > 1) {
+      setZoom(clampZoom({ ...gesture.zoom, x: gesture.zoom.x + dx, y: gesture.zoom.y + dy }));
+    } else if (Math.abs(dx) > Math.abs(dy)) {
+      setSwipeOffset(dx);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    pointers.delete(e.pointerId);
+    if (pointers.size < 2) pinchRef.current = null;
+
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    setSwipeOffset(0);
+    if (!gesture || pointers.size > 0) return;
+
+    const dx = e.clientX - gesture.x;
+    const dy = e.clientY - gesture.y;
+    const now = Date.now();
+
+    if (gesture.zoom.scale === 1 && Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      navigate(dx < 0 ? 'next' : 'prev');
+      lastTapRef.current = null;
+      return;
+    }
+
+    const isTap = Math.abs(dx) < 10 && Math.abs(dy) < 10 && now - gesture.time < DOUBLE_TAP_MS;
+    if (!isTap) return;
+    const lastTap = lastTapRef.current;
+    if (lastTap && now - lastTap.time < DOUBLE_TAP_MS && distance(lastTap, { x: e.clientX, y: e.clientY }) < 30) {
+      toggleZoom(e.clientX, e.clientY);
+      lastTapRef.current = null;
+    } else {
+      lastTapRef.current = { x: e.clientX, y: e.clientY, time: now };
+    }
+  };
+
+  const caption = getImageCaption(image);
+  const neighbours = [previous, next]
+    .filter((target): target is LightboxPosition => target !== null)
+    .map(target => posts[target.postIndex].images![target.imageIndex])
+    .filter((neighbour, i, list) =>
+      neighbour.src !== image.src && list.findIndex(other => other.src === neighbour.src) === i
+    );
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="lightbox-title"
+      className="fixed inset-0 z-[100] bg-black/95 flex flex-col"
+      onClick={onClose}
+    >
+      {/* Top bar */}
+      <div
+        className="flex items-start justify-between gap-4 px-4 py-3 text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="min-w-0">
+          <h2 id="lightbox-title" className="font-serif text-lg truncate">{post.title}</h2>
+          <p className="text-xs text-white/60" aria-live="polite">
+            {formatDate(post.date, locale)} · {position.imageIndex + 1} / {images.length}
+          </p>
+        </div>
+        <div className="flex items-center gap-4 flex-none">
+          {/* Keyboard Hints */}
+          <span className="hidden md:inline text-xs text-white/50" aria-hidden>{messages.keyboardHints}</span>
+          <button
+            onClick={() => onContinueAcrossPostsChange(!continueAcrossPosts)}
+            aria-pressed={continueAcrossPosts}
+            className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${
+              continueAcrossPosts
+                ? 'bg-white text-neutral-900 border-white'
+                : 'text-white/70 border-white/30 hover:text-white'
+            }`}
+          >
+            {messages.continueAcrossPosts}
+          </button>
+          <button
+            ref={closeButtonRef}
+            onClick={onClose}
+            className="text-white hover:text-neutral-300 transition-colors"
+            aria-label={messages.close}
+          >
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Photo */}
+      <div className="relative flex-1 min-h-0 flex items-center justify-center">
+        {previous && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              navigate('prev');
+            }}
+            className="absolute left-4 text-white hover:text-neutral-300 transition-colors z-10 bg-black/50 hover:bg-black/70 rounded-full p-3"
+            aria-label={messages.previous}
+          >
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+        )}
+
+        {next && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              navigate('next');
+            }}
+            className="absolute right-4 text-white hover:text-neutral-300 transition-colors z-10 bg-black/50 hover:bg-black/70 rounded-full p-3"
+            aria-label={messages.next}
+          >
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        )}
+
+        <div
+          ref={stageRef}
+          className="relative h-full max-w-7xl mx-auto px-16 flex items-center justify-center overflow-hidden touch-none select-none"
+          onClick={(e) => e.stopPropagation()}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div
+            className={`${zoom.scale > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'} ${
+              swipeOffset !== 0 || pinchRef.current ? '' : 'transition-transform duration-200 ease-out motion-reduce:transition-none'
+            }`}
+            style={{ transform: `translate(${zoom.x + swipeOffset}px, ${zoom.y}px) scale(${zoom.scale})` }}
+          >
+            <JournalImage
+              key={image.src}
+              image={image}
+              alt={getImageAlt(image, post, locale)}
+              sizes={IMAGE_SIZES.lightbox}
+              className="w-auto h-auto max-w-full max-h-[calc(100vh-12rem)] object-contain rounded-sm"
+              loading="eager"
+              draggable={false}
+              onLoad={clearPlaceholder}
+            />
+          </div>
+
+          {/* Caption */}
+          {caption && zoom.scale === 1 && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/70 text-white text-sm px-4 py-2 rounded max-w-md text-center">
+              {caption}
+            </div>
+          )}
+        </div>
+
+        {/* Neighbouring photos, loaded ahead so paging through is instant */}
+        {neighbours.map(neighbour => (
+          <JournalImage
+            key={neighbour.src}
+            image={neighbour}
+            alt=""
+            aria-hidden
+            sizes={IMAGE_SIZES.lightbox}
+            loading="eager"
+            className="absolute w-px h-px opacity-0 pointer-events-none"
+          />
+        ))}
+      </div>
+
+      {/* Filmstrip */}
+      {images.length > 1 && (
+        <div
+          ref={filmstripRef}
+          className="flex gap-2 px-4 py-3 overflow-x-auto justify-start sm:justify-center"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {images.map((thumbnail, imageIndex) => {
+            const isCurrent = imageIndex === position.imageIndex;
+            return (
+              <button
+                key={imageIndex}
+                onClick={() => onNavigate({ postIndex: position.postIndex, imageIndex })}
+                aria-current={isCurrent}
+                aria-label={messages.photoOf(imageIndex + 1, images.length)}
+                className={`flex-none rounded-sm overflow-hidden transition-opacity ${
+                  isCurrent ? 'ring-2 ring-white' : 'opacity-50 hover:opacity-100'
+                }`}
+              >
+                <JournalImage
+                  image={thumbnail}
+                  alt=""
+                  sizes={IMAGE_SIZES.thumbnail}
+                  className="w-16 h-16 object-cover"
+                />
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
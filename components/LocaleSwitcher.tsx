@@ -0,0 +1,29 @@
+import Link from 'next/link';
+import { Locale, LOCALE_NAMES, LOCALES, localizePath } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+
+interface LocaleSwitcherProps {
+  locale: Locale;
+  // The current page without its locale prefix
+  path: string;
+}
+
+// The same page in each language, for the footers
+export default function LocaleSwitcher({ locale, path }: LocaleSwitcherProps) {
+  return (
+    <nav aria-label={getMessages(locale).site.language} className="flex justify-center gap-3 text-xs tracking-wide">
+      {LOCALES.map(candidate => (
+        <Link
+          key={candidate}
+          href={localizePath(candidate, path)}
+          hrefLang={candidate}
+          lang={candidate}
+          aria-current={candidate === locale ? 'page' : undefined}
+          className={candidate === locale ? 'text-neutral-900' : 'text-neutral-400 hover:text-neutral-900 transition-colors'}
+        >
+          {LOCALE_NAMES[candidate]}
+        </Link>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useActionState } from 'react';
+import { FormState, login } from '@/app/admin/actions';
+
+export default function LoginForm() {
+  const [state, formAction, pending] = useActionState<FormState, FormData>(login, { errors: [] });
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <label className="block text-sm text-neutral-600">
+        Password
+        <input
+          type="password"
+          name="password"
+          required
+          autoFocus
+          autoComplete="current-password"
+          aria-invalid={state.errors.length > 0 || undefined}
+          aria-describedby={state.errors.length > 0 ? 'login-error' : undefined}
+          className="mt-1 block w-full rounded-sm border border-neutral-300 bg-white px-3 py-2 text-neutral-900 focus:border-neutral-900 focus:outline-none"
+        />
+      </label>
+      {state.errors.length > 0 && (
+        <p id="login-error" role="alert" className="text-sm text-red-700">{state.errors[0]}</p>
+      )}
+      <button
+        type="submit"
+        disabled={pending}
+        className="w-full rounded-sm bg-neutral-900 px-4 py-2 text-sm text-white hover:bg-neutral-700 disabled:opacity-50 transition-colors"
+      >
+        Sign in
+      </button>
+    </form>
+  );
+}
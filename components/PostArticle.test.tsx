@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, within } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureAxe } from 'vitest-axe';
+import PostArticle from './PostArticle';
+import { BlogPostData } from '@/lib/posts';
+
+const axe = configureAxe({ rules: { 'color-contrast': { enabled: false } } });
+
+const post: BlogPostData = {
+  url: 'https://krlwtz.com/2024/08/24/yosemite-7-valley-floor/',
+  slug: 'yosemite-7',
+  title: 'Yosemite 7: Valley Floor',
+  date: '2024-08-24T19:05:00-07:00',
+  content: '',
+  content_html: '<p>Slow morning in the <a href="https://www.nps.gov/yose/">valley</a>.</p><h2>Goodbyes</h2>',
+  featured_image: 'https://krlwtz.com/wp-content/uploads/2024/08/fall.jpg',
+  tags: ['Yosemite', 'waterfalls'],
+  images: [
+    { src: 'https://krlwtz.com/wp-content/uploads/2024/08/fall.jpg', alt: 'Lower Yosemite Fall', width: 904, height: 1200 },
+    { src: 'https://krlwtz.com/wp-content/uploads/2024/08/el-cap.jpg', alt: '', width: 1200, height: 904 },
+  ],
+};
+
+afterEach(cleanup);
+
+describe('PostArticle', () => {
+  it('has no axe violations', async () => {
+    const { container } = render(<PostArticle post={post} locale="en" />);
+    expect((await axe(container)).violations).toEqual([]);
+  });
+
+  it('has no axe violations with photos that open the lightbox', async () => {
+    const { container } = render(<PostArticle post={post} locale="de" onOpenImage={vi.fn()} />);
+    expect((await axe(container)).violations).toEqual([]);
+  });
+
+  it('links the title heading to the post', () => {
+    render(<PostArticle post={post} locale="de" />);
+    const heading = screen.getByRole('heading', { level: 2, name: 'Yosemite 7: Valley Floor' });
+    expect(within(heading).getByRole('link').getAttribute('href')).toBe('/de/posts/yosemite-7');
+  });
+
+  it('lists the tags under a label', () => {
+    render(<PostArticle post={post} locale="en" />);
+    const tags = screen.getByRole('list', { name: 'Tags' });
+    expect(within(tags).getAllByRole('link').map(link => link.textContent)).toEqual(['Yosemite', 'waterfalls']);
+  });
+
+  it('describes every photo, falling back to the post title', () => {
+    render(<PostArticle post={post} locale="en" />);
+    // The landscape photo is the hero
+    expect(screen.getAllByRole('img').map(img => img.getAttribute('alt'))).toEqual([
+      'Photo 2 of 2 from “Yosemite 7: Valley Floor”',
+      'Lower Yosemite Fall',
+      'Photo 2 of 2 from “Yosemite 7: Valley Floor”',
+    ]);
+    expect(screen.queryAllByRole('button')).toEqual([]);
+  });
+
+  it('makes the photos buttons named after them when they open the lightbox', () => {
+    const onOpenImage = vi.fn();
+    render(<PostArticle post={post} locale="en" onOpenImage={onOpenImage} />);
+    const buttons = screen.getAllByRole('button');
+    expect(buttons.map(button => button.getAttribute('aria-haspopup'))).toEqual(['dialog', 'dialog']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Photo 2 of 2 from “Yosemite 7: Valley Floor”' }));
+    expect(onOpenImage).toHaveBeenCalledWith(1);
+  });
+
+  it('keeps a photo open while it has keyboard focus', () => {
+    const onCollapseImage = vi.fn();
+    const onExpandImage = vi.fn();
+    render(<PostArticle post={post} locale="en" onOpenImage={vi.fn()} onExpandImage={onExpandImage} onCollapseImage={onCollapseImage} />);
+    const [button] = screen.getAllByRole('button');
+    button.focus();
+    expect(onExpandImage).toHaveBeenCalledWith(button.parentElement);
+    fireEvent.mouseLeave(button.parentElement!);
+    expect(onCollapseImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+import Link from 'next/link';
+import JournalImage from '@/components/JournalImage';
+import PostContent from '@/components/PostContent';
+import TagList from '@/components/TagList';
+import { Locale, localizePath } from '@/lib/i18n';
+import { clearPlaceholder, findFeaturedImage, getImageAlt, IMAGE_SIZES } from '@/lib/images';
+import { BlogPostData, formatDate, getContrastColor, getPostSlug } from '@/lib/posts';
+
+interface PostArticleProps {
+  post: BlogPostData;
+  locale: Locale;
+  // Shown before the tags (the feed's "New" badge) and after them (the share button)
+  badge?: React.ReactNode;
+  actions?: React.ReactNode;
+  // Makes the photos buttons; the feed opens them in the lightbox
+  onOpenImage?: (imageIndex: number) => void;
+  onExpandImage?: (item: HTMLElement) => void;
+  onCollapseImage?: (item: HTMLElement) => void;
+}
+
+// An entry as the feed shows it: hero photo with the title, tags, text and the photo
+// grid. Also the live preview in /admin, so both always look the same. The grid rows
+// are sized by the caller (see lib/masonry.ts).
+export default function PostArticle({
+  post,
+  locale,
+  badge,
+  actions,
+  onOpenImage,
+  onExpandImage,
+  onCollapseImage,
+}: PostArticleProps) {
+  const featuredImage = findFeaturedImage(post);
+  const slug = getPostSlug(post);
+
+  return (
+    <>
+      {/* Featured Image with Title Overlay */}
+      {featuredImage && (
+        <div className="mx-auto mb-8" style={{ maxWidth: '80%' }}>
+          <div className="relative overflow-hidden rounded-sm">
+            <JournalImage
+              image={featuredImage}
+              alt={getImageAlt(featuredImage, post, locale)}
+              sizes={IMAGE_SIZES.hero}
+              className="w-full h-[600px] object-cover"
+              style={{ objectPosition: 'center' }}
+              onLoad={clearPlaceholder}
+            />
+
+            {/* Date Badge - Top Right */}
+            <div className={`absolute top-4 right-4 ${getContrastColor(featuredImage.src)} text-white text-xs font-medium px-3 py-1.5 rounded-full shadow-lg`}>
+              {formatDate(post.date, locale)}
+            </div>
+
+            {/* Title Overlay with Extended Gradient */}
+            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-white via-white/98 via-30% to-transparent pt-32 pb-6 px-6">
+              <h2 className="text-3xl lg:text-4xl font-light text-neutral-800 leading-tight font-serif">
+                <Link href={localizePath(locale, `/posts/${slug}`)} className="hover:text-neutral-600 transition-colors">
+                  {post.title}
+                </Link>
+              </h2>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Content */}
+      <div className="max-w-3xl mx-auto px-6 lg:px-0">
+        {/* Tags and Share Button */}
+        <div className="flex items-start gap-4 mb-4">
+          {badge}
+          <TagList tags={post.tags ?? []} locale={locale} />
+          {actions}
+        </div>
+
+        <PostContent post={post} />
+
+        {/* Masonry Grid for All Images */}
+        {post.images && post.images.length > 0 && (
+          <div className="masonry-grid grid grid-cols-1 md:grid-cols-2 gap-4 mt-8">
+            {post.images.map((image, imgIndex) => {
+              const photo = (
+                <JournalImage
+                  image={image}
+                  alt={getImageAlt(image, post, locale)}
+                  sizes={IMAGE_SIZES.tile}
+                  className="w-full h-auto object-cover rounded-sm shadow-sm"
+                  onLoad={clearPlaceholder}
+                />
+              );
+
+              return (
+                <div
+                  key={imgIndex}
+                  data-image-index={imgIndex}
+                  className="masonry-item relative"
+                  onMouseEnter={(e) => onExpandImage?.(e.currentTarget)}
+                  onMouseLeave={(e) => {
+                    // Keep the photo open while it has keyboard focus
+                    if (!e.currentTarget.contains(document.activeElement)) onCollapseImage?.(e.currentTarget);
+                  }}
+                  onFocus={(e) => onExpandImage?.(e.currentTarget)}
+                  onBlur={(e) => {
+                    if (!e.currentTarget.matches(':hover')) onCollapseImage?.(e.currentTarget);
+                  }}
+                >
+                  {onOpenImage ? (
+                    <button
+                      type="button"
+                      onClick={() => onOpenImage(imgIndex)}
+                      aria-haspopup="dialog"
+                      className="block w-full rounded-sm cursor-zoom-in focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-4 focus-visible:outline-neutral-900"
+                    >
+                      {photo}
+                    </button>
+                  ) : photo}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
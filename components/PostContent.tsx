@@ -0,0 +1,81 @@
+import { memo, type ReactNode } from 'react';
+import { HtmlNode, sanitizeHtml } from '@/lib/html';
+import { BlogPostData } from '@/lib/posts';
+import {
+  Code,
+  Divider,
+  Heading,
+  List,
+  ListItem,
+  Paragraph,
+  Preformatted,
+  Quote,
+  TextLink,
+} from './Typography';
+
+// Map sanitized nodes to our typography components. Only tags that survive
+// `sanitizeHtml` can show up here; anything else renders its children.
+const renderNodes = (nodes: HtmlNode[]): ReactNode[] => {
+  return nodes.map((node, index) => {
+    if (node.type === 'text') return node.value;
+
+    const children = renderNodes(node.children);
+    switch (node.tag) {
+      case 'p':
+        return <Paragraph key={index}>{children}</Paragraph>;
+      case 'h2':
+        return <Heading key={index} level={2}>{children}</Heading>;
+      case 'h3':
+        return <Heading key={index} level={3}>{children}</Heading>;
+      case 'h4':
+        return <Heading key={index} level={4}>{children}</Heading>;
+      case 'ul':
+        return <List key={index}>{children}</List>;
+      case 'ol':
+        return <List key={index} ordered>{children}</List>;
+      case 'li':
+        return <ListItem key={index}>{children}</ListItem>;
+      case 'blockquote':
+        return <Quote key={index}>{children}</Quote>;
+      case 'a':
+        return <TextLink key={index} href={node.attrs.href}>{children}</TextLink>;
+      case 'code':
+        return <Code key={index}>{children}</Code>;
+      case 'pre':
+        return <Preformatted key={index}>{children}</Preformatted>;
+      case 'hr':
+        return <Divider key={index} />;
+      case 'br':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index}>{children}</strong>;
+      case 'em':
+        return <em key={index}>{children}</em>;
+      case 'u':
+        return <u key={index}>{children}</u>;
+      case 's':
+        return <s key={index}>{children}</s>;
+      default:
+        return children;
+    }
+  });
+};
+
+// Memoized so the feed doesn't re-sanitize every post on each scroll-driven render
+function PostContent({ post }: { post: BlogPostData }) {
+  const nodes = post.content_html ? sanitizeHtml(post.content_html) : [];
+
+  return (
+    <div className="prose prose-lg max-w-none mb-8">
+      {nodes.length > 0 ? (
+        renderNodes(nodes)
+      ) : (
+        <p className="text-neutral-700 leading-relaxed whitespace-pre-line">
+          {post.content}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default memo(PostContent);
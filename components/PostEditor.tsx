@@ -0,0 +1,243 @@
+'use client';
+
+import { useActionState, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import JournalImage from '@/components/JournalImage';
+import PostArticle from '@/components/PostArticle';
+import { FormState, savePost } from '@/app/admin/actions';
+import { IMAGE_SIZES } from '@/lib/images';
+import { setRowSpan } from '@/lib/masonry';
+import { BlogPostData, BlogPostImage } from '@/lib/posts';
+
+export interface PostEditorValues {
+  // Empty for a new post
+  originalUrl: string;
+  slug?: string;
+  title: string;
+  date: string;
+  format: 'html' | 'text';
+  body: string;
+  images: BlogPostImage[];
+  draft: boolean;
+  publishAt: string;
+}
+
+interface PostEditorProps {
+  initial: PostEditorValues;
+}
+
+const isHttpUrl = (value: string): boolean => /^https?:\/\/\S+$/.test(value);
+
+const inputClass =
+  'mt-1 block w-full rounded-sm border border-neutral-300 bg-white px-3 py-2 text-neutral-900 focus:border-neutral-900 focus:outline-none';
+
+// The entry form with a live preview beside it. The preview is the feed's own
+// article (PostArticle), so what you see is what the site will show.
+export default function PostEditor({ initial }: PostEditorProps) {
+  const [state, formAction, pending] = useActionState<FormState, FormData>(savePost, { errors: [] });
+  const [title, setTitle] = useState(initial.title);
+  const [date, setDate] = useState(initial.date);
+  const [format, setFormat] = useState(initial.format);
+  const [body, setBody] = useState(initial.body);
+  const [images, setImages] = useState(initial.images);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const updateImage = (index: number, changes: Partial<BlogPostImage>) => {
+    setImages(current => current.map((image, i) => (i === index ? { ...image, ...changes } : image)));
+  };
+
+  const moveImage = (index: number, offset: number) => {
+    setImages(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeImage = (index: number) => {
+    setImages(current => current.filter((_, i) => i !== index));
+  };
+
+  // Rendering every keystroke is fine for the form; the preview can lag behind
+  const preview = useDeferredValue(useMemo<BlogPostData>(() => ({
+    url: initial.originalUrl,
+    slug: initial.slug,
+    title: title || 'Untitled',
+    date: Number.isNaN(new Date(date).getTime()) ? new Date().toISOString() : date,
+    content: format === 'text' ? body : '',
+    content_html: format === 'html' ? body : undefined,
+    // Unfinished rows would break the image loader
+    images: images.filter(image => isHttpUrl(image.src)),
+  }), [initial.originalUrl, initial.slug, title, date, format, body, images]));
+
+  // Lay out the preview's photo grid like the feed does, again as photos load
+  useEffect(() => {
+    const grid = previewRef.current?.querySelector<HTMLElement>('.masonry-grid');
+    if (!grid) return;
+
+    const items = Array.from(grid.querySelectorAll<HTMLElement>('.masonry-item'));
+    const layout = () => items.forEach(item => setRowSpan(item, grid));
+    layout();
+    grid.addEventListener('load', layout, true);
+    window.addEventListener('resize', layout);
+    return () => {
+      grid.removeEventListener('load', layout, true);
+      window.removeEventListener('resize', layout);
+    };
+  }, [preview]);
+
+  return (
+    <div className="grid gap-10 xl:grid-cols-2">
+      <form action={formAction} className="space-y-6">
+        <input type="hidden" name="originalUrl" value={initial.originalUrl} />
+        <input type="hidden" name="images" value={JSON.stringify(images)} />
+
+        {state.errors.length > 0 && (
+          <div role="alert" className="rounded-sm border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            <p className="font-medium">Not saved:</p>
+            <ul className="mt-1 list-disc pl-5">
+              {state.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <label className="block text-sm text-neutral-600">
+          Title
+          <input name="title" value={title} onChange={e => setTitle(e.target.value)} required className={inputClass} />
+        </label>
+
+        <label className="block text-sm text-neutral-600">
+          Date
+          <input
+            name="date"
+            value={date}
+            onChange={e => setDate(e.target.value)}
+            required
+            placeholder="2023-04-11T02:00:00+02:00"
+            aria-describedby="date-hint"
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <span id="date-hint" className="mt-1 block text-xs text-neutral-400">
+            With the time zone of the place, like the imported entries
+          </span>
+        </label>
+
+        <fieldset>
+          <legend className="text-sm text-neutral-600">Text</legend>
+          <div className="mt-1 mb-2 flex gap-4 text-sm">
+            {(['text', 'html'] as const).map(option => (
+              <label key={option} className="flex items-center gap-1.5">
+                <input
+                  type="radio"
+                  name="format"
+                  value={option}
+                  checked={format === option}
+                  onChange={() => setFormat(option)}
+                />
+                {option === 'text' ? 'Plain text' : 'HTML'}
+              </label>
+            ))}
+          </div>
+          <textarea
+            name="body"
+            aria-label="Text"
+            value={body}
+            onChange={e => setBody(e.target.value)}
+            rows={16}
+            className={`${inputClass} ${format === 'html' ? 'font-mono text-sm' : ''}`}
+          />
+        </fieldset>
+
+        <fieldset>
+          <legend className="text-sm text-neutral-600">Photos</legend>
+          <ol className="mt-2 space-y-4">
+            {images.map((image, index) => (
+              <li key={index} className="flex gap-3 rounded-sm border border-neutral-200 bg-white p-3">
+                <div className="w-20 shrink-0">
+                  {isHttpUrl(image.src) && (
+                    <JournalImage image={image} alt="" sizes={IMAGE_SIZES.thumbnail} className="w-20 h-20 object-cover rounded-sm" />
+                  )}
+                </div>
+                <div className="flex-1 space-y-2 text-xs text-neutral-500">
+                  <label className="block">
+                    URL
+                    <input
+                      value={image.src}
+                      onChange={e => updateImage(index, { src: e.target.value.trim() })}
+                      className={`${inputClass} text-sm`}
+                    />
+                  </label>
+                  <label className="block">
+                    Alt text
+                    <input
+                      value={image.alt}
+                      onChange={e => updateImage(index, { alt: e.target.value })}
+                      placeholder="What the photo shows"
+                      className={`${inputClass} text-sm`}
+                    />
+                  </label>
+                  <div className="flex gap-3">
+                    <button type="button" onClick={() => moveImage(index, -1)} disabled={index === 0} className="hover:text-neutral-900 disabled:opacity-30">
+                      Move up
+                    </button>
+                    <button type="button" onClick={() => moveImage(index, 1)} disabled={index === images.length - 1} className="hover:text-neutral-900 disabled:opacity-30">
+                      Move down
+                    </button>
+                    <button type="button" onClick={() => removeImage(index)} className="text-red-700 hover:text-red-900">
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+          <button
+            type="button"
+            onClick={() => setImages(current => [...current, { src: '', alt: '' }])}
+            className="mt-3 text-sm text-neutral-600 underline hover:text-neutral-900"
+          >
+            Add photo
+          </button>
+        </fieldset>
+
+        <fieldset className="space-y-3">
+          <legend className="text-sm text-neutral-600">Publishing</legend>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" name="draft" defaultChecked={initial.draft} />
+            Draft (not on the site)
+          </label>
+          <label className="block text-sm text-neutral-600">
+            Publish from
+            <input
+              name="publish_at"
+              defaultValue={initial.publishAt}
+              placeholder="Right away"
+              aria-describedby="publish-hint"
+              className={`${inputClass} font-mono text-sm`}
+            />
+            <span id="publish-hint" className="mt-1 block text-xs text-neutral-400">
+              A date like the one above. The entry appears on the site within ten minutes after it.
+            </span>
+          </label>
+        </fieldset>
+
+        <button
+          type="submit"
+          disabled={pending}
+          className="rounded-sm bg-neutral-900 px-5 py-2 text-sm text-white hover:bg-neutral-700 disabled:opacity-50 transition-colors"
+        >
+          {pending ? 'Saving…' : 'Save'}
+        </button>
+      </form>
+
+      <section aria-label="Preview" className="bg-white rounded-sm border border-neutral-200 py-10 overflow-hidden">
+        <div ref={previewRef}>
+          <article>
+            <PostArticle post={preview} locale="en" />
+          </article>
+        </div>
+      </section>
+    </div>
+  );
+}
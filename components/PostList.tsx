@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import JournalImage from '@/components/JournalImage';
+import { Locale, localizePath } from '@/lib/i18n';
+import { findFeaturedImage, IMAGE_SIZES } from '@/lib/images';
+import { getMessages } from '@/lib/messages';
+import { BlogPostData, formatDate, getPostSlug } from '@/lib/posts';
+import { parsePostTitle } from '@/lib/trips';
+
+interface PostListProps {
+  posts: BlogPostData[];
+  locale: Locale;
+}
+
+// Compact list of entries with a thumbnail, used by the trip and tag pages
+export default function PostList({ posts, locale }: PostListProps) {
+  const messages = getMessages(locale);
+
+  return (
+    <ol className="max-w-3xl mx-auto px-6 py-12 lg:py-16 divide-y divide-neutral-100">
+      {posts.map(post => {
+        const { day, title } = parsePostTitle(post.title);
+        const thumbnail = findFeaturedImage(post);
+
+        return (
+          <li key={post.url}>
+            <Link
+              href={localizePath(locale, `/posts/${getPostSlug(post)}`)}
+              className="group flex items-center gap-6 py-5"
+            >
+              {thumbnail ? (
+                <JournalImage
+                  image={thumbnail}
+                  alt=""
+                  sizes={IMAGE_SIZES.thumbnail}
+                  className="w-20 h-20 flex-none object-cover rounded-sm"
+                />
+              ) : (
+                <div className="w-20 h-20 flex-none rounded-sm bg-neutral-100" />
+              )}
+              <div className="min-w-0">
+                <p className="text-xs uppercase tracking-wide text-neutral-400">
+                  {day !== null && <>{messages.common.day(day)} · </>}
+                  <time dateTime={post.date}>{formatDate(post.date, locale)}</time>
+                </p>
+                <h2 className="font-serif text-xl text-neutral-800 group-hover:text-neutral-500 transition-colors">
+                  {title}
+                </h2>
+                <p className="text-sm text-neutral-400 mt-1">
+                  {messages.common.photos(post.images?.length ?? 0)}
+                </p>
+              </div>
+            </Link>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
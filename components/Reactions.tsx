@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { REACTIONS, Reactions as ReactionCounts, toggleReaction } from '@/lib/comments';
+import { Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+
+interface ReactionsProps {
+  slug: string;
+  reactions: ReactionCounts;
+  onChange: (reactions: ReactionCounts) => void;
+  locale: Locale;
+}
+
+// The row of emoji under an entry; a second click takes the reaction back
+export default function Reactions({ slug, reactions, onChange, locale }: ReactionsProps) {
+  const messages = getMessages(locale).comments;
+  const [busy, setBusy] = useState(false);
+
+  const toggle = async (emoji: string) => {
+    setBusy(true);
+    try {
+      onChange(await toggleReaction(slug, emoji));
+    } catch (error) {
+      console.error('Reacting failed:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <ul aria-label={messages.reactions} className="flex flex-wrap gap-2">
+      {REACTIONS.map(emoji => {
+        const mine = reactions.mine.includes(emoji);
+        const count = reactions.counts[emoji] ?? 0;
+        return (
+          <li key={emoji}>
+            <button
+              type="button"
+              onClick={() => toggle(emoji)}
+              disabled={busy}
+              aria-pressed={mine}
+              aria-label={messages.react(emoji)}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-full border text-sm transition-colors disabled:opacity-60 ${
+                mine
+                  ? 'border-neutral-900 bg-neutral-50 text-neutral-900'
+                  : 'border-neutral-200 text-neutral-500 hover:border-neutral-400'
+              }`}
+            >
+              <span aria-hidden>{emoji}</span>
+              {count > 0 && <span className="tabular-nums">{count}</span>}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getIntlLocale, Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import {
+  formatBytes,
+  getStorageUsage,
+  getTripSavedAt,
+  isOfflineSupported,
+  removeSavedTrip,
+  saveTrip,
+} from '@/lib/offline';
+
+interface SaveTripOfflineProps {
+  tripSlug: string;
+  locale: Locale;
+  // The trip's page and its entries' pages, and its photos in the size to keep
+  pages: string[];
+  photos: string[];
+}
+
+type SaveState =
+  | { status: 'idle' }
+  | { status: 'saving'; done: number; total: number }
+  | { status: 'saved'; savedAt: string }
+  | { status: 'failed' };
+
+// Saves a whole trip for reading without a connection, with how much space is in use.
+// Hidden where the browser has no service workers.
+export default function SaveTripOffline({ tripSlug, locale, pages, photos }: SaveTripOfflineProps) {
+  const messages = getMessages(locale).offline;
+  const [supported, setSupported] = useState(false);
+  const [state, setState] = useState<SaveState>({ status: 'idle' });
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  const refreshStorage = () => getStorageUsage().then(setStorage);
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+    setSupported(true);
+    getTripSavedAt(tripSlug).then(savedAt => setState(savedAt ? { status: 'saved', savedAt } : { status: 'idle' }));
+    refreshStorage();
+  }, [tripSlug]);
+
+  if (!supported) return null;
+
+  const save = async () => {
+    setState({ status: 'saving', done: 0, total: pages.length + photos.length });
+    try {
+      const savedAt = await saveTrip(tripSlug, pages, photos, (done, total) => setState({ status: 'saving', done, total }));
+      setState({ status: 'saved', savedAt });
+    } catch (error) {
+      console.error('Saving for offline reading failed:', error);
+      setState({ status: 'failed' });
+    }
+    refreshStorage();
+  };
+
+  const remove = async () => {
+    await removeSavedTrip(tripSlug);
+    setState({ status: 'idle' });
+    refreshStorage();
+  };
+
+  const buttonClass = 'underline decoration-neutral-300 underline-offset-4 hover:text-neutral-900 transition-colors';
+
+  return (
+    <div className="mt-6 text-sm text-neutral-500 space-y-1">
+      <div>
+        {state.status === 'saving' ? (
+          <p>
+            {messages.saving(state.done, state.total)}
+            <progress value={state.done} max={state.total} className="block w-full max-w-xs mt-2 h-1 accent-neutral-900" />
+          </p>
+        ) : state.status === 'saved' ? (
+          <p role="status">
+            {messages.saved(new Date(state.savedAt).toLocaleDateString(getIntlLocale(locale)))} ·{' '}
+            <button type="button" onClick={remove} className={buttonClass}>{messages.remove}</button>
+          </p>
+        ) : (
+          <p>
+            <button type="button" onClick={save} className={buttonClass}>{messages.save}</button>{' '}
+            <span className="text-neutral-400">({messages.contents(pages.length, photos.length)})</span>
+            {state.status === 'failed' && <span role="alert" className="block text-red-700 mt-1">{messages.failed}</span>}
+          </p>
+        )}
+      </div>
+      {storage && (
+        <p className="text-xs text-neutral-400">
+          {messages.storage(formatBytes(storage.usage, locale), formatBytes(storage.quota, locale))}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { formatDate } from '@/lib/posts';
+import { search, SearchIndex } from '@/lib/search';
+
+interface SearchBoxProps {
+  onSelect: (slug: string) => void;
+  locale: Locale;
+}
+
+// Keep the query in `?q=` so searches can be shared, without touching the hash
+const updateQueryParam = (query: string) => {
+  const url = new URL(window.location.href);
+  if (query) {
+    url.searchParams.set('q', query);
+  } else {
+    url.searchParams.delete('q');
+  }
+  window.history.replaceState(null, '', url);
+};
+
+export default function SearchBox({ onSelect, locale }: SearchBoxProps) {
+  const messages = getMessages(locale).search;
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeResult, setActiveResult] = useState(0);
+  const indexRequestedRef = useRef(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const deferredQuery = useDeferredValue(query);
+
+  // The index is a few hundred KB, so only fetch it once someone wants to search
+  const loadIndex = () => {
+    if (indexRequestedRef.current) return;
+    indexRequestedRef.current = true;
+
+    fetch(`/${locale}/search-index.json`)
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to load search index');
+        return res.json();
+      })
+      .then(data => setIndex(data))
+      .catch(err => {
+        console.error('Error:', err);
+        setError(err.message);
+        indexRequestedRef.current = false;
+      });
+  };
+
+  // Restore a shared search from the URL
+  useEffect(() => {
+    const initialQuery = new URLSearchParams(window.location.search).get('q');
+    if (initialQuery) {
+      setQuery(initialQuery);
+      setIsOpen(true);
+      loadIndex();
+    }
+  }, []);
+
+  // Close the results when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    if (!index || !deferredQuery.trim()) return [];
+    return search(index, deferredQuery);
+  }, [index, deferredQuery]);
+
+  const handleChange = (value: string) => {
+    setQuery(value);
+    setActiveResult(0);
+    setIsOpen(true);
+    updateQueryParam(value.trim());
+  };
+
+  const selectResult = (slug: string) => {
+    setIsOpen(false);
+    onSelect(slug);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveResult(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveResult(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter' && results[activeResult]) {
+      e.preventDefault();
+      selectResult(results[activeResult].slug);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showResults = isOpen && query.trim() !== '';
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-md">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => {
+          loadIndex();
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder={messages.placeholder}
+        aria-label={messages.label}
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="search-results"
+        aria-activedescendant={showResults && results[activeResult] ? `search-result-${activeResult}` : undefined}
+        className="w-full border-b border-neutral-200 bg-transparent py-2 text-sm text-neutral-900 placeholder:text-neutral-400 focus:border-neutral-900 focus:outline-none transition-colors"
+      />
+
+      {showResults && (
+        <div className="absolute left-0 right-0 top-full mt-2 z-40 max-h-[60vh] overflow-y-auto rounded-sm bg-white shadow-lg border border-neutral-100">
+          {error ? (
+            <p className="p-4 text-sm text-red-600">{error}</p>
+          ) : !index ? (
+            <p className="p-4 text-sm text-neutral-400">{messages.loading}</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-neutral-400">{messages.noResults(query.trim())}</p>
+          ) : (
+            <ul id="search-results" role="listbox" aria-label={messages.results}>
+              {results.map((result, resultIndex) => (
+                <li
+                  key={result.slug}
+                  id={`search-result-${resultIndex}`}
+                  role="option"
+                  aria-selected={resultIndex === activeResult}
+                >
+                  <button
+                    type="button"
+                    onClick={() => selectResult(result.slug)}
+                    onMouseEnter={() => setActiveResult(resultIndex)}
+                    className={`block w-full text-left px-4 py-3 transition-colors ${
+                      resultIndex === activeResult ? 'bg-neutral-50' : ''
+                    }`}
+                  >
+                    <span className="block text-xs text-neutral-400">{formatDate(result.date, locale)}</span>
+                    <span className="block font-serif text-neutral-900">{result.title}</span>
+                    <span className="block text-sm text-neutral-500 mt-1 leading-snug">
+                      {result.snippet.map((part, partIndex) =>
+                        part.highlight ? (
+                          <mark key={partIndex} className="bg-yellow-100 text-neutral-900 rounded-sm px-0.5">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={partIndex}>{part.text}</span>
+                        )
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
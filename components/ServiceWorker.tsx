@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js for offline reading. Not in development, where it would keep
+// serving stale chunks of the dev server.
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,37 @@
+import { Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { SortOrder } from '@/lib/reading';
+
+interface SortOrderToggleProps {
+  order: SortOrder;
+  onChange: (order: SortOrder) => void;
+  locale: Locale;
+}
+
+const OPTIONS: SortOrder[] = ['oldest', 'newest'];
+
+export default function SortOrderToggle({ order, onChange, locale }: SortOrderToggleProps) {
+  const messages = getMessages(locale).sortOrder;
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm transition-colors ${
+      active
+        ? 'bg-neutral-900 text-white'
+        : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100'
+    }`;
+
+  return (
+    <div role="group" aria-label={messages.label} className="flex flex-wrap items-center gap-2">
+      {OPTIONS.map(option => (
+        <button
+          key={option}
+          className={buttonClass(order === option)}
+          aria-pressed={order === option}
+          onClick={() => onChange(option)}
+        >
+          {messages[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
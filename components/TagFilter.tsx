@@ -0,0 +1,46 @@
+import { Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { TagSummary } from '@/lib/tags';
+
+interface TagFilterProps {
+  tags: TagSummary[];
+  selectedTag: string | null;
+  onSelect: (slug: string | null) => void;
+  locale: Locale;
+}
+
+// Narrows the feed to one tag; selecting the active tag again clears the filter
+export default function TagFilter({ tags, selectedTag, onSelect, locale }: TagFilterProps) {
+  if (tags.length === 0) return null;
+  const messages = getMessages(locale).tagFilter;
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm transition-colors ${
+      active
+        ? 'bg-neutral-900 text-white'
+        : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100'
+    }`;
+
+  return (
+    <div role="group" aria-label={messages.label} className="flex flex-wrap items-center gap-2">
+      <button
+        className={buttonClass(selectedTag === null)}
+        aria-pressed={selectedTag === null}
+        onClick={() => onSelect(null)}
+      >
+        {messages.all}
+      </button>
+      {tags.map(tag => (
+        <button
+          key={tag.slug}
+          className={buttonClass(selectedTag === tag.slug)}
+          aria-pressed={selectedTag === tag.slug}
+          onClick={() => onSelect(selectedTag === tag.slug ? null : tag.slug)}
+        >
+          {tag.name}
+          <span className="ml-1.5 text-xs opacity-60">{tag.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
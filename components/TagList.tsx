@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import { Locale, localizePath } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { getTagSlug } from '@/lib/tags';
+
+interface TagListProps {
+  tags: string[];
+  currentTag?: string | null;
+  locale: Locale;
+}
+
+// Tags of a post, each linking to its /tags page
+export default function TagList({ tags, currentTag = null, locale }: TagListProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul aria-label={getMessages(locale).common.tags} className="flex flex-wrap gap-2">
+      {tags.map(tag => {
+        const slug = getTagSlug(tag);
+        return (
+          <li key={slug}>
+            <Link
+              href={localizePath(locale, `/tags/${slug}`)}
+              className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                slug === currentTag
+                  ? 'border-neutral-900 text-neutral-900'
+                  : 'border-neutral-200 text-neutral-500 hover:text-neutral-900 hover:border-neutral-400'
+              }`}
+            >
+              {tag}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { LatLon } from '@/lib/geo';
+import { Locale, localizePath } from '@/lib/i18n';
+import { MapMarker, MapTrip } from '@/lib/map';
+import { getMessages } from '@/lib/messages';
+import { formatDate } from '@/lib/posts';
+
+interface TrailMapProps {
+  trips: MapTrip[];
+  locale: Locale;
+}
+
+interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MAP_WIDTH = 1000;
+const PADDING = 40;
+const MIN_ZOOM_WIDTH = 40;
+
+// Equirectangular projection fitted to the trip, scaled by cos(latitude) so distances
+// look right at the trip's latitude. Good enough at the scale of one trail.
+const createProjection = (points: LatLon[]) => {
+  const lats = points.map(([lat]) => lat);
+  const lons = points.map(([, lon]) => lon);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  const spanX = Math.max((maxLon - minLon) * lonScale, 0.01);
+  const spanY = Math.max(maxLat - minLat, 0.01);
+  const scale = (MAP_WIDTH - PADDING * 2) / Math.max(spanX, spanY);
+  const height = spanY * scale + PADDING * 2;
+  const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+
+  return {
+    height,
+    project: ([lat, lon]: LatLon) => ({
+      x: offsetX + (lon - minLon) * lonScale * scale,
+      y: PADDING + (maxLat - lat) * scale,
+    }),
+  };
+};
+
+export default function TrailMap({ trips, locale }: TrailMapProps) {
+  const messages = getMessages(locale);
+  const [tripSlug, setTripSlug] = useState(trips[0]?.slug ?? null);
+  const [selected, setSelected] = useState<MapMarker | null>(null);
+  const [view, setView] = useState<ViewBox | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number; view: ViewBox; pixelsPerUnit: number } | null>(null);
+  const wheelZoomRef = useRef<(e: WheelEvent) => void>(() => {});
+
+  const trip = trips.find(candidate => candidate.slug === tripSlug) ?? null;
+
+  // React's onWheel is passive, so the page would scroll along while zooming
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      wheelZoomRef.current(e);
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [tripSlug]);
+
+  const projected = useMemo(() => {
+    if (!trip) return null;
+    const { project, height } = createProjection([
+      ...trip.route,
+      ...trip.markers.map(({ lat, lon }): LatLon => [lat, lon]),
+    ]);
+
+    return {
+      height,
+      route: trip.route.map(point => project(point)),
+      borders: trip.borders.map(border => ({ ...border, ...project(border.point) })),
+      markers: trip.markers.map(marker => ({ marker, ...project([marker.lat, marker.lon]) })),
+    };
+  }, [trip]);
+
+  if (!trip || !projected) {
+    return <p className="text-neutral-500">{messages.map.empty}</p>;
+  }
+
+  const fullView: ViewBox = { x: 0, y: 0, width: MAP_WIDTH, height: projected.height };
+  const currentView = view ?? fullView;
+  // Keep markers and lines the same size on screen while zooming
+  const unit = currentView.width / MAP_WIDTH;
+
+  const selectTrip = (slug: string) => {
+    setTripSlug(slug);
+    setSelected(null);
+    setView(null);
+  };
+
+  // Convert a pointer position to map coordinates
+  const toMapPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    const { x, y } = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x, y };
+  };
+
+  const zoom = (factor: number, center?: { x: number; y: number }) => {
+    const width = Math.min(Math.max(currentView.width * factor, MIN_ZOOM_WIDTH), MAP_WIDTH);
+    const height = (width / MAP_WIDTH) * projected.height;
+    const focus = center ?? {
+      x: currentView.x + currentView.width / 2,
+      y: currentView.y + currentView.height / 2,
+    };
+    // Keep the focus point under the cursor
+    const ratioX = (focus.x - currentView.x) / currentView.width;
+    const ratioY = (focus.y - currentView.y) / currentView.height;
+    setView({
+      x: focus.x - ratioX * width,
+      y: focus.y - ratioY * height,
+      width,
+      height,
+    });
+  };
+
+  wheelZoomRef.current = (e: WheelEvent) => {
+    zoom(e.deltaY > 0 ? 1.2 : 1 / 1.2, toMapPoint(e.clientX, e.clientY));
+  };
+
+  return (
+    <div>
+      {/* Trip tabs */}
+      {trips.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-6" role="tablist" aria-label={messages.common.trips}>
+          {trips.map(candidate => (
+            <button
+              key={candidate.slug}
+              role="tab"
+              aria-selected={candidate.slug === trip.slug}
+              onClick={() => selectTrip(candidate.slug)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                candidate.slug === trip.slug
+                  ? 'bg-neutral-900 text-white'
+                  : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100'
+              }`}
+            >
+              {candidate.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="relative border border-neutral-100 rounded-sm bg-neutral-50 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`${currentView.x} ${currentView.y} ${currentView.width} ${currentView.height}`}
+          className="w-full h-[75vh] touch-none select-none cursor-grab active:cursor-grabbing"
+          role="img"
+          aria-label={messages.map.label(trip.name, trip.markers.length)}
+          onPointerDown={(e) => {
+            if ((e.target as Element).closest('[data-marker]')) return;
+            // Pixels per map unit, fixed for the duration of the drag
+            const pixelsPerUnit = e.currentTarget.getScreenCTM()?.a ?? 1;
+            dragRef.current = { x: e.clientX, y: e.clientY, view: currentView, pixelsPerUnit };
+            e.currentTarget.setPointerCapture(e.pointerId);
+          }}
+          onPointerMove={(e) => {
+            const drag = dragRef.current;
+            if (!drag) return;
+            setView({
+              ...drag.view,
+              x: drag.view.x - (e.clientX - drag.x) / drag.pixelsPerUnit,
+              y: drag.view.y - (e.clientY - drag.y) / drag.pixelsPerUnit,
+            });
+          }}
+          onPointerUp={() => {
+            dragRef.current = null;
+          }}
+        >
+          {/* Trail / route */}
+          <polyline
+            points={projected.route.map(({ x, y }) => `${x},${y}`).join(' ')}
+            fill="none"
+            stroke="#a3a3a3"
+            strokeWidth={3 * unit}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+
+          {/* State borders along the trail */}
+          {projected.borders.map(border => (
+            <g key={border.abbr} transform={`translate(${border.x}, ${border.y})`}>
+              <title>{messages.map.entering(border.name)}</title>
+              <line x1={-10 * unit} x2={10 * unit} y1={0} y2={0} stroke="#525252" strokeWidth={1.5 * unit} />
+              <text
+                x={14 * unit}
+                y={4 * unit}
+                fontSize={12 * unit}
+                className="fill-neutral-500"
+              >
+                {border.abbr}
+              </text>
+            </g>
+          ))}
+
+          {/* Posts */}
+          {projected.markers.map(({ marker, x, y }) => {
+            const isSelected = selected?.slug === marker.slug;
+            return (
+              <circle
+                key={marker.slug}
+                data-marker
+                cx={x}
+                cy={y}
+                r={(isSelected ? 8 : 5) * unit}
+                strokeWidth={1.5 * unit}
+                className={`cursor-pointer transition-colors ${
+                  isSelected ? 'fill-neutral-900 stroke-white' : 'fill-white stroke-neutral-900 hover:fill-neutral-900'
+                }`}
+                tabIndex={0}
+                role="button"
+                aria-label={`${marker.day !== null ? `${messages.common.day(marker.day)}: ` : ''}${marker.title}`}
+                onClick={() => setSelected(marker)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    setSelected(marker);
+                  }
+                }}
+              />
+            );
+          })}
+        </svg>
+
+        {/* Zoom controls */}
+        <div className="absolute top-4 right-4 flex flex-col bg-white rounded-sm shadow-sm border border-neutral-100">
+          <button onClick={() => zoom(1 / 1.5)} className="w-9 h-9 text-lg text-neutral-700 hover:bg-neutral-50" aria-label={messages.map.zoomIn}>+</button>
+          <button onClick={() => zoom(1.5)} className="w-9 h-9 text-lg text-neutral-700 hover:bg-neutral-50 border-t border-neutral-100" aria-label={messages.map.zoomOut}>−</button>
+          <button onClick={() => setView(null)} className="w-9 h-9 text-xs text-neutral-700 hover:bg-neutral-50 border-t border-neutral-100" aria-label={messages.map.reset}>⤢</button>
+        </div>
+
+        {/* Preview card */}
+        {selected && (
+          <div className="absolute bottom-4 left-4 right-4 sm:right-auto sm:w-80 bg-white rounded-sm shadow-lg overflow-hidden">
+            {selected.image && (
+              <img src={selected.image} alt="" className="w-full h-40 object-cover" />
+            )}
+            <div className="p-4">
+              <p className="text-xs uppercase tracking-wide text-neutral-400">
+                {selected.day !== null && <>{messages.common.day(selected.day)} · </>}
+                {formatDate(selected.date, locale)}
+              </p>
+              <p className="font-serif text-lg text-neutral-900 mt-1">{selected.title}</p>
+              <div className="flex items-center justify-between mt-3">
+                <Link
+                  href={localizePath(locale, `/posts/${selected.slug}`)}
+                  className="text-sm text-neutral-900 underline underline-offset-2"
+                >
+                  {messages.map.readEntry}
+                </Link>
+                <button
+                  onClick={() => setSelected(null)}
+                  className="text-sm text-neutral-400 hover:text-neutral-900"
+                >
+                  {messages.common.close}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-neutral-400 mt-3">
+        {messages.map.hint}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Locale } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { Trail, TrailState } from '@/lib/mileage';
+
+interface TrailProgressProps {
+  trail: Trail;
+  currentMile: number | null;
+  estimated?: boolean;
+  onSelectState: (state: TrailState) => void;
+  locale: Locale;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// The trail artwork lives in public/, so the path is read from there rather than copied
+const TRAIL_SVG = '/appalachian-trail.svg';
+
+export default function TrailProgress({
+  trail,
+  currentMile,
+  estimated = false,
+  onSelectState,
+  locale,
+}: TrailProgressProps) {
+  const [pathData, setPathData] = useState<string | null>(null);
+  const [statePoints, setStatePoints] = useState<Point[]>([]);
+  const [currentPoint, setCurrentPoint] = useState<Point | null>(null);
+  const pathRef = useRef<SVGPathElement | null>(null);
+
+  useEffect(() => {
+    fetch(TRAIL_SVG)
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to load trail');
+        return res.text();
+      })
+      .then(svg => {
+        const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+        setPathData(doc.getElementById('trail-path')?.getAttribute('d') ?? null);
+      })
+      .catch(err => console.error('Error:', err));
+  }, []);
+
+  // The SVG path runs from Georgia to Maine, so a mile maps to a distance along it
+  const pointAtMile = (path: SVGPathElement, mile: number): Point => {
+    const fraction = Math.min(Math.max(mile / trail.length, 0), 1);
+    const { x, y } = path.getPointAtLength(fraction * path.getTotalLength());
+    return { x, y };
+  };
+
+  useLayoutEffect(() => {
+    if (!pathRef.current) return;
+    setStatePoints(trail.states.map(state => pointAtMile(pathRef.current!, state.startMile)));
+  }, [pathData, trail]);
+
+  useLayoutEffect(() => {
+    if (!pathRef.current || currentMile === null) return;
+    setCurrentPoint(pointAtMile(pathRef.current, currentMile));
+  }, [pathData, trail, currentMile]);
+
+  const isVisible = pathData !== null && currentMile !== null;
+
+  return (
+    <div
+      className={`relative h-[60vh] transition-opacity duration-500 ${isVisible ? 'opacity-100' : 'opacity-0'}`}
+      aria-hidden={!isVisible}
+    >
+      <svg viewBox="0 0 200 800" className="h-full w-auto overflow-visible" preserveAspectRatio="xMidYMid meet">
+        {pathData && (
+          <path
+            ref={pathRef}
+            d={pathData}
+            fill="none"
+            stroke="#e5e5e5"
+            strokeWidth="6"
+            strokeLinecap="round"
+          />
+        )}
+
+        {/* State markers - click to jump to the first post in that state */}
+        {statePoints.map((point, index) => {
+          const state = trail.states[index];
+          return (
+            <g
+              key={state.abbr}
+              transform={`translate(${point.x}, ${point.y})`}
+              className="cursor-pointer pointer-events-auto group"
+              role="button"
+              tabIndex={isVisible ? 0 : -1}
+              aria-label={getMessages(locale).trail.jumpTo(state.name)}
+              onClick={() => onSelectState(state)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  onSelectState(state);
+                }
+              }}
+            >
+              <title>{state.name}</title>
+              <circle r="14" fill="transparent" />
+              <circle r="5" className="fill-neutral-300 group-hover:fill-neutral-900 transition-colors" />
+              <text
+                x="-14"
+                y="5"
+                textAnchor="end"
+                className="fill-neutral-400 group-hover:fill-neutral-900 text-[22px] transition-colors select-none"
+              >
+                {state.abbr}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Current post */}
+        {currentPoint && (
+          <g
+            style={{
+              transform: `translate(${currentPoint.x}px, ${currentPoint.y}px)`,
+              transition: 'transform 300ms ease-out',
+            }}
+          >
+            <circle r="11" className="fill-neutral-900" />
+            <text x="20" y="7" className="fill-neutral-900 text-[22px] font-medium select-none">
+              {estimated ? '~' : ''}{Math.round(currentMile ?? 0)} mi
+            </text>
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
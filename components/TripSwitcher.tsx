@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { Locale, localizePath } from '@/lib/i18n';
+import { getMessages } from '@/lib/messages';
+import { TripSummary } from '@/lib/trips';
+
+interface TripSwitcherProps {
+  trips: TripSummary[];
+  currentTrip?: string | null;
+  locale: Locale;
+}
+
+export default function TripSwitcher({ trips, currentTrip = null, locale }: TripSwitcherProps) {
+  if (trips.length === 0) return null;
+  const messages = getMessages(locale);
+
+  const linkClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm transition-colors ${
+      active
+        ? 'bg-neutral-900 text-white'
+        : 'text-neutral-500 hover:text-neutral-900 hover:bg-neutral-100'
+    }`;
+
+  return (
+    <nav aria-label={messages.common.trips} className="flex flex-wrap items-center gap-2">
+      <Link
+        href={localizePath(locale, '/')}
+        className={linkClass(currentTrip === null)}
+        aria-current={currentTrip === null ? 'page' : undefined}
+      >
+        {messages.tripSwitcher.all}
+      </Link>
+      {trips.map(trip => (
+        <Link
+          key={trip.slug}
+          href={localizePath(locale, `/trips/${trip.slug}`)}
+          className={linkClass(currentTrip === trip.slug)}
+          aria-current={currentTrip === trip.slug ? 'page' : undefined}
+        >
+          {trip.name}
+          <span className="ml-1.5 text-xs opacity-60">{trip.entryCount}</span>
+        </Link>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,78 @@
+import type { ReactNode } from 'react';
+
+// Shared typography for journal bodies, so sanitized HTML and plain text look the same
+
+interface TypographyProps {
+  children?: ReactNode;
+}
+
+export function Paragraph({ children }: TypographyProps) {
+  return <p className="text-neutral-700 leading-relaxed">{children}</p>;
+}
+
+export function Heading({ level, children }: TypographyProps & { level: 2 | 3 | 4 }) {
+  const Tag = `h${level}` as const;
+  const sizes = {
+    2: 'text-2xl',
+    3: 'text-xl',
+    4: 'text-lg',
+  };
+
+  return (
+    <Tag className={`${sizes[level]} font-serif font-light text-neutral-900 mt-10 mb-4`}>
+      {children}
+    </Tag>
+  );
+}
+
+export function List({ ordered = false, children }: TypographyProps & { ordered?: boolean }) {
+  const Tag = ordered ? 'ol' : 'ul';
+  return (
+    <Tag className={`${ordered ? 'list-decimal' : 'list-disc'} pl-6 mb-6 space-y-2 text-neutral-700`}>
+      {children}
+    </Tag>
+  );
+}
+
+export function ListItem({ children }: TypographyProps) {
+  return <li className="leading-relaxed">{children}</li>;
+}
+
+export function Quote({ children }: TypographyProps) {
+  return (
+    <blockquote className="border-l-2 border-neutral-200 pl-6 my-8 italic text-neutral-600">
+      {children}
+    </blockquote>
+  );
+}
+
+export function TextLink({ href, children }: TypographyProps & { href?: string }) {
+  if (!href) return <>{children}</>;
+
+  const isExternal = /^(https?:)?\/\//i.test(href);
+  return (
+    <a
+      href={href}
+      className="text-neutral-900 underline decoration-neutral-300 underline-offset-2 hover:decoration-neutral-900 transition-colors"
+      {...(isExternal ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+    >
+      {children}
+    </a>
+  );
+}
+
+export function Code({ children }: TypographyProps) {
+  return <code className="font-mono text-sm bg-neutral-100 rounded px-1 py-0.5">{children}</code>;
+}
+
+export function Preformatted({ children }: TypographyProps) {
+  return (
+    <pre className="font-mono text-sm bg-neutral-50 rounded-sm p-4 mb-6 overflow-x-auto">
+      {children}
+    </pre>
+  );
+}
+
+export function Divider() {
+  return <hr className="my-10 border-neutral-100" />;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isLoginThrottled, recordLogin } from './admin-auth';
+
+const MINUTE = 60 * 1000;
+
+describe('login throttling', () => {
+  it('refuses an address after five wrong passwords', () => {
+    const start = Date.now();
+    for (let attempt = 0; attempt < 4; attempt += 1) recordLogin('a', false, start);
+    expect(isLoginThrottled('a', start)).toBe(false);
+    recordLogin('a', false, start);
+    expect(isLoginThrottled('a', start)).toBe(true);
+    expect(isLoginThrottled('b', start)).toBe(false);
+  });
+
+  it('lets the address try again once the window is over', () => {
+    const start = Date.now();
+    for (let attempt = 0; attempt < 5; attempt += 1) recordLogin('c', false, start);
+    expect(isLoginThrottled('c', start + 14 * MINUTE)).toBe(true);
+    expect(isLoginThrottled('c', start + 15 * MINUTE)).toBe(false);
+    recordLogin('c', false, start + 15 * MINUTE);
+    expect(isLoginThrottled('c', start + 15 * MINUTE)).toBe(false);
+  });
+
+  it('starts over after a successful login', () => {
+    const start = Date.now();
+    for (let attempt = 0; attempt < 4; attempt += 1) recordLogin('d', false, start);
+    recordLogin('d', true, start);
+    recordLogin('d', false, start);
+    expect(isLoginThrottled('d', start)).toBe(false);
+  });
+});
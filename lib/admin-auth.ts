@@ -0,0 +1,94 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+
+// Password protection for /admin. The password comes from ADMIN_PASSWORD; without it
+// the admin doesn't exist. A session is a signed expiry time in an http-only cookie,
+// signed with the password, so changing the password ends every session.
+
+const SESSION_COOKIE = 'admin-session';
+const SESSION_SECONDS = 60 * 60 * 24 * 14;
+
+// Wrong passwords allowed per address (see `getAddress`) before logins from there are
+// refused for the rest of the window
+const LOGIN_ATTEMPTS = 5;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+const getPassword = (): string | null => process.env.ADMIN_PASSWORD || null;
+
+export const isAdminEnabled = (): boolean => getPassword() !== null;
+
+// Compares hashes, so neither the contents nor the length leak through timing
+const safeEqual = (a: string, b: string): boolean => {
+  const hash = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(hash(a), hash(b));
+};
+
+const sign = (value: string, password: string): string => {
+  return createHmac('sha256', password).update(`admin-session:${value}`).digest('hex');
+};
+
+export const checkPassword = (input: string): boolean => {
+  const password = getPassword();
+  return password !== null && safeEqual(input, password);
+};
+
+// Failed logins by address, in memory: a restart forgets them, which is fine for one
+// person's admin
+const failedLogins = new Map<string, { count: number; since: number }>();
+
+export const isLoginThrottled = (address: string, now = Date.now()): boolean => {
+  const failed = failedLogins.get(address);
+  return failed !== undefined && now - failed.since < LOGIN_WINDOW_MS && failed.count >= LOGIN_ATTEMPTS;
+};
+
+export const recordLogin = (address: string, success: boolean, now = Date.now()) => {
+  // Drop windows that are over, so the map doesn't grow with every address ever seen
+  failedLogins.forEach((failed, key) => {
+    if (now - failed.since >= LOGIN_WINDOW_MS) failedLogins.delete(key);
+  });
+  if (success) {
+    failedLogins.delete(address);
+    return;
+  }
+  const failed = failedLogins.get(address);
+  failedLogins.set(address, failed ? { ...failed, count: failed.count + 1 } : { count: 1, since: now });
+};
+
+const isValidSession = (token: string | undefined, now = Date.now()): boolean => {
+  const password = getPassword();
+  if (!password || !token) return false;
+
+  const [expires, signature] = token.split('.');
+  if (!expires || !signature || !safeEqual(signature, sign(expires, password))) return false;
+  return Number(expires) > now;
+};
+
+export const startSession = async () => {
+  const password = getPassword();
+  if (!password) return;
+
+  const expires = String(Date.now() + SESSION_SECONDS * 1000);
+  (await cookies()).set(SESSION_COOKIE, `${expires}.${sign(expires, password)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/admin',
+    maxAge: SESSION_SECONDS,
+  });
+};
+
+export const endSession = async () => {
+  (await cookies()).delete({ name: SESSION_COOKIE, path: '/admin' });
+};
+
+export const hasSession = async (): Promise<boolean> => {
+  return isValidSession((await cookies()).get(SESSION_COOKIE)?.value);
+};
+
+// First thing in every admin page and server action: server actions can be called
+// directly, so checking in the layout alone isn't enough
+export const requireAdmin = async () => {
+  if (!isAdminEnabled()) notFound();
+  if (!(await hasSession())) redirect('/admin/login');
+};
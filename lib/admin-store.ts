@@ -0,0 +1,201 @@
+import { appendFile, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ImageMetadataMap, withImageMetadata } from './images';
+import { BlogPostData, sortPosts } from './posts';
+import { validatePosts } from './schema';
+import { deriveSlug, SlugRegistry, updateSlugRegistry, withSlugs } from './slugs';
+import { absoluteUrl } from './site';
+
+// The files /admin writes: blog_posts.json itself (the same file the importer writes,
+// so there is no second source of posts), the slug registry, and an append-only log of
+// every change in data/post-history.jsonl. All of them live in data/, not public/:
+// the posts file holds drafts, and the site only serves what `getAllPosts` lets through.
+
+const POSTS_FILE = path.join(process.cwd(), 'data', 'blog_posts.json');
+const SLUGS_FILE = path.join(process.cwd(), 'data', 'slugs.json');
+const IMAGE_METADATA_FILE = path.join(process.cwd(), 'data', 'image-metadata.json');
+const HISTORY_FILE = path.join(process.cwd(), 'data', 'post-history.jsonl');
+
+// An entry as stored, with any fields the schema doesn't know about
+export type PostRecord = { [key: string]: unknown };
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface HistoryEntry {
+  time: string;
+  url: string;
+  action: 'create' | 'update';
+  changes: { [field: string]: FieldChange };
+}
+
+const readRecords = async (): Promise<PostRecord[]> => {
+  return JSON.parse(await readFile(POSTS_FILE, 'utf8')) as PostRecord[];
+};
+
+const readSlugRegistry = (): Promise<SlugRegistry> => {
+  return readFile(SLUGS_FILE, 'utf8').then(
+    raw => JSON.parse(raw) as SlugRegistry,
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  );
+};
+
+const readImageMetadata = (): Promise<ImageMetadataMap> => {
+  return readFile(IMAGE_METADATA_FILE, 'utf8')
+    .then(raw => JSON.parse(raw) as ImageMetadataMap)
+    .catch(() => ({}));
+};
+
+// Write next to the file and rename, so a reader never sees half a file
+const writeAtomically = async (file: string, contents: string) => {
+  const temporary = `${file}.${process.pid}.tmp`;
+  await writeFile(temporary, contents);
+  await rename(temporary, file);
+};
+
+// Saves run one after another: each reads the files, changes them and writes them back
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const withWriteLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+// Every post, drafts and scheduled ones included, newest first with its slug. Unlike
+// `getAllPosts` this isn't cached: the admin always shows what's on disk.
+export const loadAdminPosts = async (): Promise<BlogPostData[]> => {
+  const [records, slugs, metadata] = await Promise.all([readRecords(), readSlugRegistry(), readImageMetadata()]);
+  const { posts } = validatePosts(records);
+  return withSlugs(sortPosts(posts), updateSlugRegistry(posts, slugs))
+    .map(post => withImageMetadata(post, metadata))
+    .reverse();
+};
+
+export const getRecord = async (url: string): Promise<PostRecord | null> => {
+  return (await readRecords()).find(record => record.url === url) ?? null;
+};
+
+// Fields that differ, compared by value; fields set to undefined are removed
+const diffRecords = (before: PostRecord, after: PostRecord): HistoryEntry['changes'] => {
+  const changes: HistoryEntry['changes'] = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(field => {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  });
+  return changes;
+};
+
+const withoutUndefined = (record: PostRecord): PostRecord => {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+};
+
+// A url on this site for a post written here; it only identifies the post, the
+// permalink comes from the slug registry like for every other post
+const claimUrl = (post: BlogPostData, records: PostRecord[]): string => {
+  const taken = new Set(records.map(record => record.url));
+  const base = absoluteUrl(`/posts/${deriveSlug(post)}`);
+  let url = base;
+  for (let counter = 2; taken.has(url); counter += 1) url = `${base}-${counter}`;
+  return url;
+};
+
+const writeChanges = async (records: PostRecord[], entries: HistoryEntry[]): Promise<SlugRegistry> => {
+  const { posts } = validatePosts(records);
+  const slugs = updateSlugRegistry(posts, await readSlugRegistry());
+
+  await writeAtomically(POSTS_FILE, JSON.stringify(records, null, 2));
+  await writeAtomically(SLUGS_FILE, `${JSON.stringify(slugs, null, 2)}\n`);
+  if (entries.length > 0) {
+    await appendFile(HISTORY_FILE, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+  }
+  return slugs;
+};
+
+// Create a post (`originalUrl` null) or update the one stored under `originalUrl` with
+// `fields`, which must have passed `validatePosts` already. A new post gets a url of its
+// own in place of the one in `fields`. Returns the post's slug.
+export const savePostRecord = (fields: PostRecord, originalUrl: string | null): Promise<string> => {
+  return withWriteLock(async () => {
+    const records = await readRecords();
+    const index = originalUrl === null ? -1 : records.findIndex(record => record.url === originalUrl);
+    if (originalUrl !== null && index === -1) throw new Error(`No post with the url ${originalUrl}`);
+
+    const before = index === -1 ? {} : records[index];
+    const after = withoutUndefined({ ...before, ...fields });
+    if (index === -1) {
+      const [post] = validatePosts([after]).posts;
+      after.url = claimUrl(post, records);
+      records.push(after);
+    } else {
+      records[index] = after;
+    }
+
+    const changes = diffRecords(before, after);
+    const entries: HistoryEntry[] = Object.keys(changes).length === 0 ? [] : [{
+      time: new Date().toISOString(),
+      url: after.url as string,
+      action: index === -1 ? 'create' : 'update',
+      changes,
+    }];
+    const slugs = await writeChanges(records, entries);
+    return slugs[after.url as string].slug;
+  });
+};
+
+export interface AltTextUpdate {
+  url: string;
+  src: string;
+  alt: string;
+}
+
+// Set the alt text of images across posts; one history entry per changed post.
+// Returns how many images changed.
+export const saveAltTexts = (updates: AltTextUpdate[]): Promise<number> => {
+  return withWriteLock(async () => {
+    const records = await readRecords();
+    const entries: HistoryEntry[] = [];
+    let changed = 0;
+
+    records.forEach((record, index) => {
+      const forPost = updates.filter(update => update.url === record.url);
+      if (forPost.length === 0 || !Array.isArray(record.images)) return;
+
+      const images = record.images.map((image: PostRecord) => {
+        // The srcs come from the validated posts, which trim them
+        const update = forPost.find(candidate => candidate.src === String(image.src).trim());
+        if (!update || update.alt === (image.alt ?? '')) return image;
+        changed += 1;
+        return { ...image, alt: update.alt };
+      });
+      const changes = diffRecords(record, { ...record, images });
+      if (Object.keys(changes).length === 0) return;
+
+      records[index] = { ...record, images };
+      entries.push({ time: new Date().toISOString(), url: record.url as string, action: 'update', changes });
+    });
+
+    if (changed > 0) await writeChanges(records, entries);
+    return changed;
+  });
+};
+
+// Changes to one post, newest first
+export const readPostHistory = async (url: string): Promise<HistoryEntry[]> => {
+  const raw = await readFile(HISTORY_FILE, 'utf8').catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return '';
+    throw error;
+  });
+  return raw
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as HistoryEntry)
+    .filter(entry => entry.url === url)
+    .reverse();
+};
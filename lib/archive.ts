@@ -0,0 +1,94 @@
+import { DEFAULT_LOCALE, getIntlLocale, Locale } from './i18n';
+import { getMessages } from './messages';
+import { BlogPostData, getCalendarDay, getPostSlug } from './posts';
+import { getPostTripSlug, getTripName, parsePostTitle } from './trips';
+
+export interface ArchiveMonth {
+  // `2023` and `04`, as used in /archive/2023/04
+  year: string;
+  month: string;
+  name: string;
+  count: number;
+  // First post of the month within the trip, for jumping to it in the feed
+  firstSlug: string;
+}
+
+export interface ArchiveTrip {
+  slug: string | null;
+  name: string;
+  count: number;
+  months: ArchiveMonth[];
+}
+
+export interface ArchiveYear {
+  year: string;
+  count: number;
+  trips: ArchiveTrip[];
+}
+
+const getMonthName = (month: string, locale: Locale): string => {
+  return new Date(Date.UTC(2000, parseInt(month, 10) - 1, 1)).toLocaleDateString(getIntlLocale(locale), {
+    month: 'long',
+    timeZone: 'UTC',
+  });
+};
+
+export const formatArchiveMonth = (year: string, month: string, locale: Locale = DEFAULT_LOCALE): string => {
+  return `${getMonthName(month, locale)} ${year}`;
+};
+
+const getPostMonth = (post: BlogPostData) => {
+  const [year, month] = getCalendarDay(post.date).split('-');
+  return { year, month };
+};
+
+// Year → trip → month, in the order of the (chronologically sorted) posts.
+// Posts outside a trip series are grouped under "Other".
+export const buildArchive = (posts: BlogPostData[], locale: Locale = DEFAULT_LOCALE): ArchiveYear[] => {
+  const years: ArchiveYear[] = [];
+
+  posts.forEach(post => {
+    const { year, month } = getPostMonth(post);
+    const tripSlug = getPostTripSlug(post);
+
+    let archiveYear = years.find(candidate => candidate.year === year);
+    if (!archiveYear) {
+      archiveYear = { year, count: 0, trips: [] };
+      years.push(archiveYear);
+    }
+
+    let trip = archiveYear.trips.find(candidate => candidate.slug === tripSlug);
+    if (!trip) {
+      const { trip: prefix } = parsePostTitle(post.title);
+      trip = { slug: tripSlug, name: prefix ? getTripName(prefix) : getMessages(locale).archive.other, count: 0, months: [] };
+      archiveYear.trips.push(trip);
+    }
+
+    let archiveMonth = trip.months.find(candidate => candidate.month === month);
+    if (!archiveMonth) {
+      archiveMonth = { year, month, name: getMonthName(month, locale), count: 0, firstSlug: getPostSlug(post) };
+      trip.months.push(archiveMonth);
+    }
+
+    archiveYear.count += 1;
+    trip.count += 1;
+    archiveMonth.count += 1;
+  });
+
+  return years;
+};
+
+// Every month with posts, oldest first
+export const getArchiveMonths = (posts: BlogPostData[]): { year: string; month: string }[] => {
+  const keys = new Set(posts.map(post => getCalendarDay(post.date).slice(0, 7)));
+  return Array.from(keys)
+    .sort()
+    .map(key => {
+      const [year, month] = key.split('-');
+      return { year, month };
+    });
+};
+
+export const getPostsForMonth = (posts: BlogPostData[], year: string, month: string): BlogPostData[] => {
+  return posts.filter(post => getCalendarDay(post.date).startsWith(`${year}-${month}`));
+};
@@ -0,0 +1,273 @@
+import { bodyToHtml, escapeHtml } from './html';
+import { Locale } from './i18n';
+import { findFeaturedImage, getImageAlt, isLandscape } from './images';
+import { getMessages } from './messages';
+import { computeTripMileage, getStateForMile, PostMileage, TRAILS } from './mileage';
+import { BlogPostData, BlogPostImage, formatDate, getPostSlug } from './posts';
+import { SITE_AUTHOR } from './site';
+import { formatNumber } from './stats';
+import { localizePost } from './translations';
+import { parsePostTitle, Trip } from './trips';
+
+// A trip as a book: a title page, the contents by state and day, and a chapter per
+// entry with its text and a few of its photos. Rendered to markup that is valid both
+// as HTML (the print page, app/[locale]/trips/[trip]/book) and as the XHTML of an
+// EPUB (lib/epub.ts, `npm run book`).
+
+export interface BookPhoto {
+  src: string;
+  alt: string;
+  // Landscape photos take the full width of the page, portrait ones go in pairs
+  wide: boolean;
+}
+
+export interface BookChapter {
+  // The post's slug: the anchor in the print page and the file name in the EPUB
+  id: string;
+  day: number | null;
+  title: string;
+  date: string;
+  state: string | null;
+  mileage: PostMileage | null;
+  post: BlogPostData;
+  lead: BookPhoto | null;
+  photos: BookPhoto[];
+}
+
+// The chapters in one state of the trail; trips without a trail have a single part
+// without a name
+export interface BookPart {
+  state: string | null;
+  chapters: BookChapter[];
+}
+
+export interface Book {
+  slug: string;
+  title: string;
+  author: string;
+  locale: Locale;
+  startDate: string;
+  endDate: string;
+  parts: BookPart[];
+  chapterCount: number;
+  photoCount: number;
+}
+
+// Photos per chapter, the lead photo included. A day's 13 photos make a gallery, not
+// a page of a book.
+export const BOOK_PHOTO_LIMIT = 6;
+
+// Wide enough for the full width of an A5 page at print resolution
+export const BOOK_IMAGE_WIDTH = 1600;
+
+const toBookPhoto = (image: BlogPostImage, post: BlogPostData, locale: Locale): BookPhoto => ({
+  src: image.src,
+  alt: getImageAlt(image, post, locale),
+  wide: isLandscape(image),
+});
+
+// The hero photo leads; the others are picked evenly across the day, in their order
+export const selectBookPhotos = (post: BlogPostData): { lead: BlogPostImage | null; photos: BlogPostImage[] } => {
+  const lead = findFeaturedImage(post);
+  const rest = (post.images ?? []).filter(image => image !== lead);
+  const count = Math.min(rest.length, BOOK_PHOTO_LIMIT - 1);
+  const photos = Array.from({ length: count }, (_, i) => rest[Math.floor((i * rest.length) / count)]);
+  return { lead, photos };
+};
+
+export const buildBook = (trip: Trip, locale: Locale): Book => {
+  const trail = TRAILS[trip.slug];
+  const mileage = trail ? computeTripMileage(trip.posts, trail) : new Map<string, PostMileage>();
+  const parts: BookPart[] = [];
+  let photoCount = 0;
+
+  trip.posts.forEach(original => {
+    const post = localizePost(original, locale);
+    const { day, title } = parsePostTitle(post.title);
+    const postMileage = mileage.get(original.url) ?? null;
+    const state = trail && postMileage ? getStateForMile(trail, postMileage.mile).name : null;
+    const { lead, photos } = selectBookPhotos(post);
+    photoCount += photos.length + (lead ? 1 : 0);
+
+    const chapter: BookChapter = {
+      id: getPostSlug(post),
+      day,
+      title,
+      date: post.date,
+      state,
+      mileage: postMileage,
+      post,
+      lead: lead && toBookPhoto(lead, post, locale),
+      photos: photos.map(image => toBookPhoto(image, post, locale)),
+    };
+
+    const part = parts[parts.length - 1];
+    if (part && part.state === state) part.chapters.push(chapter);
+    else parts.push({ state, chapters: [chapter] });
+  });
+
+  return {
+    slug: trip.slug,
+    title: trip.name,
+    author: SITE_AUTHOR,
+    locale,
+    startDate: trip.startDate,
+    endDate: trip.endDate,
+    parts,
+    chapterCount: trip.posts.length,
+    photoCount,
+  };
+};
+
+// Where a photo's file is, for the page or the EPUB; null leaves the photo out
+export type PhotoUrl = (photo: BookPhoto) => string | null;
+
+const renderFigure = (photo: BookPhoto, photoUrl: PhotoUrl, className: string): string => {
+  const url = photoUrl(photo);
+  if (!url) return '';
+  return `<figure class="${className}${photo.wide ? ' wide' : ''}"><img src="${escapeHtml(url)}" alt="${escapeHtml(photo.alt)}"/></figure>`;
+};
+
+export const renderTitlePage = (book: Book): string => {
+  const messages = getMessages(book.locale);
+  return [
+    '<section class="title-page">',
+    `  <h1>${escapeHtml(book.title)}</h1>`,
+    `  <p class="dates">${formatDate(book.startDate, book.locale)} – ${formatDate(book.endDate, book.locale)}</p>`,
+    `  <p class="author">${escapeHtml(book.author)}</p>`,
+    `  <p class="counts">${messages.common.entries(book.chapterCount)} · ${messages.common.photos(book.photoCount)}</p>`,
+    '</section>',
+  ].join('\n');
+};
+
+// The contents as nested lists, states around days. The same list is the EPUB's
+// navigation document, which allows a heading only on an item with a list inside.
+export const renderContents = (book: Book, href: (chapter: BookChapter) => string): string => {
+  const messages = getMessages(book.locale);
+  const renderChapters = (chapters: BookChapter[]) => chapters.map(chapter => {
+    const day = chapter.day !== null ? `<span class="day">${messages.common.day(chapter.day)}</span> ` : '';
+    return `<li><a href="${escapeHtml(href(chapter))}">${day}${escapeHtml(chapter.title)}</a></li>`;
+  });
+
+  if (book.parts.every(part => part.state === null)) {
+    return ['<ol>', ...renderChapters(book.parts.flatMap(part => part.chapters)), '</ol>'].join('\n');
+  }
+  return [
+    '<ol>',
+    ...book.parts.map(part => [
+      `<li><span class="part">${escapeHtml(part.state ?? '')}</span>`,
+      '<ol>',
+      ...renderChapters(part.chapters),
+      '</ol></li>',
+    ].join('\n')),
+    '</ol>',
+  ].join('\n');
+};
+
+export const renderChapter = (chapter: BookChapter, locale: Locale, photoUrl: PhotoUrl): string => {
+  const messages = getMessages(locale);
+  const details = [
+    formatDate(chapter.date, locale),
+    chapter.state,
+    chapter.mileage && messages.post.mile(formatNumber(chapter.mileage.mile, locale), chapter.mileage.estimated),
+  ].filter(Boolean).map(detail => escapeHtml(String(detail))).join(' · ');
+  const photos = chapter.photos.map(photo => renderFigure(photo, photoUrl, 'photo')).filter(Boolean);
+
+  return [
+    `<section class="chapter" id="${escapeHtml(chapter.id)}">`,
+    '  <header>',
+    ...(chapter.day !== null ? [`    <p class="day">${messages.common.day(chapter.day)}</p>`] : []),
+    `    <h2>${escapeHtml(chapter.title)}</h2>`,
+    `    <p class="details">${details}</p>`,
+    '  </header>',
+    ...(chapter.lead ? [`  ${renderFigure(chapter.lead, photoUrl, 'lead')}`] : []),
+    `  <div class="text">${bodyToHtml(chapter.post, true)}</div>`,
+    ...(photos.length > 0 ? ['  <div class="photos">', ...photos.map(photo => `    ${photo}`), '  </div>'] : []),
+    '</section>',
+  ].filter(line => line.trim()).join('\n');
+};
+
+// Typography and photo layout, for print and e-readers alike. Readers bring their
+// own fonts and margins, so this stays modest.
+export const BOOK_STYLES = `
+body { font-family: 'Iowan Old Style', 'Palatino Linotype', Palatino, Georgia, serif; line-height: 1.5; color: #1a1a1a; }
+h1, h2 { font-weight: normal; line-height: 1.15; }
+.title-page { text-align: center; padding-top: 30%; }
+.title-page h1 { font-size: 2.4em; margin: 0 0 0.5em; }
+.title-page .dates, .title-page .counts { color: #666; }
+.title-page .author { margin-top: 3em; font-size: 1.2em; }
+.contents ol { list-style: none; padding: 0; margin: 0; }
+.contents ol ol { margin: 0.3em 0 1em; }
+.contents .part { display: block; font-variant: small-caps; letter-spacing: 0.05em; margin-top: 0.8em; }
+.contents a { color: inherit; text-decoration: none; }
+.contents .day, .chapter .day { color: #666; }
+.chapter header { margin-bottom: 1em; }
+.chapter .day { margin: 0; font-size: 0.85em; text-transform: uppercase; letter-spacing: 0.08em; }
+.chapter h2 { font-size: 1.7em; margin: 0.2em 0; }
+.chapter .details { margin: 0; color: #666; font-size: 0.85em; }
+.chapter a { color: inherit; }
+figure { margin: 1em 0; }
+figure img { display: block; max-width: 100%; height: auto; margin: 0 auto; }
+.photos .photo { display: inline-block; width: 48%; margin: 0 1% 1em; vertical-align: top; }
+.photos .photo.wide { display: block; width: auto; margin: 0 0 1em; }
+`;
+
+// A5 pages with the page number at the bottom. Browsers without page margin boxes
+// (and any with their own headers and footers on) print without the numbers. The
+// contents get page numbers where `target-counter` is supported (PDF renderers such
+// as WeasyPrint); browsers ignore it.
+const PRINT_STYLES = `
+@page { size: A5; margin: 18mm 16mm 20mm; @bottom-center { content: counter(page); font: 9pt Georgia, serif; color: #666; } }
+@page front { @bottom-center { content: none; } }
+body { margin: 0; font-size: 10.5pt; }
+.title-page, .contents { page: front; }
+.title-page, .contents, .chapter { break-before: page; }
+.title-page { break-before: auto; }
+.contents h2 { font-size: 1.5em; }
+.contents a::after { content: leader('.') target-counter(attr(href url), page); }
+.chapter header, figure { break-inside: avoid; }
+.chapter h2 { break-after: avoid; }
+.lead img { max-height: 110mm; }
+.photos .photo img { max-height: 85mm; }
+.photos .photo.wide img { max-height: 110mm; }
+.toolbar { display: none; }
+@media screen {
+  body { max-width: 148mm; margin: 0 auto; padding: 0 16mm 4em; background: #fff; }
+  .title-page, .contents, .chapter { border-top: 1px solid #ddd; padding-top: 2em; margin-top: 4em; }
+  .title-page { border-top: 0; padding-top: 4em; }
+  .toolbar { display: block; position: sticky; top: 0; padding: 0.75em 0; background: #fff; border-bottom: 1px solid #ddd; font: 14px system-ui, sans-serif; color: #666; }
+  .toolbar button { font: inherit; margin-right: 1em; padding: 0.4em 1em; border: 0; border-radius: 2px; background: #171717; color: #fff; cursor: pointer; }
+}
+`;
+
+// The whole book as one page for the browser to print or save as a PDF
+export const renderPrintBook = (book: Book, photoUrl: PhotoUrl): string => {
+  const messages = getMessages(book.locale).book;
+  const chapters = book.parts.flatMap(part => part.chapters);
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${book.locale}">`,
+    '<head>',
+    '<meta charset="utf-8"/>',
+    '<meta name="viewport" content="width=device-width, initial-scale=1"/>',
+    '<meta name="robots" content="noindex"/>',
+    `<title>${escapeHtml(book.title)} · ${escapeHtml(book.author)}</title>`,
+    `<style>${BOOK_STYLES}${PRINT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<div class="toolbar">',
+    `  <button type="button" onclick="window.print()">${messages.print}</button>`,
+    `  ${messages.printHint}`,
+    '</div>',
+    renderTitlePage(book),
+    '<nav class="contents">',
+    `<h2>${messages.contents}</h2>`,
+    renderContents(book, chapter => `#${chapter.id}`),
+    '</nav>',
+    ...chapters.map(chapter => renderChapter(chapter, book.locale, photoUrl)),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
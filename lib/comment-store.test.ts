@@ -0,0 +1,37 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { REACTIONS } from './comments';
+
+const POST = 'https://krlwtz.com/2023/04/11/at-1-shopping/';
+
+let dir: string;
+let store: typeof import('./comment-store');
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'comment-store-'));
+  vi.stubEnv('COMMENTS_DB', path.join(dir, 'comments.db'));
+  store = await import('./comment-store');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('toggleReaction', () => {
+  it('gives a reaction and takes it back', () => {
+    const [emoji] = REACTIONS;
+    expect(store.toggleReaction(POST, emoji, 'reader-a', 'address-a')).toEqual({ counts: { [emoji]: 1 }, mine: [emoji] });
+    expect(store.toggleReaction(POST, emoji, 'reader-a', 'address-a')).toEqual({ counts: {}, mine: [] });
+  });
+
+  it('counts reactions taken back towards the rate limit', () => {
+    const since = new Date(Date.now() - 60 * 1000);
+    for (let click = 0; click < 10; click += 1) store.toggleReaction(POST, REACTIONS[1], 'reader-b', 'address-b');
+    expect(store.getReactions(POST, 'reader-b').mine).toEqual([]);
+    expect(store.countRecent('reaction_clicks', 'address-b', since)).toBe(10);
+    expect(store.countRecent('reaction_clicks', 'address-c', since)).toBe(0);
+  });
+});
@@ -0,0 +1,269 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { CommentStatus, PostComment, Reactions, REACTIONS } from './comments';
+
+// Comments and reactions in a SQLite file next to the other data (COMMENTS_DB, default
+// data/comments.db). Posts are referred to by their original url, which outlives slug
+// changes. Readers are known by a random cookie (lib/readers.ts) and addresses only as
+// salted hashes, kept for the rate limit.
+
+const DB_FILE = path.resolve(process.env.COMMENTS_DB ?? path.join(process.cwd(), 'data', 'comments.db'));
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS comments (
+  id INTEGER PRIMARY KEY,
+  post TEXT NOT NULL,
+  parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL,
+  reader TEXT NOT NULL,
+  address TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  published_at TEXT
+);
+CREATE INDEX IF NOT EXISTS comments_by_post ON comments (post, status);
+CREATE INDEX IF NOT EXISTS comments_by_parent ON comments (parent_id);
+CREATE TABLE IF NOT EXISTS reactions (
+  post TEXT NOT NULL,
+  emoji TEXT NOT NULL,
+  reader TEXT NOT NULL,
+  address TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (post, emoji, reader)
+);
+-- Every reaction given or taken back, for the rate limit: taking one back deletes its row
+-- from reactions, so counting those alone would let a toggling client write forever
+CREATE TABLE IF NOT EXISTS reaction_clicks (
+  address TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS reaction_clicks_by_address ON reaction_clicks (address, created_at);
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+interface CommentRow {
+  id: number;
+  post: string;
+  parent_id: number | null;
+  name: string;
+  body: string;
+  status: CommentStatus;
+  reader: string;
+  created_at: string;
+  // When it was approved: replies are news to their parent's author from then on
+  published_at: string | null;
+}
+
+// A comment as the moderation view shows it
+export interface StoredComment extends PostComment {
+  post: string;
+  status: CommentStatus;
+}
+
+let database: Database.Database | null = null;
+
+// Opened on first use, so builds and pages without comments never touch the file
+const getDatabase = (): Database.Database => {
+  if (!database) {
+    mkdirSync(path.dirname(DB_FILE), { recursive: true });
+    database = new Database(DB_FILE);
+    database.pragma('journal_mode = WAL');
+    database.pragma('foreign_keys = ON');
+    database.exec(SCHEMA);
+  }
+  return database;
+};
+
+// Random per installation, so the stored hashes can't be matched against addresses
+const getSalt = (): string => {
+  const db = getDatabase();
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get('salt') as { value: string } | undefined;
+  if (row) return row.value;
+  const salt = randomBytes(16).toString('hex');
+  db.prepare('INSERT OR IGNORE INTO settings (key, value) VALUES (?, ?)').run('salt', salt);
+  return salt;
+};
+
+export const hashValue = (value: string): string => {
+  return createHash('sha256').update(`${getSalt()}:${value}`).digest('hex');
+};
+
+const toComment = (row: CommentRow): StoredComment => ({
+  id: row.id,
+  parentId: row.parent_id,
+  name: row.name,
+  body: row.body,
+  createdAt: row.created_at,
+  pending: row.status === 'pending',
+  post: row.post,
+  status: row.status,
+});
+
+// Approved comments of a post, and the reader's own ones still in moderation
+export const listComments = (post: string, reader: string | null): PostComment[] => {
+  const rows = getDatabase()
+    .prepare(`
+      SELECT * FROM comments
+      WHERE post = ? AND (status = 'approved' OR (status = 'pending' AND reader = ?))
+      ORDER BY created_at
+    `)
+    .all(post, reader ?? '') as CommentRow[];
+  return rows.map(row => {
+    const { id, parentId, name, body, createdAt, pending } = toComment(row);
+    return { id, parentId, name, body, createdAt, pending };
+  });
+};
+
+// Approved comments per post url
+export const countComments = (): Map<string, number> => {
+  const rows = getDatabase()
+    .prepare(`SELECT post, COUNT(*) AS count FROM comments WHERE status = 'approved' GROUP BY post`)
+    .all() as Array<{ post: string; count: number }>;
+  return new Map(rows.map(row => [row.post, row.count]));
+};
+
+// Comments and reaction clicks from an address since `since`, for the rate limits
+export const countRecent = (table: 'comments' | 'reaction_clicks', address: string, since: Date): number => {
+  const row = getDatabase()
+    .prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE address = ? AND created_at > ?`)
+    .get(address, since.toISOString()) as { count: number };
+  return row.count;
+};
+
+// Readers with an approved comment are trusted; everyone else's first comment waits
+// for moderation
+const isTrusted = (reader: string): boolean => {
+  return getDatabase()
+    .prepare(`SELECT 1 FROM comments WHERE reader = ? AND status = 'approved' LIMIT 1`)
+    .get(reader) !== undefined;
+};
+
+// A reply must answer a comment on the same post that readers can see
+export const isValidParent = (post: string, parentId: number): boolean => {
+  return getDatabase()
+    .prepare(`SELECT 1 FROM comments WHERE id = ? AND post = ? AND status = 'approved'`)
+    .get(parentId, post) !== undefined;
+};
+
+export const addComment = (fields: {
+  post: string;
+  parentId: number | null;
+  name: string;
+  body: string;
+  reader: string;
+  address: string;
+}): PostComment => {
+  const status: CommentStatus = isTrusted(fields.reader) ? 'approved' : 'pending';
+  const createdAt = new Date().toISOString();
+  const { lastInsertRowid } = getDatabase()
+    .prepare(`
+      INSERT INTO comments (post, parent_id, name, body, status, reader, address, created_at, published_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      fields.post,
+      fields.parentId,
+      fields.name,
+      fields.body,
+      status,
+      fields.reader,
+      fields.address,
+      createdAt,
+      status === 'approved' ? createdAt : null
+    );
+
+  return {
+    id: Number(lastInsertRowid),
+    parentId: fields.parentId,
+    name: fields.name,
+    body: fields.body,
+    createdAt,
+    pending: status === 'pending',
+  };
+};
+
+export const getReactions = (post: string, reader: string | null): Reactions => {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT emoji, COUNT(*) AS count FROM reactions WHERE post = ? GROUP BY emoji')
+    .all(post) as Array<{ emoji: string; count: number }>;
+  const mine = reader
+    ? (db.prepare('SELECT emoji FROM reactions WHERE post = ? AND reader = ?').all(post, reader) as Array<{ emoji: string }>)
+    : [];
+
+  // Only reactions that are still offered
+  const counts: Reactions['counts'] = {};
+  rows.forEach(row => {
+    if (REACTIONS.includes(row.emoji)) counts[row.emoji] = row.count;
+  });
+  return { counts, mine: mine.map(row => row.emoji) };
+};
+
+// Clicks are kept this long, well past any rate limit window
+const REACTION_CLICKS_KEPT_MS = 24 * 60 * 60 * 1000;
+
+// Give the reaction, or take it back if the reader had given it
+export const toggleReaction = (post: string, emoji: string, reader: string, address: string): Reactions => {
+  const db = getDatabase();
+  const now = new Date();
+  db.transaction(() => {
+    db.prepare('INSERT INTO reaction_clicks (address, created_at) VALUES (?, ?)').run(address, now.toISOString());
+    db.prepare('DELETE FROM reaction_clicks WHERE created_at < ?')
+      .run(new Date(now.getTime() - REACTION_CLICKS_KEPT_MS).toISOString());
+
+    const { changes } = db
+      .prepare('DELETE FROM reactions WHERE post = ? AND emoji = ? AND reader = ?')
+      .run(post, emoji, reader);
+    if (changes === 0) {
+      db.prepare('INSERT INTO reactions (post, emoji, reader, address, created_at) VALUES (?, ?, ?, ?, ?)')
+        .run(post, emoji, reader, address, now.toISOString());
+    }
+  })();
+  return getReactions(post, reader);
+};
+
+// Approved replies by others to the reader's comments, newest first
+export const listReplies = (reader: string, since: Date): StoredComment[] => {
+  const rows = getDatabase()
+    .prepare(`
+      SELECT reply.* FROM comments reply
+      JOIN comments parent ON reply.parent_id = parent.id
+      WHERE parent.reader = ? AND reply.reader != ? AND reply.status = 'approved' AND reply.published_at > ?
+      ORDER BY reply.published_at DESC
+    `)
+    .all(reader, reader, since.toISOString()) as CommentRow[];
+  return rows.map(toComment);
+};
+
+// For /admin/comments, newest first
+export const listCommentsByStatus = (status: CommentStatus, limit: number): StoredComment[] => {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM comments WHERE status = ? ORDER BY created_at DESC LIMIT ?')
+    .all(status, limit) as CommentRow[];
+  return rows.map(toComment);
+};
+
+export const countPendingComments = (): number => {
+  const row = getDatabase()
+    .prepare(`SELECT COUNT(*) AS count FROM comments WHERE status = 'pending'`)
+    .get() as { count: number };
+  return row.count;
+};
+
+export const setCommentStatus = (id: number, status: CommentStatus) => {
+  const publishedAt = status === 'approved' ? new Date().toISOString() : null;
+  getDatabase()
+    .prepare('UPDATE comments SET status = ?, published_at = COALESCE(published_at, ?) WHERE id = ?')
+    .run(status, publishedAt, id);
+};
+
+// Replies go with the comment they answer
+export const deleteComment = (id: number) => {
+  getDatabase().prepare('DELETE FROM comments WHERE id = ?').run(id);
+};
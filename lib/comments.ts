@@ -0,0 +1,134 @@
+// Comments and reactions as the pages see them, and the calls to the /api/comments
+// route handlers. The store behind them is lib/comment-store.ts (server only).
+
+export interface PostComment {
+  id: number;
+  parentId: number | null;
+  name: string;
+  // Plain text; line breaks are kept when shown
+  body: string;
+  createdAt: string;
+  // Waiting for moderation: only its own author sees it
+  pending: boolean;
+}
+
+export interface CommentThread extends PostComment {
+  replies: CommentThread[];
+}
+
+export interface Reactions {
+  counts: { [emoji: string]: number };
+  // The ones this reader has given
+  mine: string[];
+}
+
+export interface CommentsResponse {
+  comments: PostComment[];
+  reactions: Reactions;
+}
+
+// A reply to one of the reader's comments, for the notice about new replies
+export interface CommentReply {
+  id: number;
+  slug: string;
+  postTitle: string;
+  name: string;
+  excerpt: string;
+  createdAt: string;
+}
+
+export type CommentStatus = 'pending' | 'approved' | 'spam';
+
+// The only reactions there are, so the row under an entry stays short
+export const REACTIONS = ['❤️', '👏', '😂', '😮', '⛰️'];
+
+export const NAME_MAX_LENGTH = 80;
+export const BODY_MAX_LENGTH = 5000;
+
+// Replies are indented up to this depth; deeper ones line up with their parent
+export const MAX_THREAD_DEPTH = 3;
+
+// Left empty by people and filled in by bots, which fill in every field
+export const HONEYPOT_FIELD = 'website';
+
+// When the reader last looked at replies to their comments; only set once they have
+// commented, so nobody else asks for replies
+const REPLIES_SEEN_KEY = 'comment-replies-seen';
+
+// Oldest first, replies under the comment they answer. Replies whose parent isn't
+// shown (removed, or still in moderation) are left out with it.
+export const buildThread = (comments: PostComment[]): CommentThread[] => {
+  const nodes = new Map(comments.map(comment => [comment.id, { ...comment, replies: [] as CommentThread[] }]));
+  const roots: CommentThread[] = [];
+  [...nodes.values()]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(node => {
+      if (node.parentId === null) roots.push(node);
+      else nodes.get(node.parentId)?.replies.push(node);
+    });
+  return roots;
+};
+
+// Problems with a new comment, one line each; the same checks run in the route handler
+export const validateComment = (name: string, body: string): string[] => {
+  const errors: string[] = [];
+  if (!name.trim()) errors.push('name is required');
+  if (name.length > NAME_MAX_LENGTH) errors.push(`name is longer than ${NAME_MAX_LENGTH} characters`);
+  if (!body.trim()) errors.push('comment is empty');
+  if (body.length > BODY_MAX_LENGTH) errors.push(`comment is longer than ${BODY_MAX_LENGTH} characters`);
+  return errors;
+};
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.errors?.join('\n') ?? `Request failed (${response.status})`);
+  }
+  return data as T;
+};
+
+const postJson = <T>(url: string, body: unknown): Promise<T> => {
+  return request<T>(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+};
+
+export const fetchComments = (slug: string): Promise<CommentsResponse> => {
+  return request(`/api/comments/${encodeURIComponent(slug)}`);
+};
+
+// Approved comments per post slug
+export const fetchCommentCounts = async (): Promise<{ [slug: string]: number }> => {
+  return (await request<{ counts: { [slug: string]: number } }>('/api/comments')).counts;
+};
+
+export const submitComment = (
+  slug: string,
+  fields: { name: string; body: string; parentId: number | null; [HONEYPOT_FIELD]: string }
+): Promise<{ comment: PostComment }> => {
+  return postJson(`/api/comments/${encodeURIComponent(slug)}`, fields);
+};
+
+export const toggleReaction = (slug: string, emoji: string): Promise<Reactions> => {
+  return postJson(`/api/comments/${encodeURIComponent(slug)}/reactions`, { emoji });
+};
+
+export const hasCommented = (): boolean => localStorage.getItem(REPLIES_SEEN_KEY) !== null;
+
+// Start looking for replies from the reader's first comment on
+export const markCommented = () => {
+  if (!hasCommented()) markRepliesSeen();
+};
+
+export const markRepliesSeen = () => {
+  localStorage.setItem(REPLIES_SEEN_KEY, new Date().toISOString());
+};
+
+export const fetchNewReplies = async (): Promise<CommentReply[]> => {
+  const since = localStorage.getItem(REPLIES_SEEN_KEY) ?? '';
+  const { replies } = await request<{ replies: CommentReply[] }>(`/api/comments/replies?since=${encodeURIComponent(since)}`);
+  return replies;
+};
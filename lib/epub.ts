@@ -0,0 +1,180 @@
+import { crc32, deflateRawSync } from 'node:zlib';
+import { Book, BOOK_STYLES, BookChapter, BookPhoto, renderChapter, renderContents, renderTitlePage } from './book';
+import { escapeHtml } from './html';
+import { localizePath } from './i18n';
+import { getMessages } from './messages';
+import { absoluteUrl } from './site';
+
+// EPUB 3 of a book (lib/book.ts): a title page, the contents, one XHTML file per
+// chapter and the photos, zipped the way the format wants it. Written by `npm run book`.
+
+export interface EpubImage {
+  // Path inside the book, e.g. `images/3f2a….jpg`
+  path: string;
+  mediaType: string;
+  data: Buffer;
+}
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+  // Photos are compressed already; deflating them again only costs time
+  store?: boolean;
+}
+
+// 1980-01-01 00:00, the earliest DOS date: the same input gives the same file
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+// A plain zip archive, without ZIP64: books stay well below 4 GB. `crc32` needs Node
+// 20.15 or later, hence `engines` in package.json.
+const createZip = (entries: ZipEntry[]): Buffer => {
+  const files: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data, store }) => {
+    const fileName = Buffer.from(name, 'utf8');
+    const body = store ? data : deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(store ? 0 : 8, 8);
+    header.writeUInt16LE(DOS_TIME, 10);
+    header.writeUInt16LE(DOS_DATE, 12);
+    header.writeUInt32LE(checksum, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(fileName.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4);
+    record.writeUInt16LE(20, 6);
+    header.copy(record, 8, 6, 30);
+    record.writeUInt32LE(offset, 42);
+
+    files.push(header, fileName, body);
+    directory.push(record, fileName);
+    offset += header.length + fileName.length + body.length;
+  });
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...files, ...directory, end]);
+};
+
+// Characters XML doesn't allow anywhere, which the scraped text occasionally has
+const xmlSafe = (text: string): string => {
+  return text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '');
+};
+
+const xhtmlDocument = (book: Book, title: string, body: string): string => {
+  return xmlSafe([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html>',
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${book.locale}" xml:lang="${book.locale}">`,
+    '<head>',
+    `<title>${escapeHtml(title)}</title>`,
+    '<link rel="stylesheet" type="text/css" href="styles.css"/>',
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n'));
+};
+
+const chapterFile = (chapter: BookChapter): string => `${chapter.id}.xhtml`;
+
+export const createEpub = (book: Book, images: Map<string, EpubImage>): Buffer => {
+  const messages = getMessages(book.locale).book;
+  const chapters = book.parts.flatMap(part => part.chapters);
+  const photoUrl = (photo: BookPhoto) => images.get(photo.src)?.path ?? null;
+  const cover = chapters.map(chapter => chapter.lead && images.get(chapter.lead.src)).find(Boolean);
+  // Sizes of the same upload share a file
+  const files = new Map(Array.from(images.values()).map(image => [image.path, image]));
+
+  const nav = [
+    '<nav epub:type="toc" id="toc" class="contents">',
+    `<h2>${messages.contents}</h2>`,
+    renderContents(book, chapterFile),
+    '</nav>',
+  ].join('\n');
+
+  // Manifest ids are XML names, which slugs starting with a digit are not
+  const items = [
+    '<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>',
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="styles" href="styles.css" media-type="text/css"/>',
+    ...chapters.map((chapter, index) => {
+      return `<item id="chapter-${index + 1}" href="${escapeHtml(chapterFile(chapter))}" media-type="application/xhtml+xml"/>`;
+    }),
+    ...Array.from(files.values()).map((image, index) => {
+      const properties = image.path === cover?.path ? ' properties="cover-image"' : '';
+      return `<item id="image-${index + 1}" href="${escapeHtml(image.path)}" media-type="${image.mediaType}"${properties}/>`;
+    }),
+  ];
+  const spine = [
+    '<itemref idref="title"/>',
+    '<itemref idref="nav"/>',
+    ...chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`),
+  ];
+
+  const opf = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${book.locale}">`,
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `    <dc:identifier id="book-id">${escapeHtml(absoluteUrl(localizePath(book.locale, `/trips/${book.slug}`)))}</dc:identifier>`,
+    `    <dc:title>${escapeHtml(book.title)}</dc:title>`,
+    `    <dc:creator>${escapeHtml(book.author)}</dc:creator>`,
+    `    <dc:language>${book.locale}</dc:language>`,
+    `    <dc:date>${book.startDate.slice(0, 10)}</dc:date>`,
+    `    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>`,
+    '  </metadata>',
+    '  <manifest>',
+    ...items.map(item => `    ${item}`),
+    '  </manifest>',
+    '  <spine>',
+    ...spine.map(itemref => `    ${itemref}`),
+    '  </spine>',
+    '</package>',
+    '',
+  ].join('\n');
+
+  const container = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+    '  <rootfiles>',
+    '    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+    '  </rootfiles>',
+    '</container>',
+    '',
+  ].join('\n');
+
+  // The mimetype has to come first and uncompressed, so readers can sniff the format
+  return createZip([
+    { name: 'mimetype', data: Buffer.from('application/epub+zip'), store: true },
+    { name: 'META-INF/container.xml', data: Buffer.from(container) },
+    { name: 'OEBPS/content.opf', data: Buffer.from(opf) },
+    { name: 'OEBPS/styles.css', data: Buffer.from(BOOK_STYLES) },
+    { name: 'OEBPS/title.xhtml', data: Buffer.from(xhtmlDocument(book, book.title, renderTitlePage(book))) },
+    { name: 'OEBPS/nav.xhtml', data: Buffer.from(xhtmlDocument(book, messages.contents, nav)) },
+    ...chapters.map(chapter => ({
+      name: `OEBPS/${chapterFile(chapter)}`,
+      data: Buffer.from(xhtmlDocument(book, chapter.title, renderChapter(chapter, book.locale, photoUrl))),
+    })),
+    ...Array.from(files.values()).map(image => ({ name: `OEBPS/${image.path}`, data: image.data, store: true })),
+  ]);
+};
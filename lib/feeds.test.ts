@@ -0,0 +1,210 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Feed, feedResponse, renderAtom, renderJsonFeed, renderRss } from './feeds';
+import { BlogPostData } from './posts';
+import { SITE_URL } from './site';
+
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+// RFC 822 as RSS wants it, with a four-digit year
+const RFC_822 = /^(Mon|Tue|Wed|Thu|Fri|Sat|Sun), \d{2} (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) \d{4} \d{2}:\d{2}:\d{2} GMT$/;
+const RFC_3339 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const posts: BlogPostData[] = [
+  {
+    url: 'https://krlwtz.com/2023/04/11/at-1-shopping/',
+    slug: 'at-1-shopping',
+    title: 'AT 1: Shopping',
+    date: '2023-04-11T08:00:00',
+    content: 'Bought a tent.',
+    meta_description: 'Gear for the trail',
+    featured_image: 'https://krlwtz.com/wp-content/uploads/2023/04/tent.png',
+    tags: ['Gear'],
+  },
+  {
+    url: 'https://krlwtz.com/2023/04/12/at-2/',
+    slug: 'at-2-fish-chips',
+    title: 'AT 2: Fish & Chips <b>"quoted"</b> \'apostrophe\' \u0001',
+    date: '2023-04-12T20:30:00',
+    content: '',
+    content_html: '<p>Fish &amp; chips<script>alert(1)</script> <a href="javascript:alert(1)">link</a></p>',
+  },
+];
+
+const feed: Feed = {
+  title: 'Trail & Journal',
+  description: 'A <journey>',
+  homePath: '/',
+  feedPath: '/feed.xml',
+  posts,
+};
+
+const parseXml = (xml: string): Document => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const error = document.querySelector('parsererror');
+  if (error) throw new Error(`not well-formed: ${error.textContent}`);
+  return document;
+};
+
+const text = (parent: Element | Document, tag: string): string | null => {
+  return parent.getElementsByTagName(tag)[0]?.textContent ?? null;
+};
+
+describe('renderRss', () => {
+  const document = parseXml(renderRss(feed));
+  const channel = document.documentElement.getElementsByTagName('channel')[0];
+  const items = Array.from(channel.getElementsByTagName('item'));
+
+  it('has the required channel elements', () => {
+    expect(document.documentElement.tagName).toBe('rss');
+    expect(document.documentElement.getAttribute('version')).toBe('2.0');
+    expect(text(channel, 'title')).toBe('Trail & Journal');
+    expect(text(channel, 'link')).toBe(`${SITE_URL}/`);
+    expect(text(channel, 'description')).toBe('A <journey>');
+  });
+
+  it('links to itself', () => {
+    const self = channel.getElementsByTagNameNS(ATOM_NS, 'link')[0];
+    expect(self.getAttribute('rel')).toBe('self');
+    expect(self.getAttribute('href')).toBe(`${SITE_URL}/feed.xml`);
+  });
+
+  it('lists the newest entries first with RFC 822 dates', () => {
+    expect(items.map(item => text(item, 'link'))).toEqual([
+      `${SITE_URL}/posts/at-2-fish-chips`,
+      `${SITE_URL}/posts/at-1-shopping`,
+    ]);
+    items.forEach(item => expect(text(item, 'pubDate')).toMatch(RFC_822));
+    expect(text(channel, 'lastBuildDate')).toBe(text(items[0], 'pubDate'));
+  });
+
+  it('gives every item a title and a permalink guid', () => {
+    items.forEach(item => {
+      expect(text(item, 'title')).toBeTruthy();
+      const guid = item.getElementsByTagName('guid')[0];
+      expect(guid.getAttribute('isPermaLink')).toBe('true');
+      expect(guid.textContent).toBe(text(item, 'link'));
+    });
+  });
+
+  it('escapes text and drops characters XML does not allow', () => {
+    expect(text(items[0], 'title')).toBe('AT 2: Fish & Chips <b>"quoted"</b> \'apostrophe\' ');
+  });
+
+  it('carries the sanitized body as escaped HTML', () => {
+    expect(text(items[0], 'content:encoded')).toBe('<p>Fish &amp; chips <a>link</a></p>');
+    expect(text(items[1], 'content:encoded')).toBe('<p>Bought a tent.</p>');
+  });
+
+  it('adds the featured image as an enclosure', () => {
+    const enclosure = items[1].getElementsByTagName('enclosure')[0];
+    expect(enclosure.getAttribute('url')).toBe(posts[0].featured_image);
+    expect(enclosure.getAttribute('type')).toBe('image/png');
+    expect(enclosure.getAttribute('length')).toBe('0');
+    expect(items[0].getElementsByTagName('enclosure')).toHaveLength(0);
+  });
+});
+
+describe('renderAtom', () => {
+  const document = parseXml(renderAtom({ ...feed, feedPath: '/atom.xml' }));
+  const root = document.documentElement;
+  const entries = Array.from(root.getElementsByTagNameNS(ATOM_NS, 'entry'));
+  const child = (parent: Element, tag: string) => Array.from(parent.children).filter(element => element.localName === tag);
+
+  it('has the required feed elements', () => {
+    expect(root.namespaceURI).toBe(ATOM_NS);
+    expect(root.localName).toBe('feed');
+    expect(child(root, 'id')[0].textContent).toBe(`${SITE_URL}/`);
+    expect(child(root, 'title')[0].textContent).toBe('Trail & Journal');
+    expect(child(root, 'updated')[0].textContent).toMatch(RFC_3339);
+    // Entries have no author of their own, so the feed needs one
+    expect(child(root, 'author')[0].getElementsByTagNameNS(ATOM_NS, 'name')[0].textContent).toBeTruthy();
+    const self = child(root, 'link').find(link => link.getAttribute('rel') === 'self');
+    expect(self?.getAttribute('href')).toBe(`${SITE_URL}/atom.xml`);
+  });
+
+  it('gives every entry an id, title, updated date and alternate link', () => {
+    expect(entries).toHaveLength(2);
+    entries.forEach(entry => {
+      expect(child(entry, 'id')[0].textContent).toMatch(/^https?:\/\//);
+      expect(child(entry, 'title')[0].textContent).toBeTruthy();
+      expect(child(entry, 'updated')[0].textContent).toMatch(RFC_3339);
+      expect(child(entry, 'published')[0].textContent).toMatch(RFC_3339);
+      expect(child(entry, 'link').find(link => link.getAttribute('rel') === 'alternate')?.getAttribute('href'))
+        .toBe(child(entry, 'id')[0].textContent);
+    });
+    expect(child(root, 'updated')[0].textContent).toBe(child(entries[0], 'updated')[0].textContent);
+  });
+
+  it('marks the content as escaped HTML', () => {
+    const content = child(entries[0], 'content')[0];
+    expect(content.getAttribute('type')).toBe('html');
+    expect(content.textContent).toBe('<p>Fish &amp; chips <a>link</a></p>');
+  });
+
+  it('has categories as terms', () => {
+    expect(child(entries[1], 'category')[0].getAttribute('term')).toBe('Gear');
+  });
+});
+
+describe('renderJsonFeed', () => {
+  const json = JSON.parse(renderJsonFeed({ ...feed, feedPath: '/feed.json' }));
+
+  it('has the required top-level fields', () => {
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.title).toBe('Trail & Journal');
+    expect(json.home_page_url).toBe(`${SITE_URL}/`);
+    expect(json.feed_url).toBe(`${SITE_URL}/feed.json`);
+    expect(Array.isArray(json.items)).toBe(true);
+  });
+
+  it('gives every item a string id, content and RFC 3339 date', () => {
+    json.items.forEach((item: { id: unknown; content_html: unknown; date_published: string }) => {
+      expect(typeof item.id).toBe('string');
+      expect(typeof item.content_html).toBe('string');
+      expect(item.date_published).toMatch(RFC_3339);
+    });
+  });
+
+  it('keeps the text as is, since JSON needs no escaping', () => {
+    expect(json.items[0].title).toBe(posts[1].title);
+    expect(json.items[1]).toMatchObject({ summary: 'Gear for the trail', image: posts[0].featured_image, tags: ['Gear'] });
+  });
+});
+
+describe('entry ids', () => {
+  const ids = (output: string) => JSON.parse(output).items.map((item: { id: string }) => item.id);
+
+  it('are the same from build to build and across formats', () => {
+    const first = ids(renderJsonFeed(feed));
+    expect(ids(renderJsonFeed({ ...feed, posts: [...posts].reverse() }))).toEqual(first);
+    const atom = parseXml(renderAtom(feed));
+    expect(Array.from(atom.getElementsByTagNameNS(ATOM_NS, 'entry')).map(entry => entry.getElementsByTagNameNS(ATOM_NS, 'id')[0].textContent))
+      .toEqual(first);
+  });
+
+  it("don't change when other entries are added", () => {
+    const newer: BlogPostData = { url: 'https://krlwtz.com/2023/04/13/at-3/', slug: 'at-3', title: 'AT 3', date: '2023-04-13', content: 'x' };
+    expect(ids(renderJsonFeed({ ...feed, posts: [...posts, newer] })).slice(1)).toEqual(ids(renderJsonFeed(feed)));
+  });
+});
+
+describe('feedResponse', () => {
+  it('serves each format with its content type and self link', async () => {
+    const response = feedResponse('atom', { title: 'T', description: 'D', homePath: '/trips/at', posts });
+    expect(response.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+    expect(await response.text()).toContain(`href="${SITE_URL}/trips/at/atom.xml"`);
+  });
+
+  it('limits the feed to the newest 50 entries', () => {
+    const many = Array.from({ length: 60 }, (_, day): BlogPostData => ({
+      url: `https://krlwtz.com/${day}/`,
+      slug: `day-${day}`,
+      title: `Day ${day}`,
+      date: new Date(Date.UTC(2023, 0, day + 1)).toISOString(),
+      content: 'x',
+    }));
+    const items = JSON.parse(renderJsonFeed({ ...feed, posts: many })).items;
+    expect(items).toHaveLength(50);
+    expect(items[0].id).toBe(`${SITE_URL}/posts/day-59`);
+  });
+});
@@ -0,0 +1,200 @@
+import { bodyToHtml, escapeHtml } from './html';
+import { BlogPostData, getPostSlug } from './posts';
+import { absoluteUrl, SITE_AUTHOR } from './site';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface Feed {
+  title: string;
+  description: string;
+  // Site path the feed belongs to ("/" or "/trips/at") and the path of the feed itself
+  homePath: string;
+  feedPath: string;
+  posts: BlogPostData[];
+}
+
+// Only the newest entries; readers keep what they have already seen
+const FEED_LIMIT = 50;
+
+export const FEED_CONTENT_TYPES: { [format in FeedFormat]: string } = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+// Feed paths for a site path: "/" gets /feed.xml, "/trips/at" gets /trips/at/feed.xml
+export const getFeedPaths = (homePath: string): { [format in FeedFormat]: string } => {
+  const base = homePath.replace(/\/+$/, '');
+  return {
+    rss: `${base}/feed.xml`,
+    atom: `${base}/atom.xml`,
+    json: `${base}/feed.json`,
+  };
+};
+
+// `<link rel="alternate">` entries for a page's feeds, for `metadata.alternates.types`
+export const getFeedAlternates = (homePath: string, title: string) => {
+  const paths = getFeedPaths(homePath);
+  return {
+    'application/rss+xml': [{ url: paths.rss, title }],
+    'application/atom+xml': [{ url: paths.atom, title }],
+    'application/feed+json': [{ url: paths.json, title }],
+  };
+};
+
+const IMAGE_TYPES: { [extension: string]: string } = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+interface FeedItem {
+  url: string;
+  title: string;
+  date: Date;
+  summary?: string;
+  html: string;
+  image?: { url: string; type: string };
+  tags: string[];
+}
+
+const toFeedItem = (post: BlogPostData): FeedItem => {
+  const html = bodyToHtml(post);
+
+  let image: FeedItem['image'];
+  if (post.featured_image) {
+    const extension = new URL(post.featured_image).pathname.split('.').pop()?.toLowerCase() ?? '';
+    image = { url: post.featured_image, type: IMAGE_TYPES[extension] ?? 'image/jpeg' };
+  }
+
+  return {
+    url: absoluteUrl(`/posts/${getPostSlug(post)}`),
+    title: post.title,
+    date: new Date(post.date),
+    summary: post.meta_description,
+    html,
+    image,
+    tags: post.tags ?? [],
+  };
+};
+
+const getItems = (feed: Feed): FeedItem[] => {
+  return [...feed.posts]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, FEED_LIMIT)
+    .map(toFeedItem);
+};
+
+const escapeXml = (text: string): string => escapeHtml(text).replace(/'/g, '&apos;');
+
+// Strip characters that are not allowed anywhere in XML 1.0
+const xmlText = (text: string): string => {
+  return escapeXml(text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, ''));
+};
+
+const lastUpdated = (items: FeedItem[]): Date => {
+  return items.length > 0 ? items[0].date : new Date(0);
+};
+
+// RSS 2.0 (https://www.rssboard.org/rss-specification)
+export const renderRss = (feed: Feed): string => {
+  const items = getItems(feed);
+  const entries = items.map(item => [
+    '    <item>',
+    `      <title>${xmlText(item.title)}</title>`,
+    `      <link>${xmlText(item.url)}</link>`,
+    `      <guid isPermaLink="true">${xmlText(item.url)}</guid>`,
+    `      <pubDate>${item.date.toUTCString()}</pubDate>`,
+    ...(item.summary ? [`      <description>${xmlText(item.summary)}</description>`] : []),
+    `      <content:encoded>${xmlText(item.html)}</content:encoded>`,
+    ...item.tags.map(tag => `      <category>${xmlText(tag)}</category>`),
+    // The size isn't known without fetching the image; 0 is the accepted placeholder
+    ...(item.image ? [`      <enclosure url="${xmlText(item.image.url)}" length="0" type="${item.image.type}"/>`] : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '  <channel>',
+    `    <title>${xmlText(feed.title)}</title>`,
+    `    <link>${xmlText(absoluteUrl(feed.homePath))}</link>`,
+    `    <description>${xmlText(feed.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${xmlText(absoluteUrl(feed.feedPath))}" rel="self" type="application/rss+xml"/>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+};
+
+// Atom (RFC 4287)
+export const renderAtom = (feed: Feed): string => {
+  const items = getItems(feed);
+  const entries = items.map(item => [
+    '  <entry>',
+    `    <id>${xmlText(item.url)}</id>`,
+    `    <title>${xmlText(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${xmlText(item.url)}"/>`,
+    `    <published>${item.date.toISOString()}</published>`,
+    `    <updated>${item.date.toISOString()}</updated>`,
+    ...(item.summary ? [`    <summary>${xmlText(item.summary)}</summary>`] : []),
+    `    <content type="html">${xmlText(item.html)}</content>`,
+    ...item.tags.map(tag => `    <category term="${xmlText(tag)}"/>`),
+    ...(item.image ? [`    <link rel="enclosure" type="${item.image.type}" href="${xmlText(item.image.url)}"/>`] : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <id>${xmlText(absoluteUrl(feed.homePath))}</id>`,
+    `  <title>${xmlText(feed.title)}</title>`,
+    `  <subtitle>${xmlText(feed.description)}</subtitle>`,
+    `  <updated>${lastUpdated(items).toISOString()}</updated>`,
+    `  <author><name>${xmlText(SITE_AUTHOR)}</name></author>`,
+    `  <link rel="alternate" type="text/html" href="${xmlText(absoluteUrl(feed.homePath))}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${xmlText(absoluteUrl(feed.feedPath))}"/>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+};
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+export const renderJsonFeed = (feed: Feed): string => {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: absoluteUrl(feed.homePath),
+    feed_url: absoluteUrl(feed.feedPath),
+    language: 'en',
+    authors: [{ name: SITE_AUTHOR }],
+    items: getItems(feed).map(item => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      content_html: item.html,
+      ...(item.summary ? { summary: item.summary } : {}),
+      ...(item.image ? { image: item.image.url } : {}),
+      date_published: item.date.toISOString(),
+      ...(item.tags.length > 0 ? { tags: item.tags } : {}),
+    })),
+  }, null, 2);
+};
+
+const RENDERERS: { [format in FeedFormat]: (feed: Feed) => string } = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+export const feedResponse = (format: FeedFormat, feed: Omit<Feed, 'feedPath'>): Response => {
+  const body = RENDERERS[format]({ ...feed, feedPath: getFeedPaths(feed.homePath)[format] });
+  return new Response(body, { headers: { 'Content-Type': FEED_CONTENT_TYPES[format] } });
+};
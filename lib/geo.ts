@@ -0,0 +1,112 @@
+// Bundled trail geometry, so the map works without a tile server or network access
+
+export type LatLon = [number, number];
+
+export interface TrailWaypoint {
+  mile: number;
+  lat: number;
+  lon: number;
+  name: string;
+}
+
+// Simplified Appalachian Trail centerline: well-known points along the trail with their
+// northbound mile. Good enough to draw the trail and place posts by mileage.
+export const AT_WAYPOINTS: TrailWaypoint[] = [
+  { mile: 0, lat: 34.6267, lon: -84.1939, name: 'Springer Mountain' },
+  { mile: 31.7, lat: 34.735, lon: -83.9183, name: 'Neels Gap' },
+  { mile: 69.6, lat: 34.9125, lon: -83.6183, name: 'Dicks Creek Gap' },
+  { mile: 78.5, lat: 34.996, lon: -83.643, name: 'Bly Gap' },
+  { mile: 86.8, lat: 35.039, lon: -83.549, name: 'Standing Indian Mountain' },
+  { mile: 100, lat: 35.052, lon: -83.478, name: 'Albert Mountain' },
+  { mile: 109.8, lat: 35.12, lon: -83.548, name: 'Winding Stair Gap' },
+  { mile: 120.1, lat: 35.18, lon: -83.56, name: 'Wayah Bald' },
+  { mile: 137.3, lat: 35.331, lon: -83.592, name: 'Nantahala Outdoor Center' },
+  { mile: 165.7, lat: 35.451, lon: -83.811, name: 'Fontana Dam' },
+  { mile: 199.8, lat: 35.5628, lon: -83.4985, name: 'Clingmans Dome' },
+  { mile: 207.3, lat: 35.611, lon: -83.425, name: 'Newfound Gap' },
+  { mile: 239.4, lat: 35.764, lon: -83.112, name: 'Davenport Gap' },
+  { mile: 254.1, lat: 35.796, lon: -82.962, name: 'Max Patch' },
+  { mile: 274.1, lat: 35.893, lon: -82.828, name: 'Hot Springs' },
+  { mile: 333.6, lat: 35.974, lon: -82.482, name: 'Big Bald' },
+  { mile: 343.5, lat: 36.12, lon: -82.44, name: 'Erwin' },
+  { mile: 378.1, lat: 36.105, lon: -82.122, name: 'Roan High Knob' },
+  { mile: 420.1, lat: 36.271, lon: -82.005, name: 'Laurel Fork' },
+  { mile: 469.4, lat: 36.634, lon: -81.787, name: 'Damascus' },
+  { mile: 500.8, lat: 36.633, lon: -81.504, name: 'Grayson Highlands' },
+  { mile: 544.5, lat: 36.872, lon: -81.419, name: 'Atkins' },
+  { mile: 637.4, lat: 37.327, lon: -80.737, name: 'Pearisburg' },
+  { mile: 712.2, lat: 37.392, lon: -80.036, name: 'McAfee Knob' },
+  { mile: 727.5, lat: 37.408, lon: -79.913, name: 'Daleville' },
+  { mile: 784.2, lat: 37.634, lon: -79.451, name: 'James River' },
+  { mile: 806.4, lat: 37.734, lon: -79.354, name: 'Buena Vista' },
+  { mile: 862.7, lat: 38.033, lon: -78.858, name: 'Rockfish Gap' },
+  { mile: 969.3, lat: 38.918, lon: -78.194, name: 'Front Royal' },
+  { mile: 1023.9, lat: 39.324, lon: -77.73, name: 'Harpers Ferry' },
+  { mile: 1068.1, lat: 39.72, lon: -77.5, name: 'Pen Mar' },
+  { mile: 1109.9, lat: 40.033, lon: -77.305, name: 'Pine Grove Furnace' },
+  { mile: 1125.7, lat: 40.149, lon: -77.128, name: 'Boiling Springs' },
+  { mile: 1151.4, lat: 40.396, lon: -77.03, name: 'Duncannon' },
+  { mile: 1217.7, lat: 40.583, lon: -76.025, name: 'Port Clinton' },
+  { mile: 1272.1, lat: 40.78, lon: -75.6, name: 'Lehigh Gap' },
+  { mile: 1296.6, lat: 40.97, lon: -75.14, name: 'Delaware Water Gap' },
+  { mile: 1343.1, lat: 41.321, lon: -74.662, name: 'High Point' },
+  { mile: 1368.8, lat: 41.19, lon: -74.35, name: 'Prospect Rock' },
+  { mile: 1401.3, lat: 41.312, lon: -73.988, name: 'Bear Mountain' },
+  { mile: 1458.9, lat: 41.62, lon: -73.51, name: 'Hoyt Road' },
+  { mile: 1468.8, lat: 41.724, lon: -73.477, name: 'Kent' },
+  { mile: 1499.2, lat: 41.984, lon: -73.421, name: 'Salisbury' },
+  { mile: 1510.5, lat: 42.05, lon: -73.43, name: 'Sages Ravine' },
+  { mile: 1530.2, lat: 42.196, lon: -73.362, name: 'Great Barrington' },
+  { mile: 1541.6, lat: 42.29, lon: -73.18, name: 'Upper Goose Pond' },
+  { mile: 1573.5, lat: 42.473, lon: -73.166, name: 'Dalton' },
+  { mile: 1591.2, lat: 42.637, lon: -73.166, name: 'Mount Greylock' },
+  { mile: 1601.1, lat: 42.746, lon: -73.16, name: 'Vermont Border' },
+  { mile: 1655.1, lat: 43.163, lon: -72.99, name: 'Stratton Mountain' },
+  { mile: 1675.9, lat: 43.228, lon: -72.94, name: 'Bromley Mountain' },
+  { mile: 1700.3, lat: 43.398, lon: -72.955, name: 'Little Rock Pond' },
+  { mile: 1712.4, lat: 43.605, lon: -72.82, name: 'Killington' },
+  { mile: 1751.8, lat: 43.702, lon: -72.289, name: 'Hanover' },
+  { mile: 1771.6, lat: 43.826, lon: -72.07, name: 'Smarts Mountain' },
+  { mile: 1792.3, lat: 44.024, lon: -71.831, name: 'Mount Moosilauke' },
+  { mile: 1823.4, lat: 44.16, lon: -71.644, name: 'Franconia Ridge' },
+  { mile: 1862.6, lat: 44.27, lon: -71.303, name: 'Mount Washington' },
+  { mile: 1876.3, lat: 44.257, lon: -71.253, name: 'Pinkham Notch' },
+  { mile: 1897.6, lat: 44.387, lon: -71.173, name: 'Gorham' },
+  { mile: 1912.8, lat: 44.492, lon: -71.02, name: 'Maine Border' },
+  { mile: 1917.5, lat: 44.543, lon: -70.96, name: 'Mahoosuc Notch' },
+  { mile: 1931.3, lat: 44.62, lon: -70.89, name: 'Baldpate Mountain' },
+  { mile: 1976.1, lat: 44.966, lon: -70.643, name: 'Rangeley' },
+  { mile: 2013.8, lat: 45.14, lon: -70.31, name: 'Bigelow Mountain' },
+  { mile: 2051.6, lat: 45.231, lon: -69.999, name: 'Kennebec River' },
+  { mile: 2082.6, lat: 45.287, lon: -69.501, name: 'Monson' },
+  { mile: 2184.6, lat: 45.836, lon: -68.968, name: 'Abol Bridge' },
+  { mile: 2198.4, lat: 45.9044, lon: -68.9213, name: 'Katahdin' },
+];
+
+// Trail geometry by trip slug
+export const TRAIL_GEOMETRY: { [tripSlug: string]: TrailWaypoint[] } = {
+  at: AT_WAYPOINTS,
+};
+
+// Linear interpolation between the two waypoints around `mile`
+export const pointAtMile = (waypoints: TrailWaypoint[], mile: number): LatLon => {
+  if (mile <= waypoints[0].mile) return [waypoints[0].lat, waypoints[0].lon];
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const to = waypoints[i];
+    if (mile <= to.mile) {
+      const from = waypoints[i - 1];
+      const t = (mile - from.mile) / (to.mile - from.mile);
+      return [from.lat + (to.lat - from.lat) * t, from.lon + (to.lon - from.lon) * t];
+    }
+  }
+
+  const last = waypoints[waypoints.length - 1];
+  return [last.lat, last.lon];
+};
+
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { bodyToHtml, decodeEntities, htmlToText, sanitizeHtml, sanitizeUrl, serializeHtml } from './html';
+
+const clean = (html: string) => serializeHtml(sanitizeHtml(html));
+
+describe('sanitizeHtml', () => {
+  it('keeps the allowed elements and normalizes old-style tags', () => {
+    expect(clean('<p><b>Bold</b> and <i>italic</i></p><h1>Title</h1>')).toBe(
+      '<p><strong>Bold</strong> and <em>italic</em></p><h2>Title</h2>'
+    );
+  });
+
+  it('unwraps unknown elements and drops their attributes', () => {
+    expect(clean('<div class="wp-block"><span style="color:red">Text</span></div>')).toBe('Text');
+  });
+
+  it('removes scripts and styles with their content', () => {
+    expect(clean('<p>Before</p><script>alert(1)</script><style>p{}</style><p>After</p>')).toBe(
+      '<p>Before</p><p>After</p>'
+    );
+    expect(clean('<p>a<script>document.write("<p>x</p>")</script>b</p>')).toBe('<p>ab</p>');
+    expect(clean('<SCRIPT SRC=//evil.example/x.js></SCRIPT><p>ok</p>')).toBe('<p>ok</p>');
+  });
+
+  it('removes event handlers and other attributes', () => {
+    expect(clean('<p onclick="alert(1)" onmouseover=alert(1)>Hi</p>')).toBe('<p>Hi</p>');
+    expect(clean('<a href="/x" onclick="alert(1)" target="_blank">x</a>')).toBe('<a href="/x">x</a>');
+  });
+
+  it('drops embedded content that can run code', () => {
+    expect(clean('<img src=x onerror=alert(1)><svg onload=alert(1)><circle/></svg><iframe src="javascript:alert(1)"></iframe>'))
+      .toBe('');
+    expect(clean('<object data="x.swf"></object><embed src="x.swf"><form action="/x"><input name="a"></form>')).toBe('');
+  });
+
+  it('removes javascript: and data: links but keeps the link text', () => {
+    expect(clean('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(clean('<a href="JaVaScRiPt:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(clean('<a href="data:text/html,<script>alert(1)</script>">x</a>')).toBe('<a>x</a>');
+    expect(clean('<a href="&#106;avascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(clean('<a href="java&#9;script:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(clean('<a href="&#x20;javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+  });
+
+  it('escapes markup in text and attributes on the way out', () => {
+    expect(clean('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>')).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    expect(clean('<a href=\'/x" onclick="alert(1)\'>x</a>')).toBe('<a href="/x&quot; onclick=&quot;alert(1)">x</a>');
+  });
+
+  it('does not let a stray close tag or comment smuggle markup', () => {
+    expect(clean('<p>a</div><!-- <script>alert(1)</script> -->b</p>')).toBe('<p>ab</p>');
+  });
+});
+
+describe('sanitizeUrl', () => {
+  it('allows relative URLs and the allowed schemes', () => {
+    expect(sanitizeUrl('/posts/at-1')).toBe('/posts/at-1');
+    expect(sanitizeUrl('#top')).toBe('#top');
+    expect(sanitizeUrl('https://example.com/a?b=1')).toBe('https://example.com/a?b=1');
+    expect(sanitizeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+  });
+
+  it('rejects other schemes, also when disguised', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl(' \tjava\nscript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('java\u0000script:alert(1)')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox(1)')).toBeNull();
+    expect(sanitizeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBeNull();
+    expect(sanitizeUrl('   ')).toBeNull();
+  });
+
+  it('makes protocol-relative URLs absolute', () => {
+    expect(sanitizeUrl('//example.com/x')).toBe('https://example.com/x');
+    expect(sanitizeUrl('\\\\example.com\\x')).toBe('https://example.com/x');
+  });
+
+  it('does not decode entities a second time', () => {
+    // Already decoded from `?q=&amp;lt` by the parser
+    expect(sanitizeUrl('https://example.com/?q=&lt&copy=1')).toBe('https://example.com/?q=&lt&copy=1');
+    expect(clean('<a href="/search?a=1&amp;copy=2">x</a>')).toBe('<a href="/search?a=1&amp;copy=2">x</a>');
+  });
+
+  it('keeps spaces inside the URL', () => {
+    expect(sanitizeUrl(' /photos/my trip.jpg ')).toBe('/photos/my trip.jpg');
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes named and numeric entities', () => {
+    expect(decodeEntities('&amp; &lt; &#8211; &#x2014; &hellip;')).toBe('& < – — …');
+  });
+
+  it('leaves unknown entities and invalid code points harmless', () => {
+    expect(decodeEntities('&unknown; &#0; &#x110000;')).toBe('&unknown; � �');
+  });
+});
+
+describe('bodyToHtml', () => {
+  it('sanitizes the HTML body', () => {
+    expect(bodyToHtml({ content: '', content_html: '<p onclick="x()">Hi<script>x()</script></p>' })).toBe('<p>Hi</p>');
+  });
+
+  it('escapes plain-text bodies, a paragraph per block', () => {
+    expect(bodyToHtml({ content: 'One <b>\n\nTwo' })).toBe('<p>One &lt;b&gt;</p><p>Two</p>');
+  });
+
+  it('closes void elements for XHTML', () => {
+    expect(bodyToHtml({ content: '', content_html: '<p>a<br>b</p>' }, true)).toBe('<p>a<br/>b</p>');
+  });
+});
+
+describe('htmlToText', () => {
+  it('leaves out scripts and puts blocks on their own lines', () => {
+    expect(htmlToText('<p>One<script>alert(1)</script></p><p>Two<br>Three</p>')).toBe('One\nTwo\nThree');
+  });
+});
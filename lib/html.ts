@@ -0,0 +1,364 @@
+// Minimal HTML parser and allow-list sanitizer for the WordPress `content_html` export.
+// It runs the same on the server and in the browser, so it can't rely on DOMParser.
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: { [name: string]: string };
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  value: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Content of these is never markup, so we read up to the matching close tag verbatim
+const RAW_TEXT_ELEMENTS = new Set([
+  'script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript',
+]);
+
+// Opening one of these implicitly closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+]);
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  shy: '\u00ad',
+  copy: '©',
+  deg: '°',
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+};
+
+export const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (!Number.isFinite(codePoint) || codePoint <= 0 || codePoint > 0x10ffff) return '�';
+      return String.fromCodePoint(codePoint);
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named ?? match;
+  });
+};
+
+const parseAttributes = (source: string): { [name: string]: string } => {
+  const attrs: { [name: string]: string } = {};
+  const attrPattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attrPattern.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue; // first occurrence wins, like browsers
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attrs[name] = decodeEntities(value);
+  }
+
+  return attrs;
+};
+
+export const parseHtml = (html: string): HtmlNode[] => {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (value: string) => {
+    if (!value) return;
+    const siblings = current().children;
+    const last = siblings[siblings.length - 1];
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      siblings.push({ type: 'text', value });
+    }
+  };
+
+  const closeElement = (tag: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+    // Stray close tag without an open element: ignore it
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(html.slice(pos)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(pos, lt)));
+    pos = lt;
+
+    // Comments
+    if (html.startsWith('<!--', pos)) {
+      const end = html.indexOf('-->', pos + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    // Doctype, CDATA, processing instructions
+    if (html[pos + 1] === '!' || html[pos + 1] === '?') {
+      const end = html.indexOf('>', pos);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    // Close tag
+    const closeMatch = /^<\/([a-zA-Z][a-zA-Z0-9-]*)[^>]*>/.exec(html.slice(pos));
+    if (closeMatch) {
+      closeElement(closeMatch[1].toLowerCase());
+      pos += closeMatch[0].length;
+      continue;
+    }
+
+    // Open tag: quoted attribute values may contain '>'
+    const openMatch = /^<([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/.exec(html.slice(pos));
+    if (!openMatch) {
+      appendText('<');
+      pos += 1;
+      continue;
+    }
+
+    const tag = openMatch[1].toLowerCase();
+    const attrSource = openMatch[2].replace(/\/\s*$/, '');
+    pos += openMatch[0].length;
+
+    if (CLOSES_PARAGRAPH.has(tag) && stack.some(el => el.tag === 'p')) {
+      closeElement('p');
+    }
+    if (tag === 'li' && current().tag === 'li') {
+      closeElement('li');
+    }
+
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttributes(attrSource), children: [] };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closePattern = new RegExp(`</${tag}\\s*>`, 'i');
+      const rest = html.slice(pos);
+      const closeIndex = rest.search(closePattern);
+      const raw = closeIndex === -1 ? rest : rest.slice(0, closeIndex);
+      element.children.push({ type: 'text', value: raw });
+      pos = closeIndex === -1 ? html.length : pos + closeIndex + rest.slice(closeIndex).indexOf('>') + 1;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+};
+
+// Elements we keep, and what they are rendered as (old-style tags are normalized)
+const ALLOWED_ELEMENTS: { [tag: string]: string } = {
+  p: 'p',
+  br: 'br',
+  a: 'a',
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  u: 'u',
+  s: 's',
+  del: 's',
+  strike: 's',
+  ul: 'ul',
+  ol: 'ol',
+  li: 'li',
+  h1: 'h2',
+  h2: 'h2',
+  h3: 'h3',
+  h4: 'h4',
+  h5: 'h4',
+  h6: 'h4',
+  blockquote: 'blockquote',
+  code: 'code',
+  pre: 'pre',
+  hr: 'hr',
+};
+
+// Removed together with everything inside them. Images are dropped from the body
+// because the post's `images` are already shown in the gallery below it.
+const DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript',
+  'template', 'svg', 'math', 'form', 'input', 'button', 'textarea', 'select', 'option',
+  'img', 'picture', 'video', 'audio', 'source', 'track', 'canvas', 'map', 'area',
+  'head', 'title', 'meta', 'link', 'base', 'xmp', 'noembed', 'noframes', 'figcaption',
+]);
+
+// Elements where whitespace-only text between children is just source formatting
+const BLOCK_CONTAINERS = new Set(['#root', 'ul', 'ol', 'blockquote']);
+
+const ALLOWED_URL_SCHEMES = new Set(['http', 'https', 'mailto']);
+
+// Returns the URL if it is relative or uses an allowed scheme, null otherwise. `url` is
+// an attribute value, so its entities are decoded already.
+export const sanitizeUrl = (url: string): string | null => {
+  // Browsers drop surrounding spaces and control characters, and tabs and line breaks
+  // anywhere in the URL
+  const cleaned = url.replace(/^[\u0000- ]+|[\u0000- ]+$/g, '').replace(/[\t\n\r]/g, '');
+  if (!cleaned) return null;
+
+  // They also ignore control characters and whitespace inside the scheme ("java\u0000script:");
+  // this copy is only for the check
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(cleaned.replace(/[\u0000- \u007f-\u009f]/g, ''));
+  if (scheme && !ALLOWED_URL_SCHEMES.has(scheme[1].toLowerCase())) return null;
+  // Protocol-relative and backslash URLs are treated as absolute by browsers
+  if (!scheme && /^[\\/]{2}/.test(cleaned)) return `https:${cleaned.replace(/\\/g, '/')}`;
+
+  return cleaned;
+};
+
+const isEmpty = (node: HtmlNode): boolean => {
+  if (node.type === 'text') return node.value.trim() === '';
+  if (node.tag === 'br' || node.tag === 'hr') return false;
+  return node.children.every(child => isEmpty(child) || (child.type === 'element' && child.tag === 'br'));
+};
+
+const sanitizeChildren = (nodes: HtmlNode[], parentTag: string): HtmlNode[] => {
+  const result: HtmlNode[] = [];
+
+  nodes.forEach(node => {
+    if (node.type === 'text') {
+      if (BLOCK_CONTAINERS.has(parentTag) && node.value.trim() === '') return;
+      result.push({ type: 'text', value: node.value });
+      return;
+    }
+
+    if (DROPPED_ELEMENTS.has(node.tag)) return;
+
+    const tag = ALLOWED_ELEMENTS[node.tag];
+    // Unknown or wrapper elements (the WordPress `wp-block-post-content` div, figure, span, …)
+    // are unwrapped: their children are kept, their tag and classes are not
+    if (!tag) {
+      result.push(...sanitizeChildren(node.children, parentTag));
+      return;
+    }
+
+    const attrs: { [name: string]: string } = {};
+    if (tag === 'a') {
+      const href = node.attrs.href ? sanitizeUrl(node.attrs.href) : null;
+      if (href) attrs.href = href;
+    }
+
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attrs,
+      children: VOID_ELEMENTS.has(tag) ? [] : sanitizeChildren(node.children, tag),
+    };
+
+    // Paragraphs and links that only wrapped a (now removed) image
+    if (!VOID_ELEMENTS.has(tag) && isEmpty(element)) return;
+
+    result.push(element);
+  });
+
+  return result;
+};
+
+// Parse and sanitize WordPress HTML down to the allow-listed elements and attributes
+export const sanitizeHtml = (html: string): HtmlNode[] => {
+  return sanitizeChildren(parseHtml(html), '#root');
+};
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Back to markup, for output that isn't rendered by React (feeds, the book). `xml`
+// closes void elements (`<br/>`), as the XHTML in an EPUB needs.
+export const serializeHtml = (nodes: HtmlNode[], xml = false): string => {
+  return nodes
+    .map(node => {
+      if (node.type === 'text') return escapeHtml(node.value);
+      const attrs = Object.entries(node.attrs)
+        .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+        .join('');
+      if (VOID_ELEMENTS.has(node.tag)) return `<${node.tag}${attrs}${xml ? '/' : ''}>`;
+      return `<${node.tag}${attrs}>${serializeHtml(node.children, xml)}</${node.tag}>`;
+    })
+    .join('');
+};
+
+// Sanitized markup of a post body. Plain-text posts get a paragraph per block of text.
+export const bodyToHtml = (post: { content: string; content_html?: string }, xml = false): string => {
+  if (post.content_html) return serializeHtml(sanitizeHtml(post.content_html), xml);
+  return post.content
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`)
+    .join('');
+};
+
+const TEXT_BLOCKS = new Set([
+  'p', 'div', 'section', 'article', 'figure', 'ul', 'ol', 'li', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'tr',
+]);
+
+// Plain text of the markup: one line per block element, `<br>` as a line break
+export const htmlToText = (html: string): string => {
+  const lines: string[] = [];
+  let line = '';
+  const flush = () => {
+    const text = line.replace(/\s+/g, ' ').trim();
+    if (text) lines.push(text);
+    line = '';
+  };
+
+  const walk = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type === 'text') {
+        line += node.value;
+        return;
+      }
+      if (DROPPED_ELEMENTS.has(node.tag)) return;
+      if (node.tag === 'br') {
+        flush();
+        return;
+      }
+
+      const isBlock = TEXT_BLOCKS.has(node.tag);
+      if (isBlock) flush();
+      walk(node.children);
+      if (isBlock) flush();
+    });
+  };
+
+  walk(parseHtml(html));
+  flush();
+  return lines.join('\n');
+};
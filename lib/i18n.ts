@@ -0,0 +1,64 @@
+export const LOCALES = ['en', 'de'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Set by the middleware on every localized page, so unprefixed links keep the language
+export const LOCALE_COOKIE = 'locale';
+
+export const LOCALE_NAMES: { [locale in Locale]: string } = {
+  en: 'English',
+  de: 'Deutsch',
+};
+
+// Regional variants used for dates and numbers
+const INTL_LOCALES: { [locale in Locale]: string } = {
+  en: 'en-US',
+  de: 'de-DE',
+};
+
+export const isLocale = (value: string | null | undefined): value is Locale => {
+  return LOCALES.includes(value as Locale);
+};
+
+// The `[locale]` route segment; the layout only renders the known ones
+export const getRouteLocale = (value: string): Locale => (isLocale(value) ? value : DEFAULT_LOCALE);
+
+export const getIntlLocale = (locale: Locale): string => INTL_LOCALES[locale];
+
+// `/posts/at-1` -> `/de/posts/at-1`
+export const localizePath = (locale: Locale, path: string): string => {
+  return `/${locale}${path === '/' ? '' : path}`;
+};
+
+// `/de/posts/at-1` -> `/posts/at-1`
+export const stripLocale = (pathname: string): string => {
+  const [, first, ...rest] = pathname.split('/');
+  if (!isLocale(first)) return pathname;
+  return `/${rest.join('/')}`;
+};
+
+// The best match from an Accept-Language header, by quality and then by order
+export const negotiateLocale = (header: string | null): Locale => {
+  const ranges = (header ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { language: range.split('-')[0].toLowerCase(), quality: quality ? parseFloat(quality.slice(2)) : 1, index };
+    })
+    .filter(range => range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranges.map(range => range.language).find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+// `hreflang` alternates for a page, for the metadata of every localized route. The
+// unprefixed path is the default: the middleware picks the language from there.
+export const getLanguageAlternates = (path: string): { [hreflang: string]: string } => {
+  return {
+    ...Object.fromEntries(LOCALES.map(locale => [locale, localizePath(locale, path)])),
+    'x-default': path,
+  };
+};
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import wordpressImageLoader from './image-loader';
+
+const UPLOAD = 'https://krlwtz.com/wp-content/uploads/2023/04/a6500601.jpg';
+
+describe('wordpressImageLoader (Jetpack)', () => {
+  it('sets the width of a plain upload', () => {
+    expect(wordpressImageLoader({ src: UPLOAD, width: 640 })).toBe(
+      'https://i0.wp.com/krlwtz.com/wp-content/uploads/2023/04/a6500601.jpg?w=640'
+    );
+  });
+
+  it('scales a `w` + `h` box to the width and keeps cropping to it', () => {
+    expect(wordpressImageLoader({ src: `${UPLOAD}?w=580&h=770`, width: 384 })).toBe(
+      'https://i0.wp.com/krlwtz.com/wp-content/uploads/2023/04/a6500601.jpg?resize=384%2C510'
+    );
+  });
+
+  it('scales a `fit` box and keeps fitting into it', () => {
+    expect(wordpressImageLoader({ src: `https://i0.wp.com/krlwtz.com/wp-content/uploads/2023/04/a6500601.jpg?fit=904%2C1200`, width: 768 }))
+      .toBe('https://i0.wp.com/krlwtz.com/wp-content/uploads/2023/04/a6500601.jpg?fit=768%2C1019');
+  });
+
+  it('passes the quality on', () => {
+    expect(wordpressImageLoader({ src: UPLOAD, width: 80, quality: 60 })).toBe(
+      'https://i0.wp.com/krlwtz.com/wp-content/uploads/2023/04/a6500601.jpg?w=80&quality=60'
+    );
+  });
+
+  it('leaves other images alone', () => {
+    expect(wordpressImageLoader({ src: '/icons/icon-192.png', width: 80 })).toBe('/icons/icon-192.png');
+    expect(wordpressImageLoader({ src: 'https://example.com/photo.jpg', width: 80 })).toBe('https://example.com/photo.jpg');
+  });
+});
+
+describe('wordpressImageLoader (local)', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('points at /local-images without the host', async () => {
+    vi.stubEnv('NEXT_PUBLIC_IMAGE_SOURCE', 'local');
+    vi.resetModules();
+    const { default: localLoader } = await import('./image-loader');
+    expect(localLoader({ src: `${UPLOAD}?w=580&h=770`, width: 640, quality: 70 })).toBe(
+      '/local-images/wp-content/uploads/2023/04/a6500601.jpg?w=640&q=70'
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import type { ImageLoaderProps } from 'next/image';
+import { imageKey, parseUrlDimensions } from './images';
+
+// `jetpack` (default) resizes through the Jetpack CDN; `local` resizes files from
+// LOCAL_IMAGE_DIR through /local-images, so the pipeline works without the remote host
+const IMAGE_SOURCE = process.env.NEXT_PUBLIC_IMAGE_SOURCE === 'local' ? 'local' : 'jetpack';
+
+const JETPACK_HOST = 'i0.wp.com';
+
+// The widths `next/image` asks for (next.config.ts), and the only ones /local-images
+// makes: photos in the layout, and thumbnails
+export const IMAGE_WIDTHS = {
+  deviceSizes: [384, 640, 768, 1080, 1280, 1920, 2560],
+  imageSizes: [80, 160, 256],
+};
+
+const isWordPressUpload = (src: string): boolean => {
+  return /^https?:\/\/(?:i\d\.wp\.com\/)?[^/]+\/wp-content\/uploads\//.test(src);
+};
+
+// Jetpack reads `w`, `h`, `fit` and `resize`. A fixed box (`w`+`h` or `resize`) crops to
+// it and `fit` scales into it, so the box is scaled down to the requested width; a plain
+// `w` just sets the width.
+const jetpackUrl = (src: string, width: number, quality?: number): string => {
+  const url = new URL(`https://${JETPACK_HOST}/${imageKey(src)}`);
+  const params = new URL(src).searchParams;
+  const box = parseUrlDimensions(src);
+
+  if (box) {
+    const height = Math.round((width * box.height) / box.width);
+    url.searchParams.set(params.has('fit') ? 'fit' : 'resize', `${width},${height}`);
+  } else {
+    url.searchParams.set('w', String(width));
+  }
+  if (quality) url.searchParams.set('quality', String(quality));
+  return url.toString();
+};
+
+const localUrl = (src: string, width: number, quality?: number): string => {
+  // Drop the host: the local directory mirrors wp-content/uploads
+  const path = imageKey(src).replace(/^[^/]+\//, '');
+  return `/local-images/${path}?w=${width}${quality ? `&q=${quality}` : ''}`;
+};
+
+// Custom `next/image` loader (see next.config.ts). Anything that isn't a WordPress
+// upload is returned as is.
+export default function wordpressImageLoader({ src, width, quality }: ImageLoaderProps): string {
+  if (!isWordPressUpload(src)) return src;
+  return IMAGE_SOURCE === 'local' ? localUrl(src, width, quality) : jetpackUrl(src, width, quality);
+}
@@ -0,0 +1,141 @@
+import type { SyntheticEvent } from 'react';
+import { DEFAULT_LOCALE, Locale } from './i18n';
+import { getMessages } from './messages';
+import { BlogPostData, BlogPostImage } from './posts';
+
+export interface ImageMetadata {
+  width: number;
+  height: number;
+  // Dominant color as a hex string, used as the placeholder while the photo loads
+  color?: string;
+}
+
+// Keyed by `imageKey(src)`; generated by `npm run images` into data/image-metadata.json
+export type ImageMetadataMap = { [key: string]: ImageMetadata };
+
+// The same upload shows up as `krlwtz.com/wp-content/...?w=580&h=770` and as the Jetpack
+// CDN `i0.wp.com/krlwtz.com/wp-content/...?fit=904%2C1200`; both map to the same key
+export const imageKey = (src: string): string => {
+  try {
+    const url = new URL(src);
+    const path = url.hostname.match(/^i\d\.wp\.com$/) ? url.pathname : `/${url.hostname}${url.pathname}`;
+    return path.replace(/^\/+/, '');
+  } catch {
+    return src.split('?')[0];
+  }
+};
+
+// Dimensions encoded in WordPress / Jetpack URLs: `?w=580&h=770` or `?fit=904,1200`
+export const parseUrlDimensions = (src: string): ImageMetadata | null => {
+  try {
+    const params = new URL(src).searchParams;
+    const fit = params.get('fit') ?? params.get('resize');
+    if (fit) {
+      const [width, height] = fit.split(',').map(value => parseInt(value, 10));
+      if (width > 0 && height > 0) return { width, height };
+    }
+
+    const width = parseInt(params.get('w') ?? '', 10);
+    const height = parseInt(params.get('h') ?? '', 10);
+    if (width > 0 && height > 0) return { width, height };
+  } catch {
+    // Relative or malformed URL: nothing encoded in it
+  }
+  return null;
+};
+
+const resolveMetadata = (src: string, metadata: ImageMetadataMap): ImageMetadata | null => {
+  const recorded = metadata[imageKey(src)];
+  const fromUrl = parseUrlDimensions(src);
+  if (recorded && fromUrl) {
+    // Recorded sizes are of the original; scale to the aspect ratio, keep the URL size
+    return { ...fromUrl, color: recorded.color };
+  }
+  return recorded ?? fromUrl;
+};
+
+const withDimensions = (image: BlogPostImage, metadata: ImageMetadataMap): BlogPostImage => {
+  const resolved = resolveMetadata(image.src, metadata);
+  if (!resolved) return image;
+  return {
+    ...image,
+    width: image.width ?? resolved.width,
+    height: image.height ?? resolved.height,
+    color: image.color ?? resolved.color,
+  };
+};
+
+// Attach width, height and placeholder color to every image of a post
+export const withImageMetadata = (post: BlogPostData, metadata: ImageMetadataMap): BlogPostData => {
+  return {
+    ...post,
+    images: post.images?.map(image => withDimensions(image, metadata)),
+  };
+};
+
+export const getAspectRatio = (image: BlogPostImage): number | null => {
+  if (!image.width || !image.height) return null;
+  return image.width / image.height;
+};
+
+export const isLandscape = (image: BlogPostImage): boolean => {
+  const ratio = getAspectRatio(image);
+  return ratio !== null && ratio > 1;
+};
+
+// Hero image for a post: the widest landscape photo if there is one, otherwise the
+// WordPress featured image, otherwise the first photo
+export const findFeaturedImage = (post: BlogPostData): BlogPostImage | null => {
+  const images = post.images ?? [];
+  if (images.length === 0) return null;
+
+  const widest = images.reduce<BlogPostImage | null>((best, image) => {
+    const ratio = getAspectRatio(image) ?? 0;
+    return ratio > (best ? getAspectRatio(best) ?? 0 : 0) ? image : best;
+  }, null);
+  if (widest && isLandscape(widest)) return widest;
+
+  if (post.featured_image) {
+    const featuredKey = imageKey(post.featured_image);
+    const featured = images.find(image => imageKey(image.src) === featuredKey);
+    if (featured) return featured;
+  }
+
+  return images[0];
+};
+
+// Alt text for a photo. Few photos have one in WordPress, and the post title repeated
+// for each of them tells a screen reader user nothing, so say which photo it is instead.
+export const getImageAlt = (image: BlogPostImage, post: BlogPostData, locale: Locale = DEFAULT_LOCALE): string => {
+  if (image.alt) return image.alt;
+  if (image.title) return image.title;
+
+  const messages = getMessages(locale).images;
+  const images = post.images ?? [];
+  const index = images.findIndex(candidate => candidate.src === image.src);
+  if (index === -1 || images.length === 1) return messages.photoFrom(post.title);
+  return messages.photoOfFrom(index + 1, images.length, post.title);
+};
+
+const PLACEHOLDER_COLOR = '#f5f5f5';
+
+// Background shown in the image's box until the photo has loaded
+export const getPlaceholderColor = (image: BlogPostImage): string => {
+  return image.color ?? PLACEHOLDER_COLOR;
+};
+
+// `onLoad` for photos with a placeholder: drops the color once the photo is there, so it
+// doesn't show around letterboxed (object-contain) images
+export const clearPlaceholder = (e: SyntheticEvent<HTMLImageElement>) => {
+  e.currentTarget.style.backgroundColor = 'transparent';
+};
+
+// `sizes` for each place photos are shown, matching the widths in the layout
+export const IMAGE_SIZES = {
+  // One column of the 768px content column from md up, full width below
+  tile: '(min-width: 768px) 384px, 100vw',
+  // 80% of the 1152px article
+  hero: '(min-width: 1152px) 880px, 80vw',
+  lightbox: '(min-width: 1280px) 1280px, 100vw',
+  thumbnail: '80px',
+};
@@ -0,0 +1,57 @@
+import { BlogPostData, BlogPostImage } from './posts';
+
+export interface LightboxPosition {
+  postIndex: number;
+  imageIndex: number;
+}
+
+// `#at-64/photo/3` is the third photo of the post `at-64`; photo numbers are 1-based
+const PHOTO_HASH = /^(.+)\/photo\/(\d+)$/;
+
+export const parsePhotoHash = (hash: string): { slug: string; photo: number | null } => {
+  const match = hash.match(PHOTO_HASH);
+  if (!match) return { slug: hash, photo: null };
+  return { slug: match[1], photo: parseInt(match[2], 10) };
+};
+
+export const getPhotoHash = (slug: string, imageIndex: number): string => {
+  return `${slug}/photo/${imageIndex + 1}`;
+};
+
+// Move one photo forward or back. Within a post this wraps around, unless
+// `acrossPosts` is set: then it carries on into the neighbouring post in `order`
+// (indexes into `posts`) that has photos, and stops at the ends of the feed.
+export const stepLightbox = (
+  posts: BlogPostData[],
+  order: number[],
+  position: LightboxPosition,
+  direction: 'prev' | 'next',
+  acrossPosts: boolean
+): LightboxPosition | null => {
+  const total = posts[position.postIndex]?.images?.length ?? 0;
+  if (total === 0) return null;
+
+  const step = direction === 'next' ? 1 : -1;
+  const imageIndex = position.imageIndex + step;
+  if (imageIndex >= 0 && imageIndex < total) {
+    return { postIndex: position.postIndex, imageIndex };
+  }
+
+  if (!acrossPosts) {
+    if (total === 1) return null;
+    return { postIndex: position.postIndex, imageIndex: (imageIndex + total) % total };
+  }
+
+  for (let i = order.indexOf(position.postIndex) + step; i >= 0 && i < order.length; i += step) {
+    const images = posts[order[i]]?.images ?? [];
+    if (images.length > 0) {
+      return { postIndex: order[i], imageIndex: step > 0 ? 0 : images.length - 1 };
+    }
+  }
+  return null;
+};
+
+// Caption under a photo: the image title from WordPress, falling back to the alt text
+export const getImageCaption = (image: BlogPostImage): string | null => {
+  return image.title || image.alt || null;
+};
@@ -0,0 +1,47 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const cwd = process.cwd();
+let dir: string;
+let loader: typeof import('./load-posts');
+
+beforeAll(async () => {
+  // The loader reads data/ from the working directory
+  dir = await mkdtemp(path.join(tmpdir(), 'load-posts-'));
+  await mkdir(path.join(dir, 'data'));
+  await writeFile(path.join(dir, 'data', 'blog_posts.json'), JSON.stringify([
+    { url: 'https://krlwtz.com/a/', title: 'Published', date: '2024-08-01T10:00:00Z', content: 'a' },
+    { url: 'https://krlwtz.com/b/', title: 'Scheduled', date: '2024-08-02T10:00:00Z', content: 'b', publish_at: '2024-09-01T08:00:00Z' },
+    { url: 'https://krlwtz.com/c/', title: 'Draft', date: '2024-08-03T10:00:00Z', content: 'c', draft: true },
+  ]));
+  process.chdir(dir);
+  loader = await import('./load-posts');
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterAll(async () => {
+  vi.useRealTimers();
+  process.chdir(cwd);
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('getAllPosts', () => {
+  it('shows a scheduled post once its date has passed, without a reload', async () => {
+    vi.setSystemTime(new Date('2024-08-31T12:00:00Z'));
+    expect((await loader.getAllPosts()).map(post => post.title)).toEqual(['Published']);
+
+    vi.setSystemTime(new Date('2024-09-01T08:00:00Z'));
+    expect((await loader.getAllPosts()).map(post => post.title)).toEqual(['Published', 'Scheduled']);
+    const [, scheduled] = await loader.getPostsToGenerate();
+    expect((await loader.getPostBySlug(scheduled.slug!))?.post.title).toBe('Scheduled');
+  });
+});
+
+describe('getPostsToGenerate', () => {
+  it('has scheduled posts but no drafts', async () => {
+    vi.setSystemTime(new Date('2024-08-31T12:00:00Z'));
+    expect((await loader.getPostsToGenerate()).map(post => post.title)).toEqual(['Published', 'Scheduled']);
+  });
+});
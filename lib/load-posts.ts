@@ -0,0 +1,113 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ImageMetadataMap, withImageMetadata } from './images';
+import { BlogPostData, isPublished, sortPosts } from './posts';
+import { formatIssue, validatePosts } from './schema';
+import { SlugRegistry, updateSlugRegistry, withSlugs } from './slugs';
+import { hasTag, summarizeTags, tagPosts, TagRules } from './tags';
+import { groupPostsByTrip } from './trips';
+
+const POSTS_FILE = path.join(process.cwd(), 'data', 'blog_posts.json');
+const IMAGE_METADATA_FILE = path.join(process.cwd(), 'data', 'image-metadata.json');
+const TAG_RULES_FILE = path.join(process.cwd(), 'data', 'tag-rules.json');
+const SLUGS_FILE = path.join(process.cwd(), 'data', 'slugs.json');
+
+// Image sizes and colors are optional: without them we fall back to the sizes in the URLs
+const readImageMetadata = (): Promise<ImageMetadataMap> => {
+  return readFile(IMAGE_METADATA_FILE, 'utf8')
+    .then(raw => JSON.parse(raw) as ImageMetadataMap)
+    .catch(() => ({}));
+};
+
+// A missing rules file means no auto-tags, but a broken one should fail the build
+const readTagRules = (): Promise<TagRules> => {
+  return readFile(TAG_RULES_FILE, 'utf8').then(
+    raw => JSON.parse(raw) as TagRules,
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return { rules: [] };
+      throw error;
+    }
+  );
+};
+
+// Posts missing from the registry get a slug in memory; `npm run slugs` records them
+const readSlugRegistry = (): Promise<SlugRegistry> => {
+  return readFile(SLUGS_FILE, 'utf8').then(
+    raw => JSON.parse(raw) as SlugRegistry,
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  );
+};
+
+let postsPromise: Promise<BlogPostData[]> | null = null;
+
+// Read and sort the journal once per build / server process, drafts left out. Scheduled
+// posts are kept and get their slugs now, so those don't change on publishing.
+const loadPosts = (): Promise<BlogPostData[]> => {
+  if (!postsPromise) {
+    postsPromise = Promise.all([
+      readFile(POSTS_FILE, 'utf8'),
+      readImageMetadata(),
+      readTagRules(),
+      readSlugRegistry(),
+    ]).then(([raw, metadata, tagRules, slugs]) => {
+      // Broken entries are dropped here; `npm run check:data` fails the build on them
+      const { posts: valid, issues } = validatePosts(JSON.parse(raw));
+      issues.forEach(issue => console.warn(`blog_posts.json ${formatIssue(issue)}`));
+      const posts = withSlugs(sortPosts(valid), updateSlugRegistry(valid, slugs));
+      const tagged = tagPosts(posts.map(post => withImageMetadata(post, metadata)), tagRules.rules);
+      return tagged.filter(post => !post.draft);
+    });
+  }
+  return postsPromise;
+};
+
+// The posts on the site right now. Posts scheduled for later are checked on every call,
+// so a page re-rendered after the publish date has them (see `revalidate` on the routes).
+export const getAllPosts = async (): Promise<BlogPostData[]> => {
+  return (await loadPosts()).filter(post => isPublished(post));
+};
+
+// Published and scheduled posts, for `generateStaticParams`: the pages of a scheduled
+// post are generated as 404s and fill in once re-rendered after its publish date
+export const getPostsToGenerate = (): Promise<BlogPostData[]> => loadPosts();
+
+// After /admin changed the posts file, so pages rendered from now on read it again
+export const clearPostsCache = () => {
+  postsPromise = null;
+};
+
+export const getPostBySlug = async (slug: string) => {
+  const posts = await getAllPosts();
+  const index = posts.findIndex(post => post.slug === slug);
+  if (index === -1) return null;
+
+  return {
+    post: posts[index],
+    previous: index > 0 ? posts[index - 1] : null,
+    next: index < posts.length - 1 ? posts[index + 1] : null,
+  };
+};
+
+export const getAllTrips = async () => {
+  return groupPostsByTrip(await getAllPosts());
+};
+
+export const getTripBySlug = async (slug: string) => {
+  const trips = await getAllTrips();
+  return trips.find(trip => trip.slug === slug) ?? null;
+};
+
+export const getAllTags = async () => {
+  return summarizeTags(await getAllPosts());
+};
+
+export const getTagBySlug = async (slug: string) => {
+  const [posts, tags] = await Promise.all([getAllPosts(), getAllTags()]);
+  const tag = tags.find(candidate => candidate.slug === slug);
+  if (!tag) return null;
+
+  return { ...tag, posts: posts.filter(post => hasTag(post, slug)) };
+};
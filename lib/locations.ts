@@ -0,0 +1,158 @@
+import { LatLon, median, pointAtMile, TRAIL_GEOMETRY } from './geo';
+import { parseHtml, HtmlNode } from './html';
+import { PostMileage } from './mileage';
+import { BlogPostData, getPostSlug } from './posts';
+import { getPostTripSlug, parsePostTitle } from './trips';
+
+export type LocationSource = 'override' | 'photo' | 'place' | 'mile';
+
+export interface PostLocation {
+  lat: number;
+  lon: number;
+  source: LocationSource;
+}
+
+// Hand-placed posts, keyed by post slug. Wins over everything we can extract.
+export const LOCATION_OVERRIDES: { [slug: string]: LatLon } = {};
+
+// Towns, shelters and landmarks that show up in post titles. Keys are matched
+// case-insensitively as whole words against the clean title.
+export const PLACES: { [name: string]: LatLon } = {
+  'amicalola': [34.5579, -84.2488],
+  'approach trail': [34.5579, -84.2488],
+  'blood mountain': [34.7398, -83.9372],
+  'standing indian': [35.039, -83.549],
+  'albert mountain': [35.052, -83.478],
+  'franklin': [35.1823, -83.3815],
+  'wayah': [35.18, -83.56],
+  'noc': [35.331, -83.592],
+  'fontana dam': [35.451, -83.811],
+  'smokies': [35.611, -83.425],
+  'max patch': [35.796, -82.962],
+  'hot springs': [35.893, -82.828],
+  'big firescald knob': [35.939, -82.741],
+  'big bald': [35.974, -82.482],
+  'erwin': [36.12, -82.44],
+  'unaka mountain': [36.133, -82.311],
+  'roan high knob': [36.105, -82.122],
+  'roan highland': [36.1, -82.08],
+  'damascus': [36.634, -81.787],
+  'trail days': [36.634, -81.787],
+  'grayson highlands': [36.633, -81.504],
+  'woods hole': [37.2437, -80.8765],
+  'pearisburg': [37.327, -80.737],
+  'audie murphy': [37.406, -80.244],
+  'mcafee knob': [37.392, -80.036],
+  'roanoke': [37.271, -79.941],
+  'glasgow': [37.634, -79.451],
+  'buena vista': [37.734, -79.354],
+  'the priest': [37.82, -79.057],
+  'waynesboro': [38.068, -78.889],
+  'shenandoah': [38.53, -78.44],
+  'harpers ferry': [39.324, -77.73],
+  'duncannon': [40.396, -77.03],
+  '501 shelter': [40.46, -76.32],
+  'delaware': [40.97, -75.14],
+  'dwg': [40.97, -75.14],
+  'new york state': [41.19, -74.35],
+  'bear mountain bypass': [41.312, -73.988],
+  'connecticut': [41.62, -73.51],
+  'salisbury': [41.984, -73.421],
+  'bear mountain mount everett': [42.05, -73.43],
+  'upper goose pond': [42.29, -73.18],
+  'dalton': [42.473, -73.166],
+  'mount greylock': [42.637, -73.166],
+  'vermont': [42.746, -73.16],
+  'bromley mountain': [43.228, -72.94],
+  'little rock pond': [43.398, -72.955],
+  'killington': [43.605, -72.82],
+  'hanover': [43.702, -72.289],
+  'smarts mountain': [43.826, -72.07],
+  'mount moosilauke': [44.024, -71.831],
+  'kinsmen': [44.131, -71.75],
+  'franconia ridge': [44.16, -71.644],
+  'washington': [44.27, -71.303],
+  'presidentials': [44.32, -71.28],
+  'wildcat': [44.259, -71.2],
+  'maine': [44.492, -71.02],
+  'mahoosic': [44.543, -70.96],
+  'baldplates': [44.62, -70.89],
+  'saddleback': [44.936, -70.504],
+  'crocker': [45.05, -70.37],
+  'bigelows': [45.14, -70.31],
+  'kennebec': [45.231, -69.999],
+  'katahdin': [45.9044, -68.9213],
+  'white wolf': [37.8697, -119.6489],
+  'ten lakes': [37.9, -119.52],
+  'tuolumne': [37.9, -119.45],
+  'half dome': [37.7459, -119.5332],
+};
+
+const PLACE_NAMES = Object.keys(PLACES).sort((a, b) => b.length - a.length);
+
+// Named place in the title; longer names win so "Bear Mountain Bypass" beats "Bear Mountain"
+export const findPlaceInTitle = (title: string): LatLon | null => {
+  const clean = parsePostTitle(title).title.toLowerCase();
+  const name = PLACE_NAMES.find(place => new RegExp(`\\b${place}\\b`).test(clean));
+  return name ? PLACES[name] : null;
+};
+
+// GPS coordinates from the WordPress `data-image-meta` attributes of the post's photos
+export const extractPhotoCoordinates = (post: BlogPostData): LatLon[] => {
+  if (!post.content_html) return [];
+
+  const coordinates: LatLon[] = [];
+  const visit = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type !== 'element') return;
+      if (node.tag === 'img' && node.attrs['data-image-meta']) {
+        try {
+          const meta = JSON.parse(node.attrs['data-image-meta']);
+          const lat = parseFloat(meta.latitude);
+          const lon = parseFloat(meta.longitude);
+          if (Number.isFinite(lat) && Number.isFinite(lon) && (lat !== 0 || lon !== 0)) {
+            coordinates.push([lat, lon]);
+          }
+        } catch {
+          // Broken metadata on one photo shouldn't hide the others
+        }
+      }
+      visit(node.children);
+    });
+  };
+  visit(parseHtml(post.content_html));
+
+  return coordinates;
+};
+
+// Where a post happened: a configured override, the photos' GPS (median, so one photo
+// taken from a car window doesn't drag the marker away), a place named in the title,
+// or the post's trail mile on the bundled trail geometry
+export const resolvePostLocation = (
+  post: BlogPostData,
+  mileage?: PostMileage | null
+): PostLocation | null => {
+  const override = LOCATION_OVERRIDES[getPostSlug(post)];
+  if (override) return { lat: override[0], lon: override[1], source: 'override' };
+
+  const photos = extractPhotoCoordinates(post);
+  if (photos.length > 0) {
+    return {
+      lat: median(photos.map(([lat]) => lat)),
+      lon: median(photos.map(([, lon]) => lon)),
+      source: 'photo',
+    };
+  }
+
+  const place = findPlaceInTitle(post.title);
+  if (place) return { lat: place[0], lon: place[1], source: 'place' };
+
+  const tripSlug = getPostTripSlug(post);
+  const geometry = tripSlug ? TRAIL_GEOMETRY[tripSlug] : undefined;
+  if (geometry && mileage) {
+    const [lat, lon] = pointAtMile(geometry, mileage.mile);
+    return { lat, lon, source: 'mile' };
+  }
+
+  return null;
+};
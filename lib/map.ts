@@ -0,0 +1,75 @@
+import { LatLon, pointAtMile, TRAIL_GEOMETRY } from './geo';
+import { LocationSource, resolvePostLocation } from './locations';
+import { computeMileage, TRAILS } from './mileage';
+import { BlogPostData, getPostSlug } from './posts';
+import { groupPostsByTrip, parsePostTitle } from './trips';
+
+export interface MapMarker {
+  slug: string;
+  title: string;
+  day: number | null;
+  date: string;
+  image: string | null;
+  lat: number;
+  lon: number;
+  source: LocationSource;
+}
+
+export interface MapBorder {
+  abbr: string;
+  name: string;
+  point: LatLon;
+}
+
+export interface MapTrip {
+  slug: string;
+  name: string;
+  // The bundled trail line, or the posts' own locations joined up for trips without one
+  route: LatLon[];
+  borders: MapBorder[];
+  markers: MapMarker[];
+}
+
+// Everything the map needs, computed at build time so the client only gets plain data
+export const buildMapTrips = (posts: BlogPostData[]): MapTrip[] => {
+  const mileage = computeMileage(posts);
+
+  return groupPostsByTrip(posts).map(trip => {
+    const markers: MapMarker[] = [];
+    trip.posts.forEach(post => {
+      const location = resolvePostLocation(post, mileage.get(post.url));
+      if (!location) return;
+
+      const { day, title } = parsePostTitle(post.title);
+      markers.push({
+        slug: getPostSlug(post),
+        title,
+        day,
+        date: post.date,
+        image: post.featured_image || post.images?.[0]?.src || null,
+        lat: location.lat,
+        lon: location.lon,
+        source: location.source,
+      });
+    });
+
+    const geometry = TRAIL_GEOMETRY[trip.slug];
+    const trail = TRAILS[trip.slug];
+
+    return {
+      slug: trip.slug,
+      name: trip.name,
+      route: geometry
+        ? geometry.map(({ lat, lon }): LatLon => [lat, lon])
+        : markers.map(({ lat, lon }): LatLon => [lat, lon]),
+      borders: geometry && trail
+        ? trail.states.slice(1).map(state => ({
+            abbr: state.abbr,
+            name: state.name,
+            point: pointAtMile(geometry, state.startMile),
+          }))
+        : [],
+      markers,
+    };
+  });
+};
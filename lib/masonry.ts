@@ -0,0 +1,10 @@
+// Masonry (CSS Grid): an item spans as many 8px rows as its photo is tall
+export const setRowSpan = (item: HTMLElement, grid: HTMLElement) => {
+  const styles = window.getComputedStyle(grid);
+  const rowHeight = parseFloat(styles.getPropertyValue('grid-auto-rows')) || 8;
+  const rowGap = parseFloat(styles.getPropertyValue('row-gap')) || 16;
+  const content = (item.querySelector('img') as HTMLElement) || item;
+  const height = content.getBoundingClientRect().height;
+  const rowSpan = Math.max(1, Math.ceil((height + rowGap) / (rowHeight + rowGap)));
+  item.style.gridRowEnd = `span ${rowSpan}`;
+};
@@ -0,0 +1,348 @@
+import { DEFAULT_LOCALE, Locale } from './i18n';
+
+// UI strings per locale. English is the reference; every other locale has to provide
+// the same keys, which the `Messages` type checks. Counts are passed to functions so
+// each language can pick its own plural forms.
+
+const en = {
+  site: {
+    description: 'A journey through the wilderness',
+    language: 'Language',
+  },
+  common: {
+    close: 'Close',
+    tags: 'Tags',
+    trips: 'Trips',
+    map: 'Map',
+    archive: 'Archive',
+    inNumbers: 'In numbers',
+    day: (day: number) => `Day ${day}`,
+    entries: (count: number) => `${count} ${count === 1 ? 'entry' : 'entries'}`,
+    photos: (count: number) => `${count} ${count === 1 ? 'photo' : 'photos'}`,
+    days: (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`,
+  },
+  home: {
+    loading: 'Loading journal entries...',
+    error: (message: string) => `Error loading posts: ${message}`,
+    updates: (count: number) => `${count} updates from mostly outside`,
+    dayOf: (day: number, total: number) => `Day ${day} of ${total}`,
+    allMonths: 'All months',
+    keyboardHint: 'Press j / k to move between entries.',
+    continueReading: 'Continue reading:',
+    newSinceLastVisit: (count: number) => `${count} new ${count === 1 ? 'entry' : 'entries'} since your last visit`,
+    dismiss: 'Dismiss',
+    new: 'New',
+    share: 'Share',
+    sharePost: 'Share post',
+    shareText: (title: string) => `Check out this post: ${title}`,
+    linkCopied: 'Link copied!',
+    showMore: (count: number) => `Show more entries (${count} left)`,
+  },
+  sortOrder: {
+    label: 'Order of entries',
+    oldest: 'From the start',
+    newest: 'Newest first',
+  },
+  tagFilter: {
+    label: 'Filter by tag',
+    all: 'All tags',
+  },
+  tripSwitcher: {
+    all: 'All',
+  },
+  search: {
+    placeholder: 'Search the journal…',
+    label: 'Search journal entries',
+    loading: 'Loading search…',
+    noResults: (query: string) => `No entries match “${query}”`,
+    results: 'Search results',
+  },
+  images: {
+    photoFrom: (title: string) => `Photo from “${title}”`,
+    photoOfFrom: (index: number, total: number, title: string) => `Photo ${index} of ${total} from “${title}”`,
+  },
+  lightbox: {
+    keyboardHints: '← → Navigate · + − Zoom · ESC Close',
+    continueAcrossPosts: 'Continue into other entries',
+    close: 'Close lightbox',
+    previous: 'Previous image',
+    next: 'Next image',
+    photoOf: (index: number, total: number) => `Photo ${index} of ${total}`,
+  },
+  post: {
+    navigation: 'Journal entries',
+    previous: '← Previous',
+    next: 'Next →',
+    // "~" when the position is interpolated between entries
+    mile: (mile: string, estimated: boolean) => `${estimated ? '~' : ''}Mile ${mile}`,
+  },
+  trip: {
+    description: (count: number, from: string, to: string) => `${count} journal entries from ${from} to ${to}`,
+  },
+  tag: {
+    title: (name: string) => `Tagged “${name}”`,
+    description: (count: number, name: string) => `${count} journal entries tagged “${name}”`,
+  },
+  map: {
+    description: 'Every journal entry on the trail, on one map',
+    empty: 'No trips to show yet.',
+    label: (trip: string, count: number) => `Map of ${trip} with ${count} journal entries`,
+    entering: (state: string) => `Entering ${state}`,
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    reset: 'Reset map',
+    readEntry: 'Read entry',
+    hint: 'Scroll to zoom, drag to pan. Entries are placed by photo location where available.',
+  },
+  trail: {
+    jumpTo: (state: string) => `Jump to ${state}`,
+  },
+  archive: {
+    description: 'Every journal entry by year, trip and month',
+    monthDescription: (count: number, month: string) => `${count} journal entries from ${month}`,
+    months: 'Months',
+    other: 'Other',
+  },
+  stats: {
+    description: 'Days, miles, photos and words for every trip',
+    tripTitle: (trip: string) => `${trip} in numbers`,
+    tripDescription: (count: number) => `Days, miles, photos and words from ${count} journal entries`,
+    tripNavigation: 'Trip statistics',
+    milesPerDaySummary: (miles: string) => `${miles} miles per day`,
+    days: 'Days',
+    trailDays: (day: number) => `Up to day ${day} in the titles`,
+    zeroDays: 'Zero days',
+    zeroDaysDetail: 'Entries tagged “zero day”',
+    milesPerDay: 'Miles per day',
+    milesPerDayDetail: 'Between stated mile markers',
+    noMileage: 'No mileage for this trip',
+    photosPerDay: 'Photos per day',
+    words: 'Words',
+    wordsPerDay: 'Words per day',
+    longestGap: 'Longest gap',
+    postedEveryDay: 'Posted every day',
+    activity: 'Posting activity',
+    activityLabel: (from: string, to: string) => `Posts per day from ${from} to ${to}`,
+    posts: (count: number) => `${count} ${count === 1 ? 'post' : 'posts'}`,
+    weekdays: ['Mon', '', 'Wed', '', 'Fri', '', ''],
+    milesChartLabel: 'Average miles per day between mile markers',
+    milesSegment: (from: string, to: string, miles: string, days: number) => `${from} – ${to}: ${miles} miles in ${days} days`,
+    photosChartLabel: 'Photos posted per day',
+    wordsChartLabel: 'Words written per day',
+    longestSilence: 'The longest silence was between',
+    and: 'and',
+  },
+  offline: {
+    save: 'Save for offline reading',
+    saving: (done: number, total: number) => `Saving for offline reading … ${done} of ${total}`,
+    saved: (date: string) => `Saved for offline reading on ${date}`,
+    remove: 'Remove offline copy',
+    failed: 'Saving failed. There may not be enough storage left.',
+    contents: (pages: number, photos: number) => `${pages} pages and ${photos} photos`,
+    storage: (usage: string, quota: string) => `Offline storage: ${usage} of ${quota} used`,
+    newEntries: (count: number) => `${count} new ${count === 1 ? 'entry' : 'entries'}`,
+    showNewEntries: 'Show',
+    unavailable: 'You are offline, and the journal has not been saved on this device yet.',
+  },
+  book: {
+    link: 'Print as a book',
+    contents: 'Contents',
+    print: 'Print or save as PDF',
+    printHint: 'A5 pages with page numbers. Turn off headers and footers in the print dialog.',
+  },
+  comments: {
+    heading: 'Comments',
+    count: (count: number) => `${count} ${count === 1 ? 'comment' : 'comments'}`,
+    empty: 'No comments yet.',
+    loading: 'Loading comments …',
+    loadFailed: 'Comments could not be loaded.',
+    name: 'Name',
+    body: 'Comment',
+    submit: 'Post comment',
+    submitting: 'Posting …',
+    reply: 'Reply',
+    replyTo: (name: string) => `Reply to ${name}`,
+    cancel: 'Cancel',
+    pending: 'Awaiting moderation',
+    pendingNotice: 'Thanks! Your comment appears for everyone once it has been approved.',
+    reactions: 'Reactions',
+    react: (emoji: string) => `React with ${emoji}`,
+    newReplies: (count: number) => `${count} new ${count === 1 ? 'reply' : 'replies'} to your comments`,
+    replyOn: (name: string, title: string) => `${name} on “${title}”`,
+  },
+};
+
+export type Messages = typeof en;
+
+const de: Messages = {
+  site: {
+    description: 'Eine Reise durch die Wildnis',
+    language: 'Sprache',
+  },
+  common: {
+    close: 'Schließen',
+    tags: 'Schlagwörter',
+    trips: 'Touren',
+    map: 'Karte',
+    archive: 'Archiv',
+    inNumbers: 'In Zahlen',
+    day: (day: number) => `Tag ${day}`,
+    entries: (count: number) => `${count} ${count === 1 ? 'Eintrag' : 'Einträge'}`,
+    photos: (count: number) => `${count} ${count === 1 ? 'Foto' : 'Fotos'}`,
+    days: (count: number) => `${count} ${count === 1 ? 'Tag' : 'Tage'}`,
+  },
+  home: {
+    loading: 'Tagebucheinträge werden geladen …',
+    error: (message: string) => `Fehler beim Laden der Einträge: ${message}`,
+    updates: (count: number) => `${count} Berichte von meistens draußen`,
+    dayOf: (day: number, total: number) => `Tag ${day} von ${total}`,
+    allMonths: 'Alle Monate',
+    keyboardHint: 'Mit j / k zwischen den Einträgen wechseln.',
+    continueReading: 'Weiterlesen:',
+    newSinceLastVisit: (count: number) =>
+      `${count} ${count === 1 ? 'neuer Eintrag' : 'neue Einträge'} seit deinem letzten Besuch`,
+    dismiss: 'Ausblenden',
+    new: 'Neu',
+    share: 'Teilen',
+    sharePost: 'Eintrag teilen',
+    shareText: (title: string) => `Schau dir diesen Eintrag an: ${title}`,
+    linkCopied: 'Link kopiert!',
+    showMore: (count: number) => `Weitere Einträge anzeigen (noch ${count})`,
+  },
+  sortOrder: {
+    label: 'Reihenfolge der Einträge',
+    oldest: 'Von Anfang an',
+    newest: 'Neueste zuerst',
+  },
+  tagFilter: {
+    label: 'Nach Schlagwort filtern',
+    all: 'Alle Schlagwörter',
+  },
+  tripSwitcher: {
+    all: 'Alle',
+  },
+  search: {
+    placeholder: 'Im Tagebuch suchen …',
+    label: 'Tagebucheinträge durchsuchen',
+    loading: 'Suche wird geladen …',
+    noResults: (query: string) => `Keine Einträge zu „${query}“`,
+    results: 'Suchergebnisse',
+  },
+  images: {
+    photoFrom: (title: string) => `Foto aus „${title}“`,
+    photoOfFrom: (index: number, total: number, title: string) => `Foto ${index} von ${total} aus „${title}“`,
+  },
+  lightbox: {
+    keyboardHints: '← → Blättern · + − Zoomen · ESC Schließen',
+    continueAcrossPosts: 'In anderen Einträgen weiterblättern',
+    close: 'Bildansicht schließen',
+    previous: 'Vorheriges Bild',
+    next: 'Nächstes Bild',
+    photoOf: (index: number, total: number) => `Foto ${index} von ${total}`,
+  },
+  post: {
+    navigation: 'Tagebucheinträge',
+    previous: '← Vorheriger',
+    next: 'Nächster →',
+    mile: (mile: string, estimated: boolean) => `${estimated ? '~' : ''}Meile ${mile}`,
+  },
+  trip: {
+    description: (count: number, from: string, to: string) => `${count} Tagebucheinträge vom ${from} bis ${to}`,
+  },
+  tag: {
+    title: (name: string) => `Verschlagwortet mit „${name}“`,
+    description: (count: number, name: string) => `${count} Tagebucheinträge mit dem Schlagwort „${name}“`,
+  },
+  map: {
+    description: 'Alle Tagebucheinträge vom Trail auf einer Karte',
+    empty: 'Noch keine Touren zum Anzeigen.',
+    label: (trip: string, count: number) => `Karte: ${trip} mit ${count} Tagebucheinträgen`,
+    entering: (state: string) => `Grenze nach ${state}`,
+    zoomIn: 'Vergrößern',
+    zoomOut: 'Verkleinern',
+    reset: 'Karte zurücksetzen',
+    readEntry: 'Eintrag lesen',
+    hint: 'Zum Zoomen scrollen, zum Verschieben ziehen. Einträge sind, wo möglich, nach dem Aufnahmeort der Fotos platziert.',
+  },
+  trail: {
+    jumpTo: (state: string) => `Springe zu ${state}`,
+  },
+  archive: {
+    description: 'Alle Tagebucheinträge nach Jahr, Tour und Monat',
+    monthDescription: (count: number, month: string) => `${count} Tagebucheinträge aus dem ${month}`,
+    months: 'Monate',
+    other: 'Sonstiges',
+  },
+  stats: {
+    description: 'Tage, Meilen, Fotos und Wörter jeder Tour',
+    tripTitle: (trip: string) => `${trip} in Zahlen`,
+    tripDescription: (count: number) => `Tage, Meilen, Fotos und Wörter aus ${count} Tagebucheinträgen`,
+    tripNavigation: 'Tourstatistiken',
+    milesPerDaySummary: (miles: string) => `${miles} Meilen pro Tag`,
+    days: 'Tage',
+    trailDays: (day: number) => `Bis Tag ${day} in den Titeln`,
+    zeroDays: 'Ruhetage',
+    zeroDaysDetail: 'Einträge mit dem Schlagwort „zero day“',
+    milesPerDay: 'Meilen pro Tag',
+    milesPerDayDetail: 'Zwischen angegebenen Meilenmarken',
+    noMileage: 'Keine Meilenangaben für diese Tour',
+    photosPerDay: 'Fotos pro Tag',
+    words: 'Wörter',
+    wordsPerDay: 'Wörter pro Tag',
+    longestGap: 'Längste Pause',
+    postedEveryDay: 'Jeden Tag geschrieben',
+    activity: 'Schreibaktivität',
+    activityLabel: (from: string, to: string) => `Einträge pro Tag vom ${from} bis ${to}`,
+    posts: (count: number) => `${count} ${count === 1 ? 'Eintrag' : 'Einträge'}`,
+    weekdays: ['Mo', '', 'Mi', '', 'Fr', '', ''],
+    milesChartLabel: 'Durchschnittliche Meilen pro Tag zwischen Meilenmarken',
+    milesSegment: (from: string, to: string, miles: string, days: number) =>
+      `${from} – ${to}: ${miles} Meilen in ${days} ${days === 1 ? 'Tag' : 'Tagen'}`,
+    photosChartLabel: 'Gepostete Fotos pro Tag',
+    wordsChartLabel: 'Geschriebene Wörter pro Tag',
+    longestSilence: 'Die längste Funkstille war zwischen',
+    and: 'und',
+  },
+  offline: {
+    save: 'Zum Offline-Lesen speichern',
+    saving: (done: number, total: number) => `Wird zum Offline-Lesen gespeichert … ${done} von ${total}`,
+    saved: (date: string) => `Am ${date} zum Offline-Lesen gespeichert`,
+    remove: 'Offline-Kopie entfernen',
+    failed: 'Speichern fehlgeschlagen. Möglicherweise ist nicht genug Speicher frei.',
+    contents: (pages: number, photos: number) => `${pages} Seiten und ${photos} Fotos`,
+    storage: (usage: string, quota: string) => `Offline-Speicher: ${usage} von ${quota} belegt`,
+    newEntries: (count: number) => `${count} ${count === 1 ? 'neuer Eintrag' : 'neue Einträge'}`,
+    showNewEntries: 'Anzeigen',
+    unavailable: 'Du bist offline, und das Tagebuch wurde auf diesem Gerät noch nicht gespeichert.',
+  },
+  book: {
+    link: 'Als Buch drucken',
+    contents: 'Inhalt',
+    print: 'Drucken oder als PDF speichern',
+    printHint: 'A5-Seiten mit Seitenzahlen. Kopf- und Fußzeilen im Druckdialog ausschalten.',
+  },
+  comments: {
+    heading: 'Kommentare',
+    count: (count: number) => `${count} ${count === 1 ? 'Kommentar' : 'Kommentare'}`,
+    empty: 'Noch keine Kommentare.',
+    loading: 'Kommentare werden geladen …',
+    loadFailed: 'Die Kommentare konnten nicht geladen werden.',
+    name: 'Name',
+    body: 'Kommentar',
+    submit: 'Kommentar senden',
+    submitting: 'Wird gesendet …',
+    reply: 'Antworten',
+    replyTo: (name: string) => `Antwort an ${name}`,
+    cancel: 'Abbrechen',
+    pending: 'Wartet auf Freigabe',
+    pendingNotice: 'Danke! Dein Kommentar ist für alle sichtbar, sobald er freigegeben wurde.',
+    reactions: 'Reaktionen',
+    react: (emoji: string) => `Mit ${emoji} reagieren`,
+    newReplies: (count: number) => `${count} ${count === 1 ? 'neue Antwort' : 'neue Antworten'} auf deine Kommentare`,
+    replyOn: (name: string, title: string) => `${name} zu „${title}“`,
+  },
+};
+
+const MESSAGES: { [locale in Locale]: Messages } = { en, de };
+
+export const getMessages = (locale: Locale = DEFAULT_LOCALE): Messages => MESSAGES[locale];
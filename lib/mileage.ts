@@ -0,0 +1,154 @@
+import { BlogPostData } from './posts';
+import { getTripSlug, parsePostTitle } from './trips';
+
+export interface TrailState {
+  name: string;
+  abbr: string;
+  startMile: number;
+}
+
+export interface Trail {
+  length: number;
+  states: TrailState[];
+}
+
+export interface PostMileage {
+  mile: number;
+  // True when the mile was interpolated from neighbouring posts rather than read from this one
+  estimated: boolean;
+}
+
+// Trails we can place posts on, keyed by trip slug. Mileage is northbound (2023 data book).
+export const TRAILS: { [tripSlug: string]: Trail } = {
+  at: {
+    length: 2198.4,
+    states: [
+      { name: 'Georgia', abbr: 'GA', startMile: 0 },
+      { name: 'North Carolina / Tennessee', abbr: 'NC/TN', startMile: 78.5 },
+      { name: 'Virginia', abbr: 'VA', startMile: 469.4 },
+      { name: 'West Virginia', abbr: 'WV', startMile: 1023.9 },
+      { name: 'Maryland', abbr: 'MD', startMile: 1028.1 },
+      { name: 'Pennsylvania', abbr: 'PA', startMile: 1068.1 },
+      { name: 'New Jersey', abbr: 'NJ', startMile: 1296.6 },
+      { name: 'New York', abbr: 'NY', startMile: 1368.8 },
+      { name: 'Connecticut', abbr: 'CT', startMile: 1458.9 },
+      { name: 'Massachusetts', abbr: 'MA', startMile: 1510.5 },
+      { name: 'Vermont', abbr: 'VT', startMile: 1601.1 },
+      { name: 'New Hampshire', abbr: 'NH', startMile: 1751.8 },
+      { name: 'Maine', abbr: 'ME', startMile: 1912.8 },
+    ],
+  },
+};
+
+const parseMiles = (value: string): number => parseFloat(value.replace(/,/g, ''));
+
+// Cumulative trail position mentioned in a post, if any. Daily distances ("did 15 miles")
+// are deliberately ignored; only markers and milestones count.
+export const extractMileage = (post: BlogPostData, trail: Trail): number | null => {
+  const { title } = parsePostTitle(post.title);
+  const text = `${title}\n${post.content}`;
+  const candidates: number[] = [];
+
+  // "Passed the 1500 mile marker", "the 200 mile marker"
+  for (const match of text.matchAll(/\b(\d[\d,]{2,}(?:\.\d+)?)\s*:?\s*-?\s*miles?\s+marker/gi)) {
+    candidates.push(parseMiles(match[1]));
+  }
+
+  // Milestone titles: "800 Miles Buena Vista", "A Bit Of SUN 900 Miles"
+  for (const match of title.matchAll(/\b(\d[\d,]{2,})\s*:?\s*miles\b/gi)) {
+    const miles = parseMiles(match[1]);
+    if (miles % 100 === 0) candidates.push(miles);
+  }
+
+  // "Completed 800 miles"
+  for (const match of text.matchAll(/\bcompleted\s+(\d[\d,]{2,}(?:\.\d+)?)\s+miles\b/gi)) {
+    candidates.push(parseMiles(match[1]));
+  }
+
+  // "Only 1099.2 miles left!"
+  for (const match of text.matchAll(/\b(\d[\d,]*(?:\.\d+)?)\s+miles\s+(?:left|to go)\b/gi)) {
+    if (/less than|under/i.test(text.slice(Math.max(0, match.index - 12), match.index))) continue;
+    candidates.push(trail.length - parseMiles(match[1]));
+  }
+
+  if (/\bhalfway there\b/i.test(title)) candidates.push(trail.length / 2);
+  if (/\bquarter marker\b/i.test(title)) candidates.push(trail.length / 4);
+
+  const valid = candidates.filter(mile => mile >= 0 && mile <= trail.length);
+  return valid.length > 0 ? Math.max(...valid) : null;
+};
+
+// Trail position for every post of a trail trip, keyed by post url. Posts that don't mention
+// their mileage are interpolated by date between the nearest posts that do. The "day 0" post
+// (or the first post) anchors the start of the trail and the last post anchors the end;
+// travel posts before day 0 stay at mile 0.
+export const computeTripMileage = (posts: BlogPostData[], trail: Trail): Map<string, PostMileage> => {
+  const result = new Map<string, PostMileage>();
+  if (posts.length === 0) return result;
+
+  const time = (post: BlogPostData) => new Date(post.date).getTime();
+  const anchors: Array<{ index: number; mile: number }> = [];
+  const startIndex = Math.max(0, posts.findIndex(post => parsePostTitle(post.title).day === 0));
+
+  for (let i = 0; i < startIndex; i++) {
+    result.set(posts[i].url, { mile: 0, estimated: true });
+  }
+
+  posts.forEach((post, index) => {
+    if (index < startIndex) return;
+    const mile = extractMileage(post, trail);
+    // Mileage only ever grows; drop anything that would send us backwards
+    if (mile === null) return;
+    if (anchors.length > 0 && mile < anchors[anchors.length - 1].mile) return;
+    anchors.push({ index, mile });
+  });
+
+  const explicit = new Set(anchors.map(anchor => anchor.index));
+  if (anchors[0]?.index !== startIndex) anchors.unshift({ index: startIndex, mile: 0 });
+  const lastIndex = posts.length - 1;
+  if (anchors[anchors.length - 1].index !== lastIndex) {
+    anchors.push({ index: lastIndex, mile: trail.length });
+  }
+
+  for (let a = 0; a < anchors.length - 1; a++) {
+    const from = anchors[a];
+    const to = anchors[a + 1];
+    const fromTime = time(posts[from.index]);
+    const span = time(posts[to.index]) - fromTime;
+
+    for (let i = from.index; i <= to.index; i++) {
+      const progress = span > 0 ? (time(posts[i]) - fromTime) / span : 0;
+      result.set(posts[i].url, {
+        mile: Math.round((from.mile + (to.mile - from.mile) * progress) * 10) / 10,
+        estimated: !explicit.has(i),
+      });
+    }
+  }
+
+  return result;
+};
+
+// Trail positions for all posts on trips we have a trail for
+export const computeMileage = (posts: BlogPostData[]): Map<string, PostMileage> => {
+  const byTrip = new Map<string, BlogPostData[]>();
+  posts.forEach(post => {
+    const { trip } = parsePostTitle(post.title);
+    if (!trip || !TRAILS[getTripSlug(trip)]) return;
+    const slug = getTripSlug(trip);
+    byTrip.set(slug, [...(byTrip.get(slug) ?? []), post]);
+  });
+
+  const result = new Map<string, PostMileage>();
+  byTrip.forEach((tripPosts, slug) => {
+    computeTripMileage(tripPosts, TRAILS[slug]).forEach((mileage, url) => result.set(url, mileage));
+  });
+  return result;
+};
+
+export const getStateForMile = (trail: Trail, mile: number): TrailState => {
+  let state = trail.states[0];
+  trail.states.forEach(candidate => {
+    if (mile >= candidate.startMile) state = candidate;
+  });
+  return state;
+};
@@ -0,0 +1,140 @@
+// Offline reading, the page side of public/sw.js. A trip is saved into a cache of its
+// own (pages, their scripts and styles, and every photo in one size), which the service
+// worker answers from when there is no connection.
+
+import { getIntlLocale, Locale } from './i18n';
+
+// Shared with public/sw.js
+export const JOURNAL_UPDATED_MESSAGE = 'journal-updated';
+const TRIP_CACHE_PREFIX = 'trip-';
+
+// One size per photo: sharp enough for the feed and the hero image on a phone, and the
+// service worker serves it for any size offline
+export const OFFLINE_IMAGE_WIDTH = 1080;
+
+// Saved trips by slug, with when they were saved. The cache itself says whether the
+// files are still there (browsers may clear it).
+const SAVED_TRIPS_KEY = 'offline-trips';
+
+// Photos fetched at the same time
+const CONCURRENCY = 4;
+
+const getCacheName = (tripSlug: string): string => `${TRIP_CACHE_PREFIX}${tripSlug}`;
+
+export const isOfflineSupported = (): boolean => {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'caches' in window;
+};
+
+const loadSavedTrips = (): { [slug: string]: string } => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_TRIPS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+const storeSavedTrips = (trips: { [slug: string]: string }) => {
+  localStorage.setItem(SAVED_TRIPS_KEY, JSON.stringify(trips));
+};
+
+// When the trip was saved, or null if it isn't (anymore)
+export const getTripSavedAt = async (tripSlug: string): Promise<string | null> => {
+  const savedAt = loadSavedTrips()[tripSlug];
+  return savedAt && (await caches.has(getCacheName(tripSlug))) ? savedAt : null;
+};
+
+// Script, stylesheet and font URLs of a page, so it still looks right offline. Some
+// are inside the escaped RSC payload, hence the backslash.
+const findAssets = (html: string): string[] => {
+  return Array.from(new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) ?? []));
+};
+
+// Photos are often on another host; without CORS the response is opaque, which the
+// cache takes but counts at a padded size
+const fetchPhoto = async (url: string): Promise<Response> => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (response.ok) return response;
+  } catch {
+    // Fall through to an opaque request
+  }
+  return fetch(url, { mode: 'no-cors' });
+};
+
+const runLimited = async <T>(items: T[], task: (item: T) => Promise<void>) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+};
+
+// Save the trip's pages and photos and return when. A failed save removes what it
+// stored, so a trip is either saved completely or not at all.
+export const saveTrip = async (
+  tripSlug: string,
+  pages: string[],
+  photos: string[],
+  onProgress: (done: number, total: number) => void
+): Promise<string> => {
+  const cacheName = getCacheName(tripSlug);
+  const cache = await caches.open(cacheName);
+  const total = pages.length + photos.length;
+  let done = 0;
+  const step = () => onProgress(++done, total);
+
+  // Ask the browser not to clear this when space runs low
+  await navigator.storage?.persist?.().catch(() => false);
+
+  try {
+    const assets = new Set<string>();
+    await runLimited(pages, async page => {
+      const response = await fetch(page);
+      if (!response.ok) throw new Error(`${page}: ${response.status}`);
+      findAssets(await response.clone().text()).forEach(asset => assets.add(asset));
+      await cache.put(page, response);
+      step();
+    });
+    // Best effort: the pages can be read without them
+    await Promise.all(Array.from(assets).map(asset => cache.add(asset).catch(() => undefined)));
+    await runLimited(photos, async url => {
+      await cache.put(url, await fetchPhoto(url));
+      step();
+    });
+  } catch (error) {
+    await caches.delete(cacheName);
+    throw error;
+  }
+
+  const savedAt = new Date().toISOString();
+  storeSavedTrips({ ...loadSavedTrips(), [tripSlug]: savedAt });
+  return savedAt;
+};
+
+export const removeSavedTrip = async (tripSlug: string) => {
+  await caches.delete(getCacheName(tripSlug));
+  const trips = loadSavedTrips();
+  delete trips[tripSlug];
+  storeSavedTrips(trips);
+};
+
+// Space used by this site and available to it, in bytes; null where the browser
+// doesn't tell
+export const getStorageUsage = async (): Promise<{ usage: number; quota: number } | null> => {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  if (!estimate || estimate.usage === undefined || estimate.quota === undefined) return null;
+  return { usage: estimate.usage, quota: estimate.quota };
+};
+
+// "120 MB", "1.8 GB"
+export const formatBytes = (bytes: number, locale: Locale): string => {
+  const gigabytes = bytes >= 1e9;
+  return new Intl.NumberFormat(getIntlLocale(locale), {
+    style: 'unit',
+    unit: gigabytes ? 'gigabyte' : 'megabyte',
+    maximumFractionDigits: gigabytes ? 1 : 0,
+  }).format(bytes / (gigabytes ? 1e9 : 1e6));
+};
@@ -0,0 +1,105 @@
+import { DEFAULT_LOCALE, getIntlLocale, Locale } from './i18n';
+
+export interface BlogPostImage {
+  src: string;
+  alt: string;
+  title?: string;
+  // Filled in from data/image-metadata.json when the posts are loaded
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+export interface BlogPostData {
+  url: string;
+  title: string;
+  date: string;
+  author?: string;
+  content: string;
+  content_html?: string;
+  meta_description?: string;
+  featured_image?: string;
+  images?: BlogPostImage[];
+  // Empty in the WordPress export; tags are filled in by the auto-tagger (lib/tags.ts)
+  categories?: string[];
+  tags?: string[];
+  // Permalink and the older slugs that still lead to it, from data/slugs.json (lib/slugs.ts)
+  slug?: string;
+  slugAliases?: string[];
+  // Translated text by locale, each field falling back to the original (lib/translations.ts)
+  translations?: { [locale in Locale]?: BlogPostTranslation };
+  // Written in /admin: drafts are left out of the site, scheduled posts until `publish_at`
+  draft?: boolean;
+  publish_at?: string;
+}
+
+export interface BlogPostTranslation {
+  title?: string;
+  content?: string;
+  content_html?: string;
+  meta_description?: string;
+}
+
+// Create slug from post title for URL
+export const createSlug = (title: string): string => {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+};
+
+// Permalink slug of a post. Loaded posts carry their registered slug; the title is
+// only a fallback for posts that didn't come through the loader.
+export const getPostSlug = (post: BlogPostData): string => {
+  return post.slug ?? createSlug(post.title);
+};
+
+// Whether the post belongs on the site yet. Pages are static but re-rendered every ten
+// minutes, so a scheduled post shows up within ten minutes of its publish date.
+export const isPublished = (post: BlogPostData, now: Date = new Date()): boolean => {
+  if (post.draft) return false;
+  return !post.publish_at || new Date(post.publish_at) <= now;
+};
+
+// Oldest first, so the journal reads from the start of the trip
+export const sortPosts = (posts: BlogPostData[]): BlogPostData[] => {
+  return [...posts].sort((a, b) => {
+    return new Date(a.date).getTime() - new Date(b.date).getTime();
+  });
+};
+
+// The date as the author wrote it (`YYYY-MM-DD`), ignoring the time zone offset
+export const getCalendarDay = (date: string): string => date.slice(0, 10);
+
+export const formatDate = (dateString: string, locale: Locale = DEFAULT_LOCALE) => {
+  try {
+    return new Date(dateString).toLocaleDateString(getIntlLocale(locale), {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  } catch {
+    return dateString;
+  }
+};
+
+// Get contrasting color for date badge
+export const getContrastColor = (imageSrc: string): string => {
+  // Generate a color based on the image URL hash
+  const hash = imageSrc.split('').reduce((acc, char) => {
+    return char.charCodeAt(0) + ((acc << 5) - acc);
+  }, 0);
+
+  const colors = [
+    'bg-blue-500/90',
+    'bg-green-500/90',
+    'bg-purple-500/90',
+    'bg-orange-500/90',
+    'bg-pink-500/90',
+    'bg-teal-500/90',
+    'bg-indigo-500/90',
+    'bg-red-500/90',
+  ];
+
+  return colors[Math.abs(hash) % colors.length];
+};
@@ -0,0 +1,58 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+let getAddress: typeof import('./readers').getAddress;
+let hashValue: typeof import('./comment-store').hashValue;
+
+const forwarded = (forwardedFor?: string) => {
+  return new Headers(forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor });
+};
+
+beforeAll(async () => {
+  // Hashes are salted with a value kept in the comments database
+  dir = await mkdtemp(path.join(tmpdir(), 'readers-'));
+  vi.stubEnv('COMMENTS_DB', path.join(dir, 'comments.db'));
+  ({ getAddress } = await import('./readers'));
+  ({ hashValue } = await import('./comment-store'));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('getAddress', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  it('takes the hop the proxy added', () => {
+    expect(getAddress(forwarded('203.0.113.7'))).toBe(hashValue('203.0.113.7'));
+    expect(getAddress(forwarded('10.0.0.1, 203.0.113.7'))).toBe(hashValue('203.0.113.7'));
+  });
+
+  it('ignores entries the client made up', () => {
+    const spoofed = ['1.1.1.1, 203.0.113.7', '2.2.2.2, 3.3.3.3 ,203.0.113.7', ', 203.0.113.7'];
+    spoofed.forEach(header => expect(getAddress(forwarded(header))).toBe(getAddress(forwarded('203.0.113.7'))));
+  });
+
+  it('counts back past the configured number of proxies', () => {
+    process.env.TRUSTED_PROXIES = '2';
+    expect(getAddress(forwarded('1.1.1.1, 203.0.113.7, 10.0.0.2'))).toBe(hashValue('203.0.113.7'));
+    // Fewer hops than proxies: the leftmost is the closest there is
+    expect(getAddress(forwarded('203.0.113.7'))).toBe(hashValue('203.0.113.7'));
+  });
+
+  it('treats a broken proxy count as one proxy', () => {
+    process.env.TRUSTED_PROXIES = 'two';
+    expect(getAddress(forwarded('1.1.1.1, 203.0.113.7'))).toBe(hashValue('203.0.113.7'));
+  });
+
+  it('puts requests without an address together', () => {
+    expect(getAddress(forwarded())).toBe(hashValue('unknown'));
+    expect(getAddress(forwarded(' , '))).toBe(hashValue('unknown'));
+  });
+});
@@ -0,0 +1,53 @@
+import { randomBytes } from 'node:crypto';
+import { cookies } from 'next/headers';
+import { hashValue } from './comment-store';
+
+// Who a reader is, for comments and reactions: a random token in an http-only cookie,
+// set with the first comment or reaction. It lets them see their comments while they
+// wait for moderation, take back a reaction and hear about replies. The store only
+// keeps its hash, and the address's, for the rate limits.
+
+const READER_COOKIE = 'reader';
+const READER_SECONDS = 60 * 60 * 24 * 365 * 2;
+
+// The reader's hash, or null if they haven't commented or reacted yet
+export const getReader = async (): Promise<string | null> => {
+  const token = (await cookies()).get(READER_COOKIE)?.value;
+  return token ? hashValue(token) : null;
+};
+
+// The reader's hash, giving them a cookie first if they have none
+export const ensureReader = async (): Promise<string> => {
+  const store = await cookies();
+  let token = store.get(READER_COOKIE)?.value;
+  if (!token) {
+    token = randomBytes(24).toString('base64url');
+    store.set(READER_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/comments',
+      maxAge: READER_SECONDS,
+    });
+  }
+  return hashValue(token);
+};
+
+// Proxies in front of the site that append to X-Forwarded-For (TRUSTED_PROXIES, one
+// by default). Each adds the address it was connected from, so the entry that many from
+// the end is the client; anything further left the client can make up.
+const getTrustedProxies = (): number => {
+  const count = Number(process.env.TRUSTED_PROXIES ?? 1);
+  return Number.isInteger(count) && count > 0 ? count : 1;
+};
+
+// The client's address as a hash. Without a proxy `next start` fills in
+// X-Forwarded-For with the connection's address, unless the request brought its own.
+export const getAddress = (headers: Headers): string => {
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const client = hops[Math.max(hops.length - getTrustedProxies(), 0)];
+  return hashValue(client || 'unknown');
+};
@@ -0,0 +1,53 @@
+import { BlogPostData } from './posts';
+
+export type SortOrder = 'oldest' | 'newest';
+
+// Oldest first reads the trips from the start; newest first is for catching up
+export const DEFAULT_SORT_ORDER: SortOrder = 'oldest';
+
+const SORT_ORDER_KEY = 'journal-sort-order';
+const LAST_READ_KEY = 'journal-last-read';
+const LAST_SEEN_KEY = 'journal-last-seen-post';
+
+export const parseSortOrder = (value: string | null): SortOrder | null => {
+  return value === 'oldest' || value === 'newest' ? value : null;
+};
+
+// `?order=` wins over the saved preference, so shared links show the same order
+export const loadSortOrder = (search: string): SortOrder => {
+  return (
+    parseSortOrder(new URLSearchParams(search).get('order')) ??
+    parseSortOrder(localStorage.getItem(SORT_ORDER_KEY)) ??
+    DEFAULT_SORT_ORDER
+  );
+};
+
+export const saveSortOrder = (order: SortOrder) => {
+  localStorage.setItem(SORT_ORDER_KEY, order);
+};
+
+// Slug of the last article the reader scrolled all the way through
+export const loadLastRead = (): string | null => localStorage.getItem(LAST_READ_KEY);
+
+export const saveLastRead = (slug: string) => {
+  localStorage.setItem(LAST_READ_KEY, slug);
+};
+
+// Posts newer than the newest one there was at the previous visit, then remember this
+// visit's newest post. Nothing counts as new on a first visit. The baseline is kept for
+// the browser session, so reloading the page doesn't clear the markers.
+export const takeNewPosts = (posts: BlogPostData[]): BlogPostData[] => {
+  if (posts.length === 0) return [];
+  let lastSeen = sessionStorage.getItem(LAST_SEEN_KEY);
+  if (lastSeen === null) {
+    lastSeen = localStorage.getItem(LAST_SEEN_KEY) ?? '';
+    sessionStorage.setItem(LAST_SEEN_KEY, lastSeen);
+  }
+  const newest = posts.reduce((latest, post) => {
+    return new Date(post.date) > new Date(latest.date) ? post : latest;
+  });
+  localStorage.setItem(LAST_SEEN_KEY, newest.date);
+
+  if (!lastSeen) return [];
+  return posts.filter(post => new Date(post.date) > new Date(lastSeen));
+};
@@ -0,0 +1,276 @@
+import { isLocale } from './i18n';
+import { BlogPostData, BlogPostImage, BlogPostTranslation, createSlug } from './posts';
+
+// Validation and normalization for the scraped blog_posts.json. Broken entries are
+// dropped (errors), fixable ones are cleaned up (warnings); either way the issue says
+// which entry and which field.
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  // Position in the input array, and the entry's url when it has a usable one
+  index: number;
+  url?: string;
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  posts: BlogPostData[];
+  issues: ValidationIssue[];
+}
+
+type Report = (severity: ValidationIssue['severity'], field: string, message: string) => void;
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"` : typeof value;
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Required string: trimmed, must not be empty
+const requiredString = (record: { [key: string]: unknown }, field: string, report: Report): string | null => {
+  const value = record[field];
+  if (typeof value !== 'string') {
+    report('error', field, value === undefined ? 'is missing' : `must be a string, got ${describe(value)}`);
+    return null;
+  }
+  if (value.trim() === '') {
+    report('error', field, 'is empty');
+    return null;
+  }
+  return value.trim();
+};
+
+// Optional string: missing, null and empty all become undefined
+const optionalString = (record: { [key: string]: unknown }, field: string, report: Report): string | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    report('warning', field, `must be a string, got ${describe(value)}; ignored`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+};
+
+const optionalUrl = (record: { [key: string]: unknown }, field: string, report: Report): string | undefined => {
+  const value = optionalString(record, field, report);
+  if (value !== undefined && !isHttpUrl(value)) {
+    report('warning', field, `is not an http(s) URL: ${describe(value)}; ignored`);
+    return undefined;
+  }
+  return value;
+};
+
+const stringList = (record: { [key: string]: unknown }, field: string, report: Report): string[] => {
+  const value = record[field];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    report('warning', field, `must be an array of strings, got ${describe(value)}; ignored`);
+    return [];
+  }
+
+  const items: string[] = [];
+  value.forEach((item, index) => {
+    if (typeof item === 'string' && item.trim() !== '') {
+      if (!items.includes(item.trim())) items.push(item.trim());
+    } else {
+      report('warning', `${field}[${index}]`, `must be a non-empty string, got ${describe(item)}; dropped`);
+    }
+  });
+  return items;
+};
+
+const imageList = (record: { [key: string]: unknown }, report: Report): BlogPostImage[] => {
+  const value = record.images;
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    report('warning', 'images', `must be an array, got ${describe(value)}; ignored`);
+    return [];
+  }
+
+  const images: BlogPostImage[] = [];
+  value.forEach((item, index) => {
+    const field = `images[${index}]`;
+    if (!isRecord(item)) {
+      report('warning', field, `must be an object, got ${describe(item)}; dropped`);
+      return;
+    }
+    const prefixed: Report = (severity, name, message) => report(severity, `${field}.${name}`, message);
+
+    const src = typeof item.src === 'string' ? item.src.trim() : '';
+    if (!isHttpUrl(src)) {
+      const problem = item.src === undefined ? 'is missing' : `is not an http(s) URL: ${describe(item.src)}`;
+      report('warning', `${field}.src`, `${problem}; image dropped`);
+      return;
+    }
+    if (images.some(image => image.src === src)) {
+      report('warning', `${field}.src`, 'is listed twice; dropped');
+      return;
+    }
+
+    images.push({
+      src,
+      alt: optionalString(item, 'alt', prefixed) ?? '',
+      title: optionalString(item, 'title', prefixed),
+    });
+  });
+  return images;
+};
+
+const TRANSLATED_FIELDS = ['title', 'content', 'content_html', 'meta_description'] as const;
+
+// `{ "de": { "title": …, "content": … } }`; unknown locales and empty translations are dropped
+const translationMap = (record: { [key: string]: unknown }, report: Report): BlogPostData['translations'] => {
+  const value = record.translations;
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    report('warning', 'translations', `must be an object keyed by locale, got ${describe(value)}; ignored`);
+    return undefined;
+  }
+
+  const translations: NonNullable<BlogPostData['translations']> = {};
+  Object.entries(value).forEach(([locale, item]) => {
+    const field = `translations.${locale}`;
+    if (!isLocale(locale)) {
+      report('warning', field, 'is not a supported locale; dropped');
+      return;
+    }
+    if (!isRecord(item)) {
+      report('warning', field, `must be an object, got ${describe(item)}; dropped`);
+      return;
+    }
+    const prefixed: Report = (severity, name, message) => report(severity, `${field}.${name}`, message);
+
+    const translation: BlogPostTranslation = {};
+    TRANSLATED_FIELDS.forEach(name => {
+      const text = optionalString(item, name, prefixed);
+      if (text !== undefined) translation[name] = text;
+    });
+    if (Object.keys(translation).length === 0) {
+      report('warning', field, 'has no translated fields; dropped');
+      return;
+    }
+    translations[locale] = translation;
+  });
+  return Object.keys(translations).length > 0 ? translations : undefined;
+};
+
+// One entry, or null when it has errors
+const validatePost = (value: unknown, reportIssue: Report): BlogPostData | null => {
+  if (!isRecord(value)) {
+    reportIssue('error', '(entry)', `must be an object, got ${describe(value)}`);
+    return null;
+  }
+
+  let hasErrors = false;
+  const report: Report = (severity, field, message) => {
+    if (severity === 'error') hasErrors = true;
+    reportIssue(severity, field, message);
+  };
+
+  const url = requiredString(value, 'url', report);
+  if (url && !isHttpUrl(url)) report('error', 'url', `is not an http(s) URL: ${describe(url)}`);
+
+  const title = requiredString(value, 'title', report);
+  if (title && createSlug(title) === '') report('error', 'title', `has no characters to build a slug from: ${describe(title)}`);
+
+  const date = requiredString(value, 'date', report);
+  if (date && Number.isNaN(new Date(date).getTime())) report('error', 'date', `is not a valid date: ${describe(date)}`);
+
+  const content = optionalString(value, 'content', report);
+  const contentHtml = optionalString(value, 'content_html', report);
+  if (content === undefined && contentHtml === undefined) {
+    report('error', 'content', 'is missing and there is no content_html either');
+  } else if (content === undefined) {
+    report('warning', 'content', 'is missing; only content_html will be shown');
+  }
+
+  const draft = value.draft;
+  if (draft !== undefined && draft !== null && typeof draft !== 'boolean') {
+    report('warning', 'draft', `must be true or false, got ${describe(draft)}; ignored`);
+  }
+  const publishAt = optionalString(value, 'publish_at', report);
+  if (publishAt && Number.isNaN(new Date(publishAt).getTime())) {
+    report('error', 'publish_at', `is not a valid date: ${describe(publishAt)}`);
+  }
+
+  const post: BlogPostData = {
+    url: url ?? '',
+    title: title ?? '',
+    date: date ?? '',
+    author: optionalString(value, 'author', report),
+    content: content ?? '',
+    content_html: contentHtml,
+    meta_description: optionalString(value, 'meta_description', report),
+    featured_image: optionalUrl(value, 'featured_image', report),
+    images: imageList(value, report),
+    categories: stringList(value, 'categories', report),
+    tags: stringList(value, 'tags', report),
+    translations: translationMap(value, report),
+    draft: draft === true || undefined,
+    publish_at: publishAt,
+  };
+  return hasErrors ? null : post;
+};
+
+// Validate, normalize and deduplicate the raw export. Entries with the same url are
+// kept once (the first one); entries whose titles give the same slug are reported,
+// since the later one gets a less readable permalink (see lib/slugs.ts).
+export const validatePosts = (input: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(input)) {
+    issues.push({ severity: 'error', index: -1, field: '(file)', message: `must be an array of posts, got ${describe(input)}` });
+    return { posts: [], issues };
+  }
+
+  const posts: BlogPostData[] = [];
+  const byUrl = new Map<string, number>();
+  const bySlug = new Map<string, number>();
+
+  input.forEach((value, index) => {
+    const url = isRecord(value) && typeof value.url === 'string' ? value.url.trim() : undefined;
+    const report: Report = (severity, field, message) => {
+      issues.push({ severity, index, url, field, message });
+    };
+
+    const post = validatePost(value, report);
+    if (!post) return;
+
+    const duplicateOf = byUrl.get(post.url);
+    if (duplicateOf !== undefined) {
+      report('warning', 'url', `duplicates entry ${duplicateOf}; dropped`);
+      return;
+    }
+    byUrl.set(post.url, index);
+
+    const slug = createSlug(post.title);
+    const sameSlug = bySlug.get(slug);
+    if (sameSlug !== undefined) {
+      report('warning', 'title', `gives the same slug "${slug}" as entry ${sameSlug}; its permalink gets the date added`);
+    } else {
+      bySlug.set(slug, index);
+    }
+
+    posts.push(post);
+  });
+
+  return { posts, issues };
+};
+
+export const formatIssue = (issue: ValidationIssue): string => {
+  const entry = issue.index < 0 ? '' : `entry ${issue.index}${issue.url ? ` (${issue.url})` : ''} `;
+  return `${issue.severity}: ${entry}${issue.field} ${issue.message}`;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { BlogPostData } from './posts';
+import { buildSearchIndex, search, tokenize } from './search';
+
+const post = (title: string, content: string, fields: Partial<BlogPostData> = {}): BlogPostData => ({
+  url: `https://example.com/${title.toLowerCase().replace(/\W+/g, '-')}/`,
+  title,
+  date: '2023-04-11T00:00:00',
+  content,
+  ...fields,
+});
+
+const posts = [
+  post('AT 12: Duncannon', 'We walked into Duncannon and had a burger at the Doyle.'),
+  post('AT 13: Rocks', 'Rocks all day, and the constructor of this trail had a sense of humour.'),
+  post('AT 14: Café', 'Coffee at a café in town.', {
+    images: [{ src: 'https://example.com/toString.jpg', alt: 'hasOwnProperty valueOf __proto__ sign' }],
+  }),
+];
+
+describe('tokenize', () => {
+  it('lowercases and strips diacritics', () => {
+    expect(tokenize('Café, CRÈME brûlée!')).toEqual(['cafe', 'creme', 'brulee']);
+  });
+});
+
+describe('buildSearchIndex', () => {
+  it('indexes words that are also Object.prototype properties', () => {
+    const index = buildSearchIndex(posts);
+    expect(index.terms.constructor).toEqual([[1, 1, 0]]);
+    expect(index.terms.hasownproperty).toEqual([[2, 1, 0]]);
+    expect(index.terms.valueof).toEqual([[2, 1, 0]]);
+  });
+
+  it('survives the trip through JSON', () => {
+    const index = JSON.parse(JSON.stringify(buildSearchIndex(posts)));
+    expect(Object.keys(index.terms)).toContain('constructor');
+    expect(search(index, 'constructor').map(result => result.slug)).toEqual(['at-13-rocks']);
+  });
+
+  it('counts title and body occurrences separately', () => {
+    const index = buildSearchIndex(posts);
+    expect(index.terms.duncannon).toEqual([[0, 1, 1]]);
+  });
+});
+
+describe('search', () => {
+  const index = buildSearchIndex(posts);
+
+  it('finds exact, prefix and misspelled terms', () => {
+    expect(search(index, 'duncannon')[0].slug).toBe('at-12-duncannon');
+    expect(search(index, 'dunc')[0].slug).toBe('at-12-duncannon');
+    expect(search(index, 'duncanon')[0].slug).toBe('at-12-duncannon');
+  });
+
+  it('requires every query term to match', () => {
+    expect(search(index, 'burger rocks')).toEqual([]);
+    expect(search(index, 'burger doyle').map(result => result.slug)).toEqual(['at-12-duncannon']);
+  });
+
+  it('highlights the matched words in the snippet', () => {
+    const [result] = search(index, 'cafe');
+    expect(result.snippet.filter(part => part.highlight).map(part => part.text)).toEqual(['café']);
+  });
+});
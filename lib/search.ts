@@ -0,0 +1,217 @@
+import { BlogPostData, getPostSlug } from './posts';
+
+export interface SearchDocument {
+  slug: string;
+  title: string;
+  date: string;
+  text: string;
+}
+
+// Built once at build time (see app/[locale]/search-index.json/route.ts) and fetched by the search box
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // term -> [documentIndex, termFrequency, titleFrequency][]
+  terms: { [term: string]: Array<[number, number, number]> };
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  slug: string;
+  title: string;
+  date: string;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const SNIPPET_LENGTH = 160;
+const TITLE_BOOST = 5;
+
+// Lowercase and strip diacritics so "Café" finds "cafe"
+const normalize = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+export const tokenize = (text: string): string[] => {
+  return normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+};
+
+export const buildSearchIndex = (posts: BlogPostData[]): SearchIndex => {
+  // A Map, not an object: words like "constructor" would find Object.prototype's
+  const terms = new Map<string, SearchIndex['terms'][string]>();
+
+  const documents = posts.map((post, docIndex) => {
+    const altText = (post.images ?? [])
+      .map(image => image.alt)
+      .filter(Boolean)
+      .join(' ');
+    const text = [post.content, altText].filter(Boolean).join('\n');
+
+    const counts = new Map<string, [number, number]>();
+    tokenize(post.title).forEach(term => {
+      const count = counts.get(term) ?? [0, 0];
+      count[1] += 1;
+      counts.set(term, count);
+    });
+    tokenize(text).forEach(term => {
+      const count = counts.get(term) ?? [0, 0];
+      count[0] += 1;
+      counts.set(term, count);
+    });
+
+    counts.forEach(([body, title], term) => {
+      const postings = terms.get(term) ?? [];
+      postings.push([docIndex, body, title]);
+      terms.set(term, postings);
+    });
+
+    return {
+      slug: getPostSlug(post),
+      title: post.title,
+      date: post.date,
+      text,
+    };
+  });
+
+  return { documents, terms: Object.fromEntries(terms) };
+};
+
+// Levenshtein distance, giving up early once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// How many typos we tolerate for a query term of this length
+const allowedTypos = (term: string): number => {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+};
+
+// Vocabulary terms matching a query term: exact, prefix ("duncan" -> "duncannon") or fuzzy.
+// The weight favours exact matches over prefix and typo matches.
+const expandTerm = (index: SearchIndex, queryTerm: string): Map<string, number> => {
+  const matches = new Map<string, number>();
+  const typos = allowedTypos(queryTerm);
+
+  Object.keys(index.terms).forEach(term => {
+    if (term === queryTerm) {
+      matches.set(term, 1);
+    } else if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+      matches.set(term, 0.7);
+    } else if (typos > 0) {
+      const distance = editDistance(queryTerm, term, typos);
+      if (distance <= typos) matches.set(term, 0.5 / distance);
+    }
+  });
+
+  return matches;
+};
+
+// Split a window of `text` around the first match into highlighted and plain parts
+const buildSnippet = (text: string, matchedTerms: Set<string>): SnippetPart[] => {
+  const tokenPattern = /[a-z0-9\u00c0-\u024f]+/gi;
+  const ranges: Array<[number, number]> = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(text)) !== null) {
+    if (tokenize(match[0]).some(token => matchedTerms.has(token))) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  const firstMatch = ranges.length > 0 ? ranges[0][0] : 0;
+  let start = Math.max(0, firstMatch - SNIPPET_LENGTH / 3);
+  // Don't start in the middle of a word
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space > firstMatch ? start : space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', highlight: false });
+
+  let cursor = start;
+  ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .forEach(([from, to]) => {
+      if (from > cursor) parts.push({ text: text.slice(cursor, from), highlight: false });
+      parts.push({ text: text.slice(from, to), highlight: true });
+      cursor = to;
+    });
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), highlight: false });
+  if (end < text.length) parts.push({ text: '…', highlight: false });
+
+  return parts.map(part => ({ ...part, text: part.text.replace(/\s+/g, ' ') }));
+};
+
+// Every query term has to match (exactly, by prefix or fuzzily) for a post to be returned
+export const search = (index: SearchIndex, query: string, limit = 20): SearchResult[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  const scores = new Map<number, number>();
+  const matchedTerms = new Map<number, Set<string>>();
+
+  for (let i = 0; i < queryTerms.length; i++) {
+    const termScores = new Map<number, number>();
+
+    expandTerm(index, queryTerms[i]).forEach((weight, term) => {
+      const postings = index.terms[term];
+      const idf = Math.log(1 + index.documents.length / postings.length);
+
+      postings.forEach(([docIndex, body, title]) => {
+        const score = weight * idf * (body + title * TITLE_BOOST);
+        termScores.set(docIndex, (termScores.get(docIndex) ?? 0) + score);
+        if (!matchedTerms.has(docIndex)) matchedTerms.set(docIndex, new Set());
+        matchedTerms.get(docIndex)!.add(term);
+      });
+    });
+
+    if (i === 0) {
+      termScores.forEach((score, docIndex) => scores.set(docIndex, score));
+    } else {
+      Array.from(scores.keys()).forEach(docIndex => {
+        const score = termScores.get(docIndex);
+        if (score === undefined) {
+          scores.delete(docIndex);
+        } else {
+          scores.set(docIndex, scores.get(docIndex)! + score);
+        }
+      });
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([docIndex, score]) => {
+      const doc = index.documents[docIndex];
+      return {
+        slug: doc.slug,
+        title: doc.title,
+        date: doc.date,
+        score,
+        snippet: buildSnippet(doc.text, matchedTerms.get(docIndex)!),
+      };
+    });
+};
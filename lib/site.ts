@@ -0,0 +1,11 @@
+// Public origin of the site, for links that leave it (feeds, share cards). Set SITE_URL
+// in the deployment; the fallback only makes sense for local builds.
+export const SITE_URL = (process.env.SITE_URL ?? 'http://localhost:3000').replace(/\/+$/, '');
+
+export const SITE_NAME = 'Trail Journal';
+export const SITE_DESCRIPTION = 'A journey through the wilderness';
+export const SITE_AUTHOR = 'Karlowitz';
+
+export const absoluteUrl = (path: string): string => {
+  return `${SITE_URL}${path.startsWith('/') ? path : `/${path}`}`;
+};
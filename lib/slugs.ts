@@ -0,0 +1,167 @@
+import { LOCALES } from './i18n';
+import { BlogPostData, createSlug, getPostSlug, sortPosts } from './posts';
+import { parsePostTitle } from './trips';
+
+// Permalinks. Every post keeps the slug it was first given (recorded in data/slugs.json,
+// keyed by its WordPress url); when its title changes it gets a new one and the old
+// slug is kept so links to it still resolve.
+
+export interface SlugEntry {
+  slug: string;
+  // Earlier slugs of the post, newest first
+  previous: string[];
+}
+
+export type SlugRegistry = { [url: string]: SlugEntry };
+
+export interface SlugRedirect {
+  source: string;
+  destination: string;
+  permanent: boolean;
+}
+
+// Calendar date as written in the post (its own time zone), e.g. "2023-04-11"
+const postDate = (post: BlogPostData): string => post.date.slice(0, 10);
+
+// "AT 1: Shopping" → "at-1-shopping". Titles without a day number aren't unique on their
+// own, so they carry the date: "off-to-california-2024-08-17".
+export const deriveSlug = (post: BlogPostData): string => {
+  const base = createSlug(post.title);
+  return parsePostTitle(post.title).day === null ? `${base}-${postDate(post)}` : base;
+};
+
+// Whether `slug` is what `deriveSlug` gives for the post, possibly with a collision suffix
+const matchesTitle = (slug: string, post: BlogPostData): boolean => {
+  const base = deriveSlug(post);
+  if (slug === base) return true;
+  if (!slug.startsWith(`${base}-`)) return false;
+  return /^(\d{4}-\d{2}-\d{2})?(-?\d+)?$/.test(slug.slice(base.length + 1));
+};
+
+// Bring the registry up to date with the posts: new posts get a slug, renamed posts a
+// new one (the old one moves to `previous`). Slugs are never reused, not even old ones,
+// so a shared link can't start pointing at a different post.
+export const updateSlugRegistry = (posts: BlogPostData[], registry: SlugRegistry): SlugRegistry => {
+  const result: SlugRegistry = {};
+  const taken = new Set<string>();
+  Object.values(registry).forEach(entry => {
+    taken.add(entry.slug);
+    entry.previous.forEach(slug => taken.add(slug));
+  });
+
+  const claim = (post: BlogPostData): string => {
+    const base = deriveSlug(post);
+    const candidates = base.endsWith(postDate(post)) ? [base] : [base, `${base}-${postDate(post)}`];
+    for (const candidate of candidates) {
+      if (!taken.has(candidate)) return candidate;
+    }
+    const last = candidates[candidates.length - 1];
+    let counter = 2;
+    while (taken.has(`${last}-${counter}`)) counter += 1;
+    return `${last}-${counter}`;
+  };
+
+  // Oldest first, so the earlier of two same-titled posts keeps the plain slug
+  sortPosts(posts).forEach(post => {
+    const entry = registry[post.url];
+    if (entry && matchesTitle(entry.slug, post)) {
+      result[post.url] = entry;
+      return;
+    }
+
+    const slug = claim(post);
+    taken.add(slug);
+    result[post.url] = {
+      slug,
+      previous: entry ? [entry.slug, ...entry.previous] : [],
+    };
+  });
+
+  // Posts that are gone keep their entries, so their slugs stay reserved
+  Object.entries(registry).forEach(([url, entry]) => {
+    if (!result[url]) result[url] = entry;
+  });
+  return result;
+};
+
+// Slugs that links from before the registry may use: the plain title slug (the old
+// `#hash`) and the last segment of the WordPress permalink
+const getLegacySlugs = (post: BlogPostData): string[] => {
+  const slugs = [createSlug(post.title)];
+  try {
+    const segment = new URL(post.url).pathname.split('/').filter(Boolean).pop();
+    if (segment) slugs.push(segment);
+  } catch {
+    // Not a URL: nothing to add
+  }
+  return slugs;
+};
+
+// Attach each post's slug and aliases. Earlier slugs are the post's own; a legacy slug
+// is only an alias while no registered slug or other post claims it.
+export const withSlugs = (posts: BlogPostData[], registry: SlugRegistry): BlogPostData[] => {
+  const reserved = new Set<string>();
+  Object.values(registry).forEach(entry => {
+    reserved.add(entry.slug);
+    entry.previous.forEach(slug => reserved.add(slug));
+  });
+  const claimed = new Set<string>();
+
+  return posts.map(post => {
+    const entry = registry[post.url];
+    if (!entry) return post;
+
+    const legacy = getLegacySlugs(post).filter(slug => !reserved.has(slug) && !claimed.has(slug));
+    legacy.forEach(slug => claimed.add(slug));
+    return {
+      ...post,
+      slug: entry.slug,
+      slugAliases: Array.from(new Set([...entry.previous, ...legacy])),
+    };
+  });
+};
+
+// Matches the locale prefix in a redirect source, as `:locale`
+const LOCALE_PARAM = `:locale(${LOCALES.join('|')})`;
+
+// Redirects to /posts/<slug> from earlier slugs and from the WordPress permalinks. The
+// middleware adds the locale afterwards; earlier slugs under a locale keep it.
+export const buildSlugRedirects = (posts: BlogPostData[]): SlugRedirect[] => {
+  const redirects: SlugRedirect[] = [];
+  posts.forEach(post => {
+    if (!post.slug) return;
+    const destination = `/posts/${post.slug}`;
+
+    (post.slugAliases ?? []).forEach(alias => {
+      redirects.push({ source: `/posts/${alias}`, destination, permanent: true });
+      redirects.push({ source: `/${LOCALE_PARAM}/posts/${alias}`, destination: `/:locale${destination}`, permanent: true });
+    });
+    try {
+      const pathname = new URL(post.url).pathname.replace(/\/+$/, '');
+      // Posts written in /admin get a url on this site, which may already be the permalink
+      if (pathname && pathname !== destination) redirects.push({ source: pathname, destination, permanent: true });
+    } catch {
+      // Not a URL: no WordPress path to redirect from
+    }
+  });
+  return redirects;
+};
+
+// The post a slug, earlier slug or legacy `#hash` refers to
+export const findPostBySlug = <T extends BlogPostData>(posts: T[], slug: string): T | null => {
+  return (
+    posts.find(post => getPostSlug(post) === slug) ??
+    posts.find(post => post.slugAliases?.includes(slug)) ??
+    null
+  );
+};
+
+// Human-readable list of what `updateSlugRegistry` changed
+export const describeSlugChanges = (before: SlugRegistry, after: SlugRegistry): string[] => {
+  return Object.entries(after).flatMap(([url, entry]) => {
+    const old = before[url];
+    if (!old) return [`new      ${entry.slug}`];
+    if (old.slug !== entry.slug) return [`renamed  ${old.slug} → ${entry.slug}`];
+    return [];
+  });
+};
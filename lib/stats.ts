@@ -0,0 +1,165 @@
+import { DEFAULT_LOCALE, getIntlLocale, Locale } from './i18n';
+import { computeMileage, TRAILS } from './mileage';
+import { BlogPostData, getCalendarDay } from './posts';
+import { getTagSlug, hasTag } from './tags';
+import { parsePostTitle, Trip } from './trips';
+
+// A calendar day as `YYYY-MM-DD`
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+// Distance covered between two posts that both state where on the trail they are
+export interface MileageSegment {
+  from: string;
+  to: string;
+  miles: number;
+  days: number;
+}
+
+export interface PostingGap {
+  from: BlogPostData;
+  to: BlogPostData;
+  days: number;
+}
+
+export interface TripStats {
+  slug: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  // Calendar days from the first post to the last, both included
+  totalDays: number;
+  // Highest "Day N" in the titles
+  trailDays: number | null;
+  entryCount: number;
+  photoCount: number;
+  wordCount: number;
+  zeroDays: number;
+  // Only for trips with a trail to measure against, and only from stated mileage
+  milesPerDay: number | null;
+  mileageSegments: MileageSegment[];
+  photosPerDay: number;
+  photos: DailyValue[];
+  words: DailyValue[];
+  longestGap: PostingGap | null;
+  // Posts per calendar day, including the days without any
+  activity: DailyValue[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ZERO_DAY_TAG = getTagSlug('zero day');
+
+const toTime = (day: string): number => {
+  const [year, month, date] = day.split('-').map(value => parseInt(value, 10));
+  return Date.UTC(year, month - 1, date);
+};
+
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((toTime(getCalendarDay(to)) - toTime(getCalendarDay(from))) / DAY_MS);
+};
+
+export const eachDay = (from: string, to: string): string[] => {
+  const days: string[] = [];
+  for (let time = toTime(getCalendarDay(from)); time <= toTime(getCalendarDay(to)); time += DAY_MS) {
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return days;
+};
+
+// "Apr 10", for chart labels
+export const formatShortDate = (date: string, locale: Locale = DEFAULT_LOCALE): string => {
+  return new Date(toTime(getCalendarDay(date))).toLocaleDateString(getIntlLocale(locale), {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+export const formatNumber = (value: number, locale: Locale = DEFAULT_LOCALE, digits = 0): string => {
+  return value.toLocaleString(getIntlLocale(locale), { maximumFractionDigits: digits });
+};
+
+export const countWords = (text: string): number => {
+  return text.split(/\s+/).filter(Boolean).length;
+};
+
+// Sum a value per calendar day, in date order
+const sumByDay = (posts: BlogPostData[], value: (post: BlogPostData) => number): DailyValue[] => {
+  const totals = new Map<string, number>();
+  posts.forEach(post => {
+    const day = getCalendarDay(post.date);
+    totals.set(day, (totals.get(day) ?? 0) + value(post));
+  });
+  return Array.from(totals, ([date, total]) => ({ date, value: total }));
+};
+
+const findLongestGap = (posts: BlogPostData[]): PostingGap | null => {
+  let longest: PostingGap | null = null;
+  for (let i = 1; i < posts.length; i++) {
+    const days = daysBetween(posts[i - 1].date, posts[i].date);
+    if (!longest || days > longest.days) {
+      longest = { from: posts[i - 1], to: posts[i], days };
+    }
+  }
+  return longest;
+};
+
+// Segments between posts with a stated position, starting from mile 0 on the first day.
+// Interpolated positions are left out: they would only repeat the average.
+const getMileageSegments = (trip: Trip): MileageSegment[] => {
+  if (!TRAILS[trip.slug]) return [];
+  const mileage = computeMileage(trip.posts);
+
+  const segments: MileageSegment[] = [];
+  let previous = { date: trip.startDate, mile: 0 };
+  trip.posts.forEach(post => {
+    const position = mileage.get(post.url);
+    if (!position || position.estimated || position.mile <= previous.mile) return;
+
+    const days = daysBetween(previous.date, post.date);
+    if (days === 0) return;
+    segments.push({ from: previous.date, to: post.date, miles: position.mile - previous.mile, days });
+    previous = { date: post.date, mile: position.mile };
+  });
+  return segments;
+};
+
+export const computeTripStats = (trip: Trip): TripStats => {
+  const { posts } = trip;
+  const totalDays = daysBetween(trip.startDate, trip.endDate) + 1;
+  const dayNumbers = posts
+    .map(post => parsePostTitle(post.title).day)
+    .filter((day): day is number => day !== null);
+
+  const mileageSegments = getMileageSegments(trip);
+  const knownMiles = mileageSegments.reduce((sum, segment) => sum + segment.miles, 0);
+  const knownDays = mileageSegments.reduce((sum, segment) => sum + segment.days, 0);
+
+  const postsPerDay = new Map(sumByDay(posts, () => 1).map(({ date, value }) => [date, value]));
+  const words = sumByDay(posts, post => countWords(post.content));
+
+  return {
+    slug: trip.slug,
+    name: trip.name,
+    startDate: trip.startDate,
+    endDate: trip.endDate,
+    totalDays,
+    trailDays: dayNumbers.length > 0 ? Math.max(...dayNumbers) : null,
+    entryCount: trip.entryCount,
+    photoCount: trip.photoCount,
+    wordCount: words.reduce((sum, { value }) => sum + value, 0),
+    zeroDays: posts.filter(post => hasTag(post, ZERO_DAY_TAG)).length,
+    milesPerDay: knownDays > 0 ? knownMiles / knownDays : null,
+    mileageSegments,
+    photosPerDay: trip.photoCount / totalDays,
+    photos: sumByDay(posts, post => post.images?.length ?? 0),
+    words,
+    longestGap: findLongestGap(posts),
+    activity: eachDay(trip.startDate, trip.endDate).map(date => ({
+      date,
+      value: postsPerDay.get(date) ?? 0,
+    })),
+  };
+};
@@ -0,0 +1,94 @@
+import { computeMileage, getStateForMile, TRAILS } from './mileage';
+import { BlogPostData, createSlug, sortPosts } from './posts';
+import { getPostTripSlug, parsePostTitle } from './trips';
+
+// One entry of data/tag-rules.json: the tag is added when any title keyword appears in
+// the title or any content keyword appears in the text. Keywords match whole words,
+// case-insensitively.
+export interface TagRule {
+  tag: string;
+  title?: string[];
+  content?: string[];
+}
+
+export interface TagRules {
+  rules: TagRule[];
+}
+
+export interface TagSummary {
+  slug: string;
+  name: string;
+  count: number;
+}
+
+export const getTagSlug = (tag: string): string => createSlug(tag);
+
+const keywordPattern = (keyword: string): RegExp => {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`\\b${escaped}\\b`, 'i');
+};
+
+const matchesAny = (text: string, keywords: string[] = []): boolean => {
+  return keywords.some(keyword => keywordPattern(keyword).test(text));
+};
+
+// Tags from the keyword rules, in rule order
+export const matchTagRules = (post: BlogPostData, rules: TagRule[]): string[] => {
+  const { title } = parsePostTitle(post.title);
+  return rules
+    .filter(rule => matchesAny(title, rule.title) || matchesAny(post.content, rule.content))
+    .map(rule => rule.tag);
+};
+
+// The state(s) a post was written in, from its trail mile. "North Carolina / Tennessee"
+// follows the border, so it yields both.
+const getStateTags = (post: BlogPostData, mile: number | undefined): string[] => {
+  const tripSlug = getPostTripSlug(post);
+  const trail = tripSlug ? TRAILS[tripSlug] : undefined;
+  if (!trail || mile === undefined) return [];
+  return getStateForMile(trail, mile).name.split(/\s*\/\s*/);
+};
+
+// Add rule and state tags to every post, keeping any tags that came with the export
+export const tagPosts = (posts: BlogPostData[], rules: TagRule[]): BlogPostData[] => {
+  const mileage = computeMileage(sortPosts(posts));
+
+  return posts.map(post => {
+    const tags = [
+      ...(post.tags ?? []),
+      ...matchTagRules(post, rules),
+      ...getStateTags(post, mileage.get(post.url)?.mile),
+    ];
+    const seen = new Set<string>();
+    return {
+      ...post,
+      tags: tags.filter(tag => {
+        const slug = getTagSlug(tag);
+        if (seen.has(slug)) return false;
+        seen.add(slug);
+        return true;
+      }),
+    };
+  });
+};
+
+export const hasTag = (post: BlogPostData, tagSlug: string): boolean => {
+  return (post.tags ?? []).some(tag => getTagSlug(tag) === tagSlug);
+};
+
+// Every tag in use, most used first
+export const summarizeTags = (posts: BlogPostData[]): TagSummary[] => {
+  const summaries = new Map<string, TagSummary>();
+  posts.forEach(post => {
+    (post.tags ?? []).forEach(tag => {
+      const slug = getTagSlug(tag);
+      const summary = summaries.get(slug) ?? { slug, name: tag, count: 0 };
+      summary.count += 1;
+      summaries.set(slug, summary);
+    });
+  });
+
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+};
@@ -0,0 +1,32 @@
+import { Locale } from './i18n';
+import { BlogPostData } from './posts';
+import { parsePostTitle } from './trips';
+
+// The post as read in `locale`: translated fields replace the original ones, missing
+// ones fall back to it. A translated title without the series prefix ("AT 64: …")
+// keeps the original's, so the post stays in its trip and keeps its day.
+export const localizePost = (post: BlogPostData, locale: Locale): BlogPostData => {
+  const translation = post.translations?.[locale];
+  if (!translation) return post;
+
+  let title = translation.title ?? post.title;
+  const original = parsePostTitle(post.title);
+  if (translation.title && original.trip && parsePostTitle(translation.title).trip === null) {
+    title = `${original.trip} ${original.day}: ${translation.title}`;
+  }
+
+  // Plain translated text must not be hidden behind the original's HTML
+  const hasContent = translation.content !== undefined || translation.content_html !== undefined;
+
+  return {
+    ...post,
+    title,
+    content: translation.content ?? post.content,
+    content_html: hasContent ? translation.content_html : post.content_html,
+    meta_description: translation.meta_description ?? post.meta_description,
+  };
+};
+
+export const localizePosts = (posts: BlogPostData[], locale: Locale): BlogPostData[] => {
+  return posts.map(post => localizePost(post, locale));
+};
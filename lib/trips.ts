@@ -0,0 +1,109 @@
+import { BlogPostData, createSlug } from './posts';
+
+export interface ParsedTitle {
+  trip: string | null;
+  day: number | null;
+  title: string;
+}
+
+export interface Trip {
+  slug: string;
+  name: string;
+  posts: BlogPostData[];
+  startDate: string;
+  endDate: string;
+  entryCount: number;
+  photoCount: number;
+}
+
+export interface TripSummary {
+  slug: string;
+  name: string;
+  entryCount: number;
+}
+
+// Display names for the title prefixes we know about; anything else is shown as-is
+const TRIP_NAMES: { [prefix: string]: string } = {
+  AT: 'Appalachian Trail',
+  Yosemite: 'Yosemite',
+};
+
+// "AT 64: 800 Miles Buena Vista" -> prefix "AT", day "64", rest "800 Miles Buena Vista"
+const SERIES_TITLE = /^\s*([A-Za-z][A-Za-z ]*?)\s+(\d+)\s*:\s*(.*)$/;
+
+// Clean up the leftovers of the WordPress title scrape: stray colons in mileage
+// ("300: Miles"), trailing colons ("Part 2:") and shouted words like "DAY 2"
+const cleanTitle = (title: string): string => {
+  return title
+    .replace(/(\d)\s*:\s*(Miles)\b/gi, '$1 $2')
+    .replace(/:+\s*$/, '')
+    .replace(/\bDAY\b/g, 'Day')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const parsePostTitle = (title: string): ParsedTitle => {
+  const match = title.match(SERIES_TITLE);
+  if (!match) {
+    return { trip: null, day: null, title: cleanTitle(title) };
+  }
+
+  const [, prefix, day, rest] = match;
+  return {
+    trip: prefix.trim(),
+    day: parseInt(day, 10),
+    title: cleanTitle(rest) || cleanTitle(title),
+  };
+};
+
+export const getTripName = (prefix: string): string => {
+  return TRIP_NAMES[prefix] ?? prefix;
+};
+
+export const getTripSlug = (prefix: string): string => {
+  return createSlug(prefix);
+};
+
+export const getPostTripSlug = (post: BlogPostData): string | null => {
+  const { trip } = parsePostTitle(post.title);
+  return trip ? getTripSlug(trip) : null;
+};
+
+// Group posts into trips, keeping the incoming (chronological) order within each trip
+export const groupPostsByTrip = (posts: BlogPostData[]): Trip[] => {
+  const trips = new Map<string, Trip>();
+
+  posts.forEach(post => {
+    const { trip: prefix } = parsePostTitle(post.title);
+    if (!prefix) return;
+
+    const slug = getTripSlug(prefix);
+    let trip = trips.get(slug);
+    if (!trip) {
+      trip = {
+        slug,
+        name: getTripName(prefix),
+        posts: [],
+        startDate: post.date,
+        endDate: post.date,
+        entryCount: 0,
+        photoCount: 0,
+      };
+      trips.set(slug, trip);
+    }
+
+    trip.posts.push(post);
+    trip.entryCount += 1;
+    trip.photoCount += post.images?.length ?? 0;
+    if (new Date(post.date) < new Date(trip.startDate)) trip.startDate = post.date;
+    if (new Date(post.date) > new Date(trip.endDate)) trip.endDate = post.date;
+  });
+
+  return Array.from(trips.values()).sort((a, b) => {
+    return new Date(a.startDate).getTime() - new Date(b.startDate).getTime();
+  });
+};
+
+export const summarizeTrips = (trips: Trip[]): TripSummary[] => {
+  return trips.map(({ slug, name, entryCount }) => ({ slug, name, entryCount }));
+};
@@ -0,0 +1,184 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { BlogPostData } from './posts';
+import { validatePosts } from './schema';
+import { createExcerpt, formatPostDate, mergeImportedPosts, parseRestPosts, parseWxr } from './wordpress';
+
+const FIXTURES = path.join(__dirname, '..', 'scripts', 'fixtures');
+const wxr = readFileSync(path.join(FIXTURES, 'wordpress-export.xml'), 'utf8');
+const rest = JSON.parse(readFileSync(path.join(FIXTURES, 'wordpress-rest.json'), 'utf8'));
+
+const AT_1 = 'https://krlwtz.com/2023/04/11/at-1-shopping/';
+const YOSEMITE_7 = 'https://krlwtz.com/2024/08/24/yosemite-7-valley-floor/';
+const YOSEMITE_8 = 'https://krlwtz.com/2024/08/26/yosemite-8-home/';
+
+const byUrl = (posts: BlogPostData[], url: string) => posts.find(post => post.url === url)!;
+
+describe('parseWxr', () => {
+  const posts = parseWxr(wxr);
+
+  it('imports published posts only', () => {
+    expect(posts.map(post => post.url)).toEqual([AT_1, YOSEMITE_7, YOSEMITE_8]);
+  });
+
+  it('gives records that pass the schema', () => {
+    expect(validatePosts(posts).issues.filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('maps the fields of a block editor post', () => {
+    expect(byUrl(posts, YOSEMITE_7)).toMatchObject({
+      title: 'Yosemite 7: Valley Floor & Goodbyes',
+      date: '2024-08-24T19:05:00-07:00',
+      author: 'Karlowitz',
+      categories: ['Yosemite'],
+      tags: ['waterfalls'],
+      featured_image: 'https://krlwtz.com/wp-content/uploads/2024/08/pxl_20240824_154012345.jpg',
+    });
+    expect(byUrl(posts, YOSEMITE_7).content).toBe(
+      'Slow morning in the valley. Walked the loop to Lower Yosemite Fall before the crowds showed up.\n' +
+        'Packed up, returned the bear canister and caught the bus out.\nAlready planning the next one.'
+    );
+  });
+
+  it('collects the photos, without titles made from file names', () => {
+    expect(byUrl(posts, YOSEMITE_7).images).toEqual([
+      {
+        src: 'https://krlwtz.com/wp-content/uploads/2024/08/pxl_20240824_154012345.jpg',
+        alt: 'Lower Yosemite Fall from the bridge',
+        title: '',
+      },
+      {
+        src: 'https://krlwtz.com/wp-content/uploads/2024/08/pxl_20240824_181502001.jpg',
+        alt: '',
+        title: 'Last look at El Capitan',
+      },
+    ]);
+  });
+
+  it('adds paragraphs to classic editor posts and keeps a written excerpt', () => {
+    const post = byUrl(posts, YOSEMITE_8);
+    expect(post.content_html).toBe('<p>Long flight back.<br/>\nJet lag tomorrow, laundry today.</p>\n<p>Thanks for following along!</p>');
+    expect(post.meta_description).toBe('Back home after two weeks in the Sierra.');
+    expect(post.date).toBe('2024-08-26T21:30:00+02:00');
+  });
+
+  it('makes an excerpt when there is none', () => {
+    expect(byUrl(posts, AT_1).meta_description).toBe(
+      'Woke up early, got a long breakfast at the hotel. Walked to the REI to get a bear can, gas, and various smaller things.'
+    );
+  });
+});
+
+describe('parseRestPosts', () => {
+  const [post] = parseRestPosts(rest);
+
+  it('maps the same post to the same record as the WXR export', () => {
+    const fromWxr = byUrl(parseWxr(wxr), YOSEMITE_7);
+    (['url', 'title', 'date', 'author', 'categories', 'tags', 'content', 'meta_description'] as const).forEach(field => {
+      expect(post[field]).toEqual(fromWxr[field]);
+    });
+  });
+
+  it('takes the featured image and photos from the Jetpack URLs', () => {
+    expect(post.featured_image).toBe(
+      'https://i0.wp.com/krlwtz.com/wp-content/uploads/2024/08/pxl_20240824_154012345.jpg?fit=904%2C1200&ssl=1'
+    );
+    expect(post.images?.map(image => image.src)).toEqual([post.featured_image]);
+  });
+
+  it('accepts a single post and skips other types and states', () => {
+    expect(parseRestPosts(rest[0])).toHaveLength(1);
+    expect(parseRestPosts([{ ...rest[0], status: 'draft' }, { ...rest[0], type: 'page' }])).toEqual([]);
+  });
+});
+
+describe('mergeImportedPosts', () => {
+  const imported = parseWxr(wxr);
+  const existing: BlogPostData[] = [
+    {
+      url: AT_1,
+      title: 'AT 1: Shopping',
+      date: '2023-04-11T02:00:00+02:00',
+      content: 'The scraped text.',
+      tags: ['Gear'],
+      slug: 'at-1-shopping',
+    },
+  ];
+
+  it('adds new posts and merges known ones by url', () => {
+    const result = mergeImportedPosts(existing, imported, {});
+    expect(result.posts.map(post => post.url)).toEqual([AT_1, YOSEMITE_7, YOSEMITE_8]);
+    expect(result.added).toEqual([YOSEMITE_7, YOSEMITE_8]);
+  });
+
+  it('only fills in missing fields of posts never imported before', () => {
+    const result = mergeImportedPosts(existing, imported, {});
+    const post = result.posts[0];
+    expect(post.content).toBe('The scraped text.');
+    expect(post.tags).toEqual(['Gear']);
+    expect(post.author).toBe('Karlowitz');
+    expect(post.slug).toBe('at-1-shopping');
+    expect(result.updated).toEqual([AT_1]);
+    expect(result.kept).toEqual(
+      expect.arrayContaining([
+        { url: AT_1, field: 'content', reason: 'no-snapshot' },
+        { url: AT_1, field: 'tags', reason: 'no-snapshot' },
+      ])
+    );
+  });
+
+  it('takes everything from WordPress with overwrite, but keeps fields it does not own', () => {
+    const [post] = mergeImportedPosts(existing, imported, {}, { overwrite: true }).posts;
+    expect(post.content).toBe(byUrl(imported, AT_1).content);
+    expect(post.tags).toEqual([]);
+    expect(post.slug).toBe('at-1-shopping');
+  });
+
+  it('changes nothing when the same export is imported again', () => {
+    const first = mergeImportedPosts([], imported, {});
+    const second = mergeImportedPosts(first.posts, parseWxr(wxr), first.snapshot);
+    expect(second.posts).toEqual(first.posts);
+    expect(second.added).toEqual([]);
+    expect(second.updated).toEqual([]);
+    expect(second.kept).toEqual([]);
+  });
+
+  it('updates fields WordPress changed and keeps the ones edited by hand since', () => {
+    const first = mergeImportedPosts([], imported, {});
+    const edited = first.posts.map(post => (post.url === YOSEMITE_7 ? { ...post, title: 'Yosemite 7: Edited by hand' } : post));
+
+    // The REST export of the same post has Jetpack photo URLs
+    const second = mergeImportedPosts(edited, parseRestPosts(rest), first.snapshot);
+    const post = byUrl(second.posts, YOSEMITE_7);
+    expect(second.posts).toHaveLength(3);
+    expect(post.title).toBe('Yosemite 7: Edited by hand');
+    expect(post.featured_image).toContain('i0.wp.com');
+    expect(second.updated).toEqual([YOSEMITE_7]);
+    expect(second.kept).toEqual([{ url: YOSEMITE_7, field: 'title', reason: 'edited' }]);
+    expect(second.snapshot[YOSEMITE_7].featured_image).toBe(post.featured_image);
+  });
+
+  it('keeps one post per url when an export lists a post twice', () => {
+    const result = mergeImportedPosts([], [...parseRestPosts(rest), ...parseRestPosts(rest)], {});
+    expect(result.posts).toHaveLength(1);
+    expect(result.added).toEqual([YOSEMITE_7]);
+  });
+});
+
+describe('formatPostDate', () => {
+  it('adds the offset between local and GMT time', () => {
+    expect(formatPostDate('2023-04-11 02:00:00', '2023-04-11 00:00:00')).toBe('2023-04-11T02:00:00+02:00');
+    expect(formatPostDate('2024-08-24 19:05:00', '2024-08-25 02:05:00')).toBe('2024-08-24T19:05:00-07:00');
+  });
+
+  it('falls back to UTC for drafts without a GMT date', () => {
+    expect(formatPostDate('2024-09-01 10:00:00', '0000-00-00 00:00:00')).toBe('2024-09-01T10:00:00+00:00');
+  });
+});
+
+describe('createExcerpt', () => {
+  it('cuts after the word limit and straightens quotes', () => {
+    expect(createExcerpt('“One” ‘two’ three four', 3)).toBe('"One" \'two\' three…');
+  });
+});
@@ -0,0 +1,324 @@
+import { decodeEntities, HtmlNode, htmlToText, parseHtml } from './html';
+import { BlogPostData, BlogPostImage } from './posts';
+
+// Turns a WordPress export into blog_posts.json records. Two sources are understood:
+// a WXR file (Tools → Export) and saved REST API responses (/wp-json/wp/v2/posts,
+// ideally with `?_embed` so featured images and terms come along).
+
+// WordPress' default `excerpt_length`, in words
+const EXCERPT_LENGTH = 55;
+
+// ---------------------------------------------------------------------------
+// Shared mapping
+
+// "2023-04-11 02:00:00" local and "2023-04-11 00:00:00" GMT → "2023-04-11T02:00:00+02:00",
+// the format the scraped export uses
+export const formatPostDate = (local: string, gmt?: string): string => {
+  const localTime = local.trim().replace(' ', 'T');
+  const gmtTime = gmt?.trim().replace(' ', 'T');
+  if (!gmtTime || gmtTime.startsWith('0000')) return `${localTime}+00:00`;
+
+  const offset = Math.round((Date.parse(`${localTime}Z`) - Date.parse(`${gmtTime}Z`)) / 60000);
+  if (Number.isNaN(offset)) return `${localTime}+00:00`;
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${localTime}${sign}${hours}:${minutes}`;
+};
+
+// Classic-editor posts are stored without <p> tags; WordPress adds them when rendering
+const autop = (html: string): string => {
+  if (/<(p|div|ul|ol|h[1-6]|blockquote|figure)[\s>]/i.test(html)) return html;
+  return html
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => `<p>${block.replace(/\n/g, '<br/>\n')}</p>`)
+    .join('\n');
+};
+
+// "pxl 20230411 123416291 1" for pxl_20230411_123416291-1.jpg: WordPress fills the
+// title in from the file name, which says nothing
+const isFileNameTitle = (title: string, src: string): boolean => {
+  const fileName = decodeURIComponent(new URL(src).pathname.split('/').pop() ?? '');
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+  return normalize(title) === normalize(fileName.replace(/\.[a-z0-9]+$/i, ''));
+};
+
+const collectImages = (nodes: HtmlNode[], images: BlogPostImage[]) => {
+  nodes.forEach(node => {
+    if (node.type !== 'element') return;
+    if (node.tag === 'img' && node.attrs.src) {
+      try {
+        const src = new URL(node.attrs.src).toString();
+        if (images.some(image => image.src === src)) return;
+        const title = node.attrs.title ?? node.attrs['data-image-title'] ?? '';
+        images.push({
+          src,
+          alt: node.attrs.alt ?? '',
+          title: title && !isFileNameTitle(title, src) ? title : '',
+        });
+      } catch {
+        // Relative or broken src: not something we can show
+      }
+      return;
+    }
+    collectImages(node.children, images);
+  });
+};
+
+export const extractImages = (html: string): BlogPostImage[] => {
+  const images: BlogPostImage[] = [];
+  collectImages(parseHtml(html), images);
+  return images;
+};
+
+// Generated excerpt the way WordPress makes it (and the scrape has it): the first 55
+// words, with curly quotes straightened
+export const createExcerpt = (text: string, maxWords = EXCERPT_LENGTH): string => {
+  const words = text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .split(/\s+/)
+    .filter(Boolean);
+  return words.length <= maxWords ? words.join(' ') : `${words.slice(0, maxWords).join(' ')}…`;
+};
+
+interface WordPressEntry {
+  url: string;
+  title: string;
+  date: string;
+  author?: string;
+  html: string;
+  excerpt?: string;
+  featuredImage?: string;
+  categories: string[];
+  tags: string[];
+}
+
+const toBlogPost = (entry: WordPressEntry): BlogPostData => {
+  const contentHtml = autop(entry.html);
+  const content = htmlToText(contentHtml);
+  const excerpt = entry.excerpt ? htmlToText(entry.excerpt) : '';
+  const images = extractImages(contentHtml);
+
+  return {
+    url: entry.url,
+    title: decodeEntities(entry.title).trim(),
+    date: entry.date,
+    ...(entry.author ? { author: entry.author } : {}),
+    categories: entry.categories,
+    tags: entry.tags,
+    content,
+    content_html: contentHtml,
+    images,
+    featured_image: entry.featuredImage ?? images[0]?.src,
+    meta_description: excerpt || createExcerpt(content),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// WXR
+
+// Text of the first <tag>…</tag>, unwrapping CDATA sections
+const xmlValue = (xml: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>|<${tag}(?:\\s[^>]*)?/>`).exec(xml);
+  if (!match) return undefined;
+  const raw = match[1] ?? '';
+  const cdata = raw.match(/<!\[CDATA\[([\s\S]*?)\]\]>/g);
+  if (cdata) return cdata.map(section => section.slice(9, -3)).join('');
+  return decodeEntities(raw);
+};
+
+const xmlBlocks = (xml: string, tag: string): string[] => {
+  return xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'g')) ?? [];
+};
+
+export const parseWxr = (xml: string): BlogPostData[] => {
+  const items = xmlBlocks(xml, 'item');
+
+  const meta = (item: string): { [key: string]: string } => {
+    const result: { [key: string]: string } = {};
+    xmlBlocks(item, 'wp:postmeta').forEach(block => {
+      const key = xmlValue(block, 'wp:meta_key');
+      if (key) result[key] = xmlValue(block, 'wp:meta_value') ?? '';
+    });
+    return result;
+  };
+
+  // Featured images point at attachment items by id
+  const attachments = new Map<string, string>();
+  items.forEach(item => {
+    if (xmlValue(item, 'wp:post_type') !== 'attachment') return;
+    const id = xmlValue(item, 'wp:post_id');
+    const url = xmlValue(item, 'wp:attachment_url');
+    if (id && url) attachments.set(id.trim(), url.trim());
+  });
+
+  const authors = new Map<string, string>();
+  xmlBlocks(xml, 'wp:author').forEach(block => {
+    const login = xmlValue(block, 'wp:author_login');
+    const name = xmlValue(block, 'wp:author_display_name');
+    if (login && name) authors.set(login, name);
+  });
+
+  return items
+    .filter(item => xmlValue(item, 'wp:post_type') === 'post' && xmlValue(item, 'wp:status') === 'publish')
+    .map(item => {
+      const terms = (domain: string) =>
+        (item.match(new RegExp(`<category[^>]*domain="${domain}"[^>]*>[\\s\\S]*?</category>`, 'g')) ?? [])
+          .map(block => xmlValue(block, 'category')?.trim() ?? '')
+          .filter(Boolean);
+      const thumbnailId = meta(item)._thumbnail_id;
+      const creator = xmlValue(item, 'dc:creator')?.trim();
+
+      return toBlogPost({
+        url: xmlValue(item, 'link')?.trim() ?? '',
+        title: xmlValue(item, 'title') ?? '',
+        date: formatPostDate(xmlValue(item, 'wp:post_date') ?? '', xmlValue(item, 'wp:post_date_gmt')),
+        author: creator ? authors.get(creator) ?? creator : undefined,
+        html: xmlValue(item, 'content:encoded') ?? '',
+        excerpt: xmlValue(item, 'excerpt:encoded'),
+        featuredImage: thumbnailId ? attachments.get(thumbnailId.trim()) : undefined,
+        categories: terms('category'),
+        tags: terms('post_tag'),
+      });
+    });
+};
+
+// ---------------------------------------------------------------------------
+// REST API
+
+interface RestTerm {
+  taxonomy?: string;
+  name?: string;
+}
+
+interface RestPost {
+  link?: string;
+  type?: string;
+  status?: string;
+  date?: string;
+  date_gmt?: string;
+  title?: { rendered?: string };
+  content?: { rendered?: string };
+  excerpt?: { rendered?: string };
+  jetpack_featured_media_url?: string;
+  _embedded?: {
+    author?: { name?: string }[];
+    'wp:featuredmedia'?: { source_url?: string }[];
+    'wp:term'?: RestTerm[][];
+  };
+}
+
+// A saved response is an array of posts; several pages can be concatenated into one array
+export const parseRestPosts = (json: unknown): BlogPostData[] => {
+  const posts = (Array.isArray(json) ? json : [json]) as RestPost[];
+
+  return posts
+    .filter(post => (post.type ?? 'post') === 'post' && (post.status ?? 'publish') === 'publish')
+    .map(post => {
+      const terms = (taxonomy: string) =>
+        (post._embedded?.['wp:term'] ?? [])
+          .flat()
+          .filter(term => term.taxonomy === taxonomy && term.name)
+          .map(term => decodeEntities(term.name!));
+
+      return toBlogPost({
+        url: post.link ?? '',
+        title: post.title?.rendered ?? '',
+        date: formatPostDate(post.date ?? '', post.date_gmt),
+        author: post._embedded?.author?.[0]?.name,
+        html: post.content?.rendered ?? '',
+        // WordPress appends a "continue reading" link to generated excerpts
+        excerpt: post.excerpt?.rendered?.replace(/<a\b[^>]*class="more-link"[\s\S]*?<\/a>/, ''),
+        featuredImage: post._embedded?.['wp:featuredmedia']?.[0]?.source_url || post.jetpack_featured_media_url || undefined,
+        categories: terms('category'),
+        tags: terms('post_tag'),
+      });
+    });
+};
+
+// ---------------------------------------------------------------------------
+// Merging
+
+// Fields the importer owns. Anything else on a record (added by hand) is never touched.
+const IMPORTED_FIELDS = [
+  'title', 'date', 'author', 'categories', 'tags', 'content', 'content_html', 'images',
+  'featured_image', 'meta_description',
+] as const;
+
+type ImportedField = (typeof IMPORTED_FIELDS)[number];
+
+// What each post looked like at the last import, keyed by url
+export type ImportSnapshot = { [url: string]: Partial<Pick<BlogPostData, ImportedField>> };
+
+export interface MergeResult {
+  posts: BlogPostData[];
+  snapshot: ImportSnapshot;
+  added: string[];
+  updated: string[];
+  // Fields left alone: edited by hand since the last import, or never imported before
+  // so there's no telling
+  kept: { url: string; field: ImportedField; reason: 'edited' | 'no-snapshot' }[];
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const copyField = <K extends ImportedField>(target: Partial<BlogPostData>, source: Partial<BlogPostData>, field: K) => {
+  target[field] = source[field];
+};
+
+// Three-way merge by url: a field takes the WordPress value unless it was changed by
+// hand since the last import (it differs from the snapshot). Without a snapshot entry
+// there is no way to tell, so existing values win unless `overwrite` is set.
+export const mergeImportedPosts = (
+  existing: BlogPostData[],
+  imported: BlogPostData[],
+  snapshot: ImportSnapshot,
+  { overwrite = false }: { overwrite?: boolean } = {}
+): MergeResult => {
+  const result: MergeResult = { posts: [...existing], snapshot: { ...snapshot }, added: [], updated: [], kept: [] };
+  const indexByUrl = new Map(existing.map((post, index) => [post.url, index]));
+
+  imported.forEach(post => {
+    const fields: ImportSnapshot[string] = {};
+    IMPORTED_FIELDS.forEach(field => {
+      if (post[field] !== undefined) copyField(fields, post, field);
+    });
+    result.snapshot[post.url] = fields;
+
+    const index = indexByUrl.get(post.url);
+    if (index === undefined) {
+      indexByUrl.set(post.url, result.posts.length);
+      result.posts.push(post);
+      result.added.push(post.url);
+      return;
+    }
+
+    const current = result.posts[index];
+    const base = snapshot[post.url];
+    const merged: BlogPostData = { ...current };
+    let changed = false;
+
+    IMPORTED_FIELDS.forEach(field => {
+      const incoming = post[field];
+      if (sameValue(current[field], incoming)) return;
+
+      const untouched = current[field] === undefined || overwrite || (base !== undefined && sameValue(current[field], base[field]));
+      if (untouched) {
+        copyField(merged, post, field);
+        changed = true;
+      } else {
+        result.kept.push({ url: post.url, field, reason: base ? 'edited' : 'no-snapshot' });
+      }
+    });
+
+    if (changed) {
+      result.posts[index] = merged;
+      result.updated.push(post.url);
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isLocale, LOCALE_COOKIE, localizePath, negotiateLocale } from './lib/i18n';
+
+// Pages live under /en and /de. Unprefixed page URLs (old links, feeds, redirects from
+// earlier slugs) go to the reader's language: the one they picked last, otherwise the
+// browser's.
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const [, first] = pathname.split('/');
+
+  if (isLocale(first)) {
+    const response = NextResponse.next();
+    if (request.cookies.get(LOCALE_COOKIE)?.value !== first) {
+      response.cookies.set(LOCALE_COOKIE, first, { path: '/', maxAge: 60 * 60 * 24 * 365 });
+    }
+    return response;
+  }
+
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = isLocale(saved) ? saved : negotiateLocale(request.headers.get('accept-language'));
+  const url = request.nextUrl.clone();
+  url.pathname = localizePath(locale, pathname);
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Feeds, JSON, images and other files keep their unprefixed URLs, and /admin and
+  // the /api route handlers have no locale
+  matcher: ['/((?!_next/|local-images/|admin(?:/|$)|api/|.*\\.[^/]+$).*)'],
+};
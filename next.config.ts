@@ -1,7 +1,29 @@
 import type { NextConfig } from "next";
+import { IMAGE_WIDTHS } from "./lib/image-loader";
+import { getAllPosts } from "./lib/load-posts";
+import { buildSlugRedirects } from "./lib/slugs";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    // Photos are resized by Jetpack (or /local-images), not by the Next.js optimizer
+    loader: "custom",
+    loaderFile: "./lib/image-loader.ts",
+    deviceSizes: IMAGE_WIDTHS.deviceSizes,
+    imageSizes: IMAGE_WIDTHS.imageSizes,
+  },
+  // The service worker has to be checked for updates on every visit
+  async headers() {
+    return [
+      {
+        source: "/sw.js",
+        headers: [{ key: "Cache-Control", value: "no-cache, no-store, must-revalidate" }],
+      },
+    ];
+  },
+  // Earlier slugs and the old WordPress permalinks (/2023/04/11/at-1-shopping/)
+  async redirects() {
+    return buildSlugRedirects(await getAllPosts());
+  },
 };
 
 export default nextConfig;
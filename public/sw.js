@@ -0,0 +1,145 @@
+// Service worker: keeps the journal readable without a connection. Registered by
+// components/ServiceWorker.tsx in production builds only.
+//
+// - The app shell (home pages, journal.json, icons) is cached on install.
+// - Pages and Next.js assets are cached as they are visited.
+// - journal.json is served from the cache and refreshed in the background; pages are
+//   told when it changed, so they can offer the new entries.
+// - Photos come from the network; without one, from a trip saved for offline reading
+//   (lib/offline.ts), in whatever size was saved.
+//
+// Cache names and the message type are shared with lib/offline.ts.
+
+const SHELL_CACHE = 'shell-v1';
+const PAGES_CACHE = 'pages';
+const ASSETS_CACHE = 'assets';
+const JOURNAL_UPDATED = 'journal-updated';
+
+const LOCALES = ['en', 'de'];
+const JOURNAL_URL = '/journal.json';
+const SHELL_URLS = [
+  ...LOCALES.map(locale => `/${locale}`),
+  JOURNAL_URL,
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop the shells of earlier versions; saved trips stay
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(
+        names
+          .filter(name => name.startsWith('shell-') && name !== SHELL_CACHE)
+          .map(name => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const notifyClients = async message => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Cached copy right away, then fetch the current one for next time
+const staleWhileRevalidate = async (event, request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(JOURNAL_URL);
+  const cachedText = cached ? cached.clone().text() : null;
+
+  const update = fetch(request).then(async response => {
+    if (!response.ok) return response;
+    const text = await response.clone().text();
+    await cache.put(JOURNAL_URL, response.clone());
+    if (cachedText && (await cachedText) !== text) await notifyClients({ type: JOURNAL_UPDATED });
+    return response;
+  });
+
+  if (!cached) return update;
+  event.waitUntil(update.catch(() => undefined));
+  return cached;
+};
+
+// Hashed file names never change, so a cached copy is always right
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSETS_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// The current page when online; offline the cached one, or else the home page of its
+// language
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    // A redirected response can't answer a navigation later
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(PAGES_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const [, first] = new URL(request.url).pathname.split('/');
+    const home = await caches.match(`/${LOCALES.includes(first) ? first : LOCALES[0]}`);
+    if (home) return home;
+    throw error;
+  }
+};
+
+// Saved trips hold each photo in one size; offline any size beats none
+const photo = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const saved = await caches.match(request, { ignoreSearch: true });
+    if (saved) return saved;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const isSameOrigin = url.origin === self.location.origin;
+
+  if (isSameOrigin && url.pathname.startsWith('/admin')) return;
+  // Comments and reactions are always live
+  if (isSameOrigin && url.pathname.startsWith('/api/')) return;
+  // Client-side navigations fetch RSC payloads; offline they fail and Next.js falls back
+  // to loading the page, which the cache can answer
+  if (isSameOrigin && url.searchParams.has('_rsc')) return;
+
+  if (isSameOrigin && url.pathname === JOURNAL_URL) {
+    event.respondWith(staleWhileRevalidate(event, request));
+  } else if (isSameOrigin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(photo(request));
+  }
+});
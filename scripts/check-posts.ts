@@ -0,0 +1,59 @@
+// Validates data/blog_posts.json and exits non-zero when any entry has errors, so a
+// broken scrape fails the build instead of reaching the site. Warnings are printed but
+// don't fail, and so is the number of photos without a placeholder color in
+// data/image-metadata.json.
+//
+//   npm run check:data
+//   npm run check:data -- path/to/export.json
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ImageMetadataMap, imageKey } from '../lib/images';
+import { BlogPostData } from '../lib/posts';
+import { formatIssue, validatePosts } from '../lib/schema';
+
+const ROOT = path.resolve(__dirname, '..');
+const file = path.resolve(process.argv[2] ?? path.join(ROOT, 'data', 'blog_posts.json'));
+const IMAGE_METADATA_FILE = path.join(ROOT, 'data', 'image-metadata.json');
+
+// Photos that would show the default gray until they load; `npm run images` fixes them
+const countMissingColors = async (posts: BlogPostData[]): Promise<{ missing: number; total: number }> => {
+  const metadata: ImageMetadataMap = await readFile(IMAGE_METADATA_FILE, 'utf8')
+    .then(raw => JSON.parse(raw))
+    .catch(() => ({}));
+  const keys = new Set(posts.flatMap(post => (post.images ?? []).map(image => imageKey(image.src))));
+  const missing = [...keys].filter(key => !metadata[key]?.color).length;
+  return { missing, total: keys.size };
+};
+
+const main = async () => {
+  let input: unknown;
+  try {
+    input = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    console.error(`error: could not read ${path.relative(ROOT, file)}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const { posts, issues } = validatePosts(input);
+  issues.forEach(issue => {
+    const line = formatIssue(issue);
+    if (issue.severity === 'error') console.error(line);
+    else console.warn(line);
+  });
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  console.log(
+    `${path.relative(ROOT, file)}: ${posts.length} valid entries, ${errors} errors, ${issues.length - errors} warnings`
+  );
+  if (errors > 0) process.exit(1);
+
+  const colors = await countMissingColors(posts);
+  if (colors.missing > 0) {
+    console.warn(
+      `warning: ${colors.missing} of ${colors.total} photos have no placeholder color; run \`npm run images\` with network access and commit ${path.relative(ROOT, IMAGE_METADATA_FILE)}`
+    );
+  }
+};
+
+main();
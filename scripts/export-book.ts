@@ -0,0 +1,190 @@
+// Exports a trip as a book: a print-ready page with its photos next to it (open it in
+// a browser and print, or save as PDF) and an EPUB. Photos come from the local mirror
+// (LOCAL_IMAGE_DIR) where it has them, otherwise from the image CDN, and are kept
+// resized in data/book-images, so later runs work without a connection. Photos that
+// can't be had are left out of the book.
+//
+//   npm run book -- at                 # exports/at-en/book.html and exports/at-en.epub
+//   npm run book -- at --locale de
+//   npm run book -- at --pdf           # also exports/at-en.pdf, printed by Chrome (CHROME_PATH)
+
+import { spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { copyFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import sharp from 'sharp';
+import { BOOK_IMAGE_WIDTH, BookPhoto, buildBook, renderPrintBook } from '../lib/book';
+import { createEpub, EpubImage } from '../lib/epub';
+import { isLocale } from '../lib/i18n';
+import wordpressImageLoader from '../lib/image-loader';
+import { imageKey } from '../lib/images';
+import { getAllTrips, getTripBySlug } from '../lib/load-posts';
+
+const ROOT = path.resolve(__dirname, '..');
+const OUTPUT_DIR = path.join(ROOT, 'exports');
+const CACHE_DIR = path.join(ROOT, 'data', 'book-images');
+// Must match app/local-images/[...path]/route.ts
+const LOCAL_IMAGE_DIR = path.resolve(process.env.LOCAL_IMAGE_DIR ?? path.join(ROOT, 'data', 'images'));
+
+// E-readers are small screens; the print size would only make the file heavy
+const EPUB_IMAGE_WIDTH = 1000;
+const JPEG_QUALITY = 80;
+const CONCURRENCY = 4;
+const MAX_CONSECUTIVE_FAILURES = 10;
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+interface PreparedPhoto {
+  name: string;
+  print: string;
+  epub: Buffer;
+}
+
+// One name per upload, whatever size the post links
+const photoName = (photo: BookPhoto): string => {
+  return createHash('sha1').update(imageKey(photo.src)).digest('hex').slice(0, 16);
+};
+
+// The photo as uploaded: from the mirror (it has the `wp-content/uploads` tree
+// without the host), or else the largest size the book needs from the CDN
+const readOriginal = async (photo: BookPhoto): Promise<Buffer> => {
+  const local = path.join(LOCAL_IMAGE_DIR, imageKey(photo.src).replace(/^[^/]+\//, ''));
+  try {
+    return await readFile(local);
+  } catch {
+    // Not mirrored; download it
+  }
+
+  const url = wordpressImageLoader({ src: photo.src, width: BOOK_IMAGE_WIDTH });
+  if (!/^https?:\/\//.test(url)) throw new Error(`not in ${path.relative(ROOT, LOCAL_IMAGE_DIR)}`);
+  const response = await fetch(url, { signal: AbortSignal.timeout(30000) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+};
+
+const resize = (original: Buffer, width: number): Promise<Buffer> => {
+  return sharp(original)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer();
+};
+
+// Both sizes of a photo, from the cache or made and cached now
+const preparePhoto = async (photo: BookPhoto): Promise<PreparedPhoto> => {
+  const name = photoName(photo);
+  const print = path.join(CACHE_DIR, `${name}-${BOOK_IMAGE_WIDTH}.jpg`);
+  const epub = path.join(CACHE_DIR, `${name}-${EPUB_IMAGE_WIDTH}.jpg`);
+
+  try {
+    await readFile(print);
+    return { name, print, epub: await readFile(epub) };
+  } catch {
+    // Not cached yet
+  }
+
+  const original = await readOriginal(photo);
+  const [printData, epubData] = await Promise.all([
+    resize(original, BOOK_IMAGE_WIDTH),
+    resize(original, EPUB_IMAGE_WIDTH),
+  ]);
+  await Promise.all([writeFile(print, printData), writeFile(epub, epubData)]);
+  return { name, print, epub: epubData };
+};
+
+// Chrome prints the page margin boxes, so the PDF gets its page numbers
+const printPdf = (htmlFile: string, pdfFile: string): boolean => {
+  const chrome = process.env.CHROME_PATH ?? 'google-chrome';
+  const result = spawnSync(chrome, [
+    '--headless',
+    '--disable-gpu',
+    '--no-pdf-header-footer',
+    `--print-to-pdf=${pdfFile}`,
+    pathToFileURL(htmlFile).href,
+  ], { stdio: 'inherit', timeout: 10 * 60 * 1000 });
+
+  if (result.error || result.status !== 0) {
+    console.warn(`Could not print with ${chrome}${result.error ? `: ${result.error.message}` : ''}.`);
+    console.warn('Set CHROME_PATH, or open book.html in a browser and save it as a PDF.');
+    return false;
+  }
+  return true;
+};
+
+const main = async () => {
+  const slug = args.find(arg => !arg.startsWith('--') && arg !== option('locale'));
+  const locale = option('locale') ?? 'en';
+  const trip = slug ? await getTripBySlug(slug) : null;
+
+  if (!trip || !isLocale(locale)) {
+    const trips = await getAllTrips();
+    console.error('usage: npm run book -- <trip> [--locale en|de] [--pdf]');
+    console.error(`trips: ${trips.map(candidate => candidate.slug).join(', ')}`);
+    process.exit(1);
+  }
+
+  const book = buildBook(trip, locale);
+  const name = `${trip.slug}-${locale}`;
+  const bookDir = path.join(OUTPUT_DIR, name);
+  await rm(bookDir, { recursive: true, force: true });
+  await Promise.all([mkdir(path.join(bookDir, 'images'), { recursive: true }), mkdir(CACHE_DIR, { recursive: true })]);
+
+  const photos = book.parts.flatMap(part => part.chapters).flatMap(chapter => {
+    return chapter.lead ? [chapter.lead, ...chapter.photos] : chapter.photos;
+  });
+  const prepared = new Map<string, PreparedPhoto>();
+  const pending = [...photos];
+  let consecutiveFailures = 0;
+
+  const worker = async () => {
+    while (pending.length > 0 && consecutiveFailures < MAX_CONSECUTIVE_FAILURES) {
+      const photo = pending.shift()!;
+      try {
+        const result = await preparePhoto(photo);
+        await copyFile(result.print, path.join(bookDir, 'images', `${result.name}.jpg`));
+        prepared.set(photo.src, result);
+        consecutiveFailures = 0;
+        if (prepared.size % 100 === 0) console.log(`${prepared.size} photos ready`);
+      } catch (error) {
+        consecutiveFailures += 1;
+        console.warn(`Leaving out ${imageKey(photo.src)}: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    console.warn('Too many photos missing in a row, stopping. The book goes without the rest.');
+  }
+
+  const htmlFile = path.join(bookDir, 'book.html');
+  await writeFile(htmlFile, renderPrintBook(book, photo => {
+    const result = prepared.get(photo.src);
+    return result ? `images/${result.name}.jpg` : null;
+  }));
+
+  const epubImages = new Map<string, EpubImage>();
+  prepared.forEach((result, src) => {
+    epubImages.set(src, { path: `images/${result.name}.jpg`, mediaType: 'image/jpeg', data: result.epub });
+  });
+  const epubFile = path.join(OUTPUT_DIR, `${name}.epub`);
+  await writeFile(epubFile, createEpub(book, epubImages));
+
+  console.log(`${book.title}: ${book.chapterCount} chapters, ${prepared.size} of ${photos.length} photos`);
+  console.log(`Wrote ${path.relative(ROOT, htmlFile)} and ${path.relative(ROOT, epubFile)}`);
+
+  if (args.includes('--pdf')) {
+    const pdfFile = path.join(OUTPUT_DIR, `${name}.pdf`);
+    if (printPdf(htmlFile, pdfFile)) console.log(`Wrote ${path.relative(ROOT, pdfFile)}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
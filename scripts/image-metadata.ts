@@ -0,0 +1,129 @@
+// Records width, height and dominant color of every journal photo in
+// data/image-metadata.json, so pages can reserve the right space and show a color
+// placeholder before the photo arrives. Images that already have a color are skipped,
+// so re-running only fetches new uploads. Run it after adding posts and commit the file;
+// builds only run the offline pass (see `prebuild`), and `check:data` warns about photos
+// still without a color.
+//
+//   npm run images              # dimensions + colors (downloads small thumbnails)
+//   npm run images -- --offline # dimensions only, from URLs and the WordPress markup
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+import { ImageMetadata, ImageMetadataMap, imageKey } from '../lib/images';
+import { BlogPostData } from '../lib/posts';
+
+const ROOT = path.resolve(__dirname, '..');
+const POSTS_FILE = path.join(ROOT, 'data', 'blog_posts.json');
+const OUTPUT_FILE = path.join(ROOT, 'data', 'image-metadata.json');
+const THUMBNAIL_WIDTH = 64;
+const CONCURRENCY = 6;
+const MAX_CONSECUTIVE_FAILURES = 10;
+
+const offline = process.argv.includes('--offline');
+
+const decodeAttribute = (value: string): string => {
+  return value.replace(/&quot;/g, '"').replace(/&#0?39;/g, "'").replace(/&amp;/g, '&');
+};
+
+// Original sizes from the WordPress markup: data-orig-file="…" data-orig-size="3072,4080"
+const readOriginalSizes = (posts: BlogPostData[]): Map<string, ImageMetadata> => {
+  const sizes = new Map<string, ImageMetadata>();
+  posts.forEach(post => {
+    for (const tag of (post.content_html ?? '').match(/<img\b[^>]*>/g) ?? []) {
+      const file = tag.match(/data-orig-file="([^"]+)"/);
+      const size = tag.match(/data-orig-size="(\d+),(\d+)"/);
+      if (file && size) {
+        sizes.set(imageKey(decodeAttribute(file[1])), {
+          width: parseInt(size[1], 10),
+          height: parseInt(size[2], 10),
+        });
+      }
+    }
+  });
+  return sizes;
+};
+
+const toHex = ({ r, g, b }: { r: number; g: number; b: number }): string => {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const thumbnailUrl = (key: string): string => `https://${key}?w=${THUMBNAIL_WIDTH}`;
+
+const analyze = async (key: string): Promise<ImageMetadata> => {
+  const response = await fetch(thumbnailUrl(key), { signal: AbortSignal.timeout(15000) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const image = sharp(Buffer.from(await response.arrayBuffer()));
+  const [{ width, height }, { dominant }] = await Promise.all([image.metadata(), image.stats()]);
+  if (!width || !height) throw new Error('not an image');
+  return { width, height, color: toHex(dominant) };
+};
+
+const readExisting = async (): Promise<ImageMetadataMap> => {
+  try {
+    return JSON.parse(await readFile(OUTPUT_FILE, 'utf8'));
+  } catch {
+    return {};
+  }
+};
+
+const main = async () => {
+  const posts: BlogPostData[] = JSON.parse(await readFile(POSTS_FILE, 'utf8'));
+  const metadata = await readExisting();
+  const originalSizes = readOriginalSizes(posts);
+
+  const keys = new Set<string>();
+  posts.forEach(post => {
+    (post.images ?? []).forEach(image => keys.add(imageKey(image.src)));
+    if (post.featured_image) keys.add(imageKey(post.featured_image));
+  });
+
+  // Dimensions from the markup never need a download
+  keys.forEach(key => {
+    const size = originalSizes.get(key);
+    if (size) metadata[key] = { ...metadata[key], ...size };
+  });
+
+  const pending = offline ? [] : [...keys].filter(key => !metadata[key]?.color);
+  let consecutiveFailures = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (pending.length > 0 && consecutiveFailures < MAX_CONSECUTIVE_FAILURES) {
+      const key = pending.shift()!;
+      try {
+        const result = await analyze(key);
+        // Thumbnail sizes only give the aspect ratio; keep the original size when known
+        metadata[key] = {
+          width: metadata[key]?.width ?? result.width,
+          height: metadata[key]?.height ?? result.height,
+          color: result.color,
+        };
+        consecutiveFailures = 0;
+      } catch (error) {
+        consecutiveFailures += 1;
+        console.warn(`Skipping ${key}: ${(error as Error).message}`);
+      }
+      done += 1;
+      if (done % 50 === 0) console.log(`${done} images analyzed`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    console.warn('Too many failed downloads in a row, stopping. Colors are missing for the rest.');
+  }
+
+  const sorted = Object.fromEntries(Object.entries(metadata).sort(([a], [b]) => a.localeCompare(b)));
+  await mkdir(path.dirname(OUTPUT_FILE), { recursive: true });
+  await writeFile(OUTPUT_FILE, `${JSON.stringify(sorted, null, 2)}\n`);
+
+  const withColor = Object.values(sorted).filter(entry => entry.color).length;
+  console.log(`Wrote ${Object.keys(sorted).length} images (${withColor} with colors) to ${path.relative(ROOT, OUTPUT_FILE)}`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
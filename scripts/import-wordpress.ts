@@ -0,0 +1,91 @@
+// Imports posts from a WordPress export into data/blog_posts.json. New posts are
+// added, changed ones updated, and fields edited by hand since the last import are
+// left alone (data/wordpress-import.json remembers what was imported). New and renamed
+// posts get their permalinks in data/slugs.json.
+//
+//   npm run import:wordpress -- export.xml               # WXR (Tools → Export)
+//   npm run import:wordpress -- posts.json               # saved /wp-json/wp/v2/posts?_embed
+//   npm run import:wordpress -- export.xml --dry-run     # only report what would change
+//   npm run import:wordpress -- export.xml --overwrite   # take WordPress' version of everything
+//
+// The first import has no record of earlier imports, so it only fills in missing
+// fields of existing posts unless --overwrite is given.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { BlogPostData } from '../lib/posts';
+import { formatIssue, validatePosts } from '../lib/schema';
+import { describeSlugChanges, SlugRegistry, updateSlugRegistry } from '../lib/slugs';
+import { ImportSnapshot, mergeImportedPosts, parseRestPosts, parseWxr } from '../lib/wordpress';
+
+const ROOT = path.resolve(__dirname, '..');
+const POSTS_FILE = path.join(ROOT, 'data', 'blog_posts.json');
+const SNAPSHOT_FILE = path.join(ROOT, 'data', 'wordpress-import.json');
+const SLUGS_FILE = path.join(ROOT, 'data', 'slugs.json');
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const overwrite = args.includes('--overwrite');
+const source = args.find(arg => !arg.startsWith('--'));
+
+const readJson = async <T>(file: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+const main = async () => {
+  if (!source) {
+    console.error('usage: npm run import:wordpress -- <export.xml | posts.json> [--dry-run] [--overwrite]');
+    process.exit(1);
+  }
+
+  const raw = await readFile(path.resolve(source), 'utf8');
+  const isXml = source.endsWith('.xml') || raw.trimStart().startsWith('<');
+  const parsed = isXml ? parseWxr(raw) : parseRestPosts(JSON.parse(raw));
+
+  // Skip entries WordPress gave us in a state we can't use, but say which
+  const { posts: imported, issues } = validatePosts(parsed);
+  issues.forEach(issue => console.warn(`${path.basename(source)} ${formatIssue(issue)}`));
+
+  const existing = await readJson<BlogPostData[]>(POSTS_FILE, []);
+  const snapshot = await readJson<ImportSnapshot>(SNAPSHOT_FILE, {});
+  const result = mergeImportedPosts(existing, imported, snapshot, { overwrite });
+
+  const errors = validatePosts(result.posts).issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    errors.forEach(issue => console.error(`merged ${formatIssue(issue)}`));
+    console.error('Not writing blog_posts.json: the merged data is invalid');
+    process.exit(1);
+  }
+
+  console.log(`${imported.length} posts in ${path.basename(source)}`);
+  result.added.forEach(url => console.log(`  added    ${url}`));
+  result.updated.forEach(url => console.log(`  updated  ${url}`));
+  result.kept.forEach(({ url, field, reason }) => {
+    console.log(`  kept     ${url} ${field} (${reason === 'edited' ? 'edited by hand' : 'not imported before; --overwrite to replace'})`);
+  });
+  console.log(`${result.added.length} added, ${result.updated.length} updated, ${result.kept.length} fields kept`);
+
+  // New and renamed posts get their permalinks right away
+  const slugs = await readJson<SlugRegistry>(SLUGS_FILE, {});
+  const updatedSlugs = updateSlugRegistry(result.posts, slugs);
+  describeSlugChanges(slugs, updatedSlugs).forEach(change => console.log(`  slug     ${change}`));
+
+  if (dryRun) {
+    console.log('Dry run: nothing written');
+    return;
+  }
+  // Same layout as the original scrape, so diffs stay readable
+  await writeFile(POSTS_FILE, JSON.stringify(result.posts, null, 2));
+  await writeFile(SNAPSHOT_FILE, `${JSON.stringify(result.snapshot, null, 2)}\n`);
+  await writeFile(SLUGS_FILE, `${JSON.stringify(updatedSlugs, null, 2)}\n`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+// Records a permalink for every post in data/slugs.json. New posts get one, renamed
+// posts get a new one and keep the old slug, which then redirects. Run it after editing
+// titles by hand; the WordPress importer does it on its own.
+//
+//   npm run slugs
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { validatePosts } from '../lib/schema';
+import { describeSlugChanges, SlugRegistry, updateSlugRegistry } from '../lib/slugs';
+
+const ROOT = path.resolve(__dirname, '..');
+const POSTS_FILE = path.join(ROOT, 'data', 'blog_posts.json');
+const SLUGS_FILE = path.join(ROOT, 'data', 'slugs.json');
+
+const main = async () => {
+  const { posts } = validatePosts(JSON.parse(await readFile(POSTS_FILE, 'utf8')));
+  const registry = await readFile(SLUGS_FILE, 'utf8').then(
+    raw => JSON.parse(raw) as SlugRegistry,
+    () => ({})
+  );
+
+  const updated = updateSlugRegistry(posts, registry);
+  const changes = describeSlugChanges(registry, updated);
+  changes.forEach(change => console.log(`  ${change}`));
+  console.log(changes.length > 0 ? `${changes.length} slugs added or changed` : 'All slugs up to date');
+
+  await writeFile(SLUGS_FILE, `${JSON.stringify(updated, null, 2)}\n`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});